@@ -1,34 +1,44 @@
--- How to Approve Users in Supabase
--- Run these SQL queries in Supabase Dashboard → SQL Editor
+-- How to Approve Users
+-- Users are approved, rejected and suspended from the in-app Admin page (/admin),
+-- which also emails the user about the change. The Admin page is only visible to
+-- users with the admin role. Run these SQL queries in Supabase Dashboard → SQL Editor
+-- to bootstrap the first admin or when the app is unavailable.
 
--- 1. View all pending users (not approved)
-SELECT 
+-- 1. Grant the admin role to a user by email (also approves their account)
+INSERT INTO public.user_roles (user_id, role)
+SELECT id, 'admin' FROM public.profiles WHERE email = 'admin@example.com'
+ON CONFLICT (user_id, role) DO NOTHING;
+
+UPDATE public.profiles
+SET approval_status = 'APPROVED'
+WHERE email = 'admin@example.com';
+
+-- 2. Revoke the admin role
+DELETE FROM public.user_roles
+WHERE role = 'admin'
+  AND user_id = (SELECT id FROM public.profiles WHERE email = 'admin@example.com');
+
+-- 3. View all pending users
+SELECT
   id,
   email,
   full_name,
-  is_approved,
+  approval_status,
   created_at
 FROM public.profiles
-WHERE is_approved = false
+WHERE approval_status = 'PENDING'
 ORDER BY created_at DESC;
 
--- 2. Approve a specific user by email
+-- 4. Approve a specific user by email
 UPDATE public.profiles
-SET is_approved = true
+SET approval_status = 'APPROVED'
 WHERE email = 'user@example.com';
 
--- 3. Approve a specific user by ID
-UPDATE public.profiles
-SET is_approved = true
-WHERE id = 'user-uuid-here';
-
--- 4. Approve all pending users (use with caution!)
-UPDATE public.profiles
-SET is_approved = true
-WHERE is_approved = false;
-
--- 5. Reject/Unapprove a user (if needed)
+-- 5. Reject or suspend a user with a reason shown on their pending approval page
 UPDATE public.profiles
-SET is_approved = false
+SET approval_status = 'SUSPENDED',
+    approval_reason = 'Reason shown to the user'
 WHERE email = 'user@example.com';
 
+-- Note: is_approved is kept in sync with approval_status automatically.
+-- Changes made here do not send a notification email.
@@ -0,0 +1,110 @@
+import { ReactNode, useCallback, useEffect, useMemo, useState } from "react";
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { AuthContext, AuthProfile } from "@/hooks/use-auth";
+
+const PROFILE_COLUMNS = "id, full_name, email, language, approval_status, approval_reason";
+
+interface AuthProviderProps {
+  children: ReactNode;
+}
+
+export const AuthProvider = ({ children }: AuthProviderProps) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [isSessionLoading, setIsSessionLoading] = useState(true);
+  const [profile, setProfile] = useState<AuthProfile | null>(null);
+  // Which user the current profile state belongs to, so a sign-in never shows the previous user's row
+  const [profileUserId, setProfileUserId] = useState<string | null>(null);
+  const [assurance, setAssurance] = useState<{ currentLevel: string | null; nextLevel: string | null } | null>(null);
+  const [requireMfa, setRequireMfa] = useState(false);
+
+  const user = session?.user ?? null;
+  const userId = user?.id ?? null;
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      setSession(nextSession);
+      setIsSessionLoading(false);
+    });
+
+    supabase.auth.getSession().then(({ data: { session: initialSession } }) => {
+      setSession(initialSession);
+      setIsSessionLoading(false);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  // Assurance level is derived from the session's JWT and factors, so recompute it on every change
+  useEffect(() => {
+    if (!session) {
+      setAssurance(null);
+      return;
+    }
+
+    supabase.auth.mfa.getAuthenticatorAssuranceLevel().then(({ data }) => {
+      setAssurance({ currentLevel: data?.currentLevel ?? null, nextLevel: data?.nextLevel ?? null });
+    });
+  }, [session]);
+
+  const loadProfile = useCallback(async (id: string) => {
+    const [{ data }, { data: membership }] = await Promise.all([
+      supabase.from("profiles").select(PROFILE_COLUMNS).eq("id", id).maybeSingle(),
+      supabase.from("organization_members").select("organizations(require_mfa)").eq("user_id", id).maybeSingle(),
+    ]);
+
+    setProfile(data);
+    setRequireMfa(membership?.organizations?.require_mfa ?? false);
+    setProfileUserId(id);
+  }, []);
+
+  const assuranceLevel = assurance?.currentLevel;
+
+  useEffect(() => {
+    if (!userId) {
+      setProfile(null);
+      setProfileUserId(null);
+      return;
+    }
+
+    // With a verified factor the profile is only readable at AAL2, so wait for
+    // the assurance level and load again once the challenge is passed
+    if (assuranceLevel === undefined) return;
+
+    loadProfile(userId);
+
+    // Approval changes made by an admin (or an accepted invite) apply without a reload
+    const channel = supabase
+      .channel(`profile:${userId}`)
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "profiles", filter: `id=eq.${userId}` },
+        () => loadProfile(userId)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, assuranceLevel, loadProfile]);
+
+  const refreshProfile = useCallback(async () => {
+    if (userId) await loadProfile(userId);
+  }, [userId, loadProfile]);
+
+  const value = useMemo(
+    () => ({
+      session,
+      user,
+      profile: profileUserId === userId ? profile : null,
+      isLoading: isSessionLoading || (userId !== null && (profileUserId !== userId || assurance === null)),
+      isApproved: profileUserId === userId && profile?.approval_status === "APPROVED",
+      needsMfaChallenge: assurance?.nextLevel === "aal2" && assurance.currentLevel !== "aal2",
+      needsMfaEnrollment: requireMfa && assurance?.nextLevel !== "aal2",
+      refreshProfile,
+    }),
+    [session, user, profile, profileUserId, userId, isSessionLoading, assurance, requireMfa, refreshProfile]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
@@ -0,0 +1,109 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { getVerifiedTotpFactor, redeemRecoveryCode, verifyTotp } from "@/utils/mfa";
+import TotpCodeInput from "./TotpCodeInput";
+
+// Verifying upgrades the session, and AuthProvider's new assurance level lets
+// the page continue; nothing needs to happen here afterwards
+const MfaChallenge = () => {
+  const { toast } = useToast();
+  const [factorId, setFactorId] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [useRecovery, setUseRecovery] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  useEffect(() => {
+    getVerifiedTotpFactor()
+      .then((factor) => setFactorId(factor?.id ?? null))
+      .catch(() => setFactorId(null));
+  }, []);
+
+  const handleVerify = async (value: string) => {
+    if (!factorId || value.length !== 6) return;
+
+    setIsVerifying(true);
+    try {
+      await verifyTotp(factorId, value);
+    } catch (error) {
+      setCode("");
+      toast({
+        title: "Verification failed",
+        description: error instanceof Error ? error.message : "Invalid code",
+        variant: "destructive",
+      });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleRecovery = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsVerifying(true);
+    try {
+      await redeemRecoveryCode(recoveryCode);
+      toast({
+        title: "Signed in with a recovery code",
+        description: "Two-factor authentication has been turned off. Set it up again in Settings.",
+      });
+    } catch (error) {
+      toast({
+        title: "Recovery failed",
+        description: error instanceof Error ? error.message : "Invalid recovery code",
+        variant: "destructive",
+      });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {!useRecovery ? (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground text-center">
+            Enter the 6-digit code from your authenticator app.
+          </p>
+          <div className="flex justify-center">
+            <TotpCodeInput value={code} onChange={setCode} onComplete={handleVerify} disabled={isVerifying || !factorId} />
+          </div>
+          <Button className="w-full" disabled={isVerifying || code.length !== 6} onClick={() => handleVerify(code)}>
+            {isVerifying ? "Verifying..." : "Verify"}
+          </Button>
+        </div>
+      ) : (
+        <form onSubmit={handleRecovery} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="recovery-code">Recovery code</Label>
+            <Input
+              id="recovery-code"
+              placeholder="xxxxx-xxxxx"
+              autoComplete="off"
+              value={recoveryCode}
+              onChange={(e) => setRecoveryCode(e.target.value)}
+              required
+            />
+          </div>
+          <Button type="submit" className="w-full" disabled={isVerifying}>
+            {isVerifying ? "Verifying..." : "Use recovery code"}
+          </Button>
+        </form>
+      )}
+
+      <div className="flex justify-between text-sm">
+        <Button type="button" variant="link" className="px-0" onClick={() => setUseRecovery(!useRecovery)}>
+          {useRecovery ? "Use authenticator app" : "Lost your device? Use a recovery code"}
+        </Button>
+        <Button type="button" variant="link" className="px-0 text-muted-foreground" onClick={() => supabase.auth.signOut()}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default MfaChallenge;
@@ -0,0 +1,43 @@
+import { ReactNode } from "react";
+import { Navigate, useLocation } from "react-router-dom";
+import { useAuth } from "@/hooks/use-auth";
+
+interface ProtectedRouteProps {
+  children: ReactNode;
+  /** Set to false for pages signed-in but unapproved users may see */
+  requireApproval?: boolean;
+}
+
+const ProtectedRoute = ({ children, requireApproval = true }: ProtectedRouteProps) => {
+  const location = useLocation();
+  const { session, isLoading, isApproved, needsMfaChallenge, needsMfaEnrollment } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+          <p className="mt-4 text-muted-foreground">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  // Auth shows the TOTP step for sessions that have only passed the password
+  if (!session || needsMfaChallenge) {
+    return <Navigate to="/auth" replace state={{ from: location }} />;
+  }
+
+  if (requireApproval && !isApproved) {
+    return <Navigate to="/pending-approval" replace />;
+  }
+
+  // Organizations that require MFA send members to enroll before anything else
+  if (requireApproval && needsMfaEnrollment && location.pathname !== "/settings") {
+    return <Navigate to="/settings?tab=security" replace />;
+  }
+
+  return <>{children}</>;
+};
+
+export default ProtectedRoute;
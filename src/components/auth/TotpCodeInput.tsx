@@ -0,0 +1,29 @@
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+
+interface TotpCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+}
+
+const TotpCodeInput = ({ value, onChange, onComplete, disabled }: TotpCodeInputProps) => (
+  <InputOTP
+    maxLength={6}
+    inputMode="numeric"
+    pattern="^[0-9]*$"
+    value={value}
+    onChange={onChange}
+    onComplete={onComplete}
+    disabled={disabled}
+    autoFocus
+  >
+    <InputOTPGroup>
+      {[0, 1, 2, 3, 4, 5].map((index) => (
+        <InputOTPSlot key={index} index={index} />
+      ))}
+    </InputOTPGroup>
+  </InputOTP>
+);
+
+export default TotpCodeInput;
@@ -0,0 +1,195 @@
+import { useCallback, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  disableTotp,
+  enrollTotp,
+  generateRecoveryCodes,
+  getVerifiedTotpFactor,
+  TotpEnrollment,
+  verifyTotp,
+} from "@/utils/mfa";
+import TotpCodeInput from "./TotpCodeInput";
+import { ShieldCheck } from "lucide-react";
+
+const TwoFactorSettings = () => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { user, needsMfaEnrollment } = useAuth();
+  const [factorId, setFactorId] = useState<string | null>(null);
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [remainingCodes, setRemainingCodes] = useState(0);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const loadStatus = useCallback(async () => {
+    const factor = await getVerifiedTotpFactor().catch(() => null);
+    setFactorId(factor?.id ?? null);
+
+    if (factor && user) {
+      const { count } = await supabase
+        .from("mfa_recovery_codes")
+        .select("*", { count: "exact", head: true })
+        .eq("user_id", user.id)
+        .is("used_at", null);
+      setRemainingCodes(count || 0);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : String(error),
+      variant: "destructive",
+    });
+  };
+
+  const handleStartEnrollment = async () => {
+    setIsWorking(true);
+    try {
+      setEnrollment(await enrollTotp());
+      setCode("");
+    } catch (error) {
+      showError(t("settings.security.enrollError"), error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleVerifyEnrollment = async (value: string) => {
+    if (!enrollment || value.length !== 6) return;
+
+    setIsWorking(true);
+    try {
+      await verifyTotp(enrollment.factorId, value);
+      // The session is AAL2 now, which generating recovery codes requires
+      setRecoveryCodes(await generateRecoveryCodes());
+      setEnrollment(null);
+      toast({ title: t("settings.security.enabled") });
+      loadStatus();
+    } catch (error) {
+      setCode("");
+      showError(t("settings.security.verifyError"), error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRegenerateCodes = async () => {
+    if (!confirm(t("settings.security.regenerateConfirm"))) return;
+
+    setIsWorking(true);
+    try {
+      setRecoveryCodes(await generateRecoveryCodes());
+      loadStatus();
+    } catch (error) {
+      showError(t("settings.security.recoveryCodesError"), error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    if (!factorId || !confirm(t("settings.security.disableConfirm"))) return;
+
+    setIsWorking(true);
+    try {
+      await disableTotp(factorId);
+      setRecoveryCodes(null);
+      toast({ title: t("settings.security.disabled") });
+      loadStatus();
+    } catch (error) {
+      showError(t("settings.security.disableError"), error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          {t("settings.security.title")}
+          {factorId && <Badge variant="secondary">{t("settings.security.on")}</Badge>}
+        </CardTitle>
+        <CardDescription>{t("settings.security.description")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {needsMfaEnrollment && (
+          <div className="rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm">
+            {t("settings.security.requiredByOrganization")}
+          </div>
+        )}
+
+        {recoveryCodes && (
+          <div className="space-y-2 rounded-md border p-4">
+            <p className="text-sm font-medium">{t("settings.security.recoveryCodesTitle")}</p>
+            <p className="text-sm text-muted-foreground">{t("settings.security.recoveryCodesHint")}</p>
+            <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+              {recoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => navigator.clipboard.writeText(recoveryCodes.join("\n"))}
+            >
+              {t("settings.security.copyCodes")}
+            </Button>
+          </div>
+        )}
+
+        {factorId ? (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {t("settings.security.remainingCodes", { count: remainingCodes })}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={handleRegenerateCodes} disabled={isWorking}>
+                {t("settings.security.regenerateCodes")}
+              </Button>
+              <Button variant="destructive" onClick={handleDisable} disabled={isWorking}>
+                {t("settings.security.disable")}
+              </Button>
+            </div>
+          </div>
+        ) : enrollment ? (
+          <div className="space-y-4">
+            <p className="text-sm">{t("settings.security.scanQrCode")}</p>
+            <img src={enrollment.qrCode} alt={t("settings.security.qrCodeAlt")} className="h-44 w-44 rounded-md border bg-white p-2" />
+            <p className="text-xs text-muted-foreground">
+              {t("settings.security.manualSecret")} <span className="font-mono break-all">{enrollment.secret}</span>
+            </p>
+            <TotpCodeInput value={code} onChange={setCode} onComplete={handleVerifyEnrollment} disabled={isWorking} />
+            <div className="flex gap-2">
+              <Button onClick={() => handleVerifyEnrollment(code)} disabled={isWorking || code.length !== 6}>
+                {t("settings.security.verify")}
+              </Button>
+              <Button variant="outline" onClick={() => setEnrollment(null)} disabled={isWorking}>
+                {t("common.cancel")}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button onClick={handleStartEnrollment} disabled={isWorking}>
+            {t("settings.security.enable")}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TwoFactorSettings;
@@ -0,0 +1,153 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { Bell } from "lucide-react";
+
+interface Notification {
+  id: string;
+  kind: string;
+  read_at: string | null;
+  created_at: string;
+  sessions: {
+    scheduled_start_at: string;
+    students: {
+      first_name: string;
+      last_name: string;
+    } | null;
+  } | null;
+}
+
+const NOTIFICATION_LIMIT = 20;
+
+/**
+ * Student replies to reminders (confirmations, reschedule requests and late
+ * cancellations). New ones arrive over realtime.
+ */
+const NotificationBell = () => {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+
+  const unreadCount = notifications.filter((notification) => !notification.read_at).length;
+
+  const loadNotifications = useCallback(async () => {
+    const { data } = await supabase
+      .from("notifications")
+      .select(`
+        id, kind, read_at, created_at,
+        sessions (
+          scheduled_start_at,
+          students (
+            first_name,
+            last_name
+          )
+        )
+      `)
+      .order("created_at", { ascending: false })
+      .limit(NOTIFICATION_LIMIT);
+    setNotifications(data || []);
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+
+    loadNotifications();
+
+    // RLS limits the feed to the user's own (or their teacher's) notifications
+    const channel = supabase
+      .channel(`notifications:${user.id}`)
+      .on("postgres_changes", { event: "INSERT", schema: "public", table: "notifications" }, () =>
+        loadNotifications()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, loadNotifications]);
+
+  const handleMarkAllRead = async () => {
+    const unreadIds = notifications
+      .filter((notification) => !notification.read_at)
+      .map((notification) => notification.id);
+    if (unreadIds.length === 0) return;
+
+    await supabase.from("notifications").update({ read_at: new Date().toISOString() }).in("id", unreadIds);
+    loadNotifications();
+  };
+
+  const handleOpen = async (notification: Notification) => {
+    if (!notification.read_at) {
+      await supabase.from("notifications").update({ read_at: new Date().toISOString() }).eq("id", notification.id);
+      loadNotifications();
+    }
+    setIsOpen(false);
+    navigate("/sessions");
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label={t("notifications.title")}>
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] leading-4 text-center">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <span className="font-medium text-sm">{t("notifications.title")}</span>
+          {unreadCount > 0 && (
+            <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={handleMarkAllRead}>
+              {t("notifications.markAllRead")}
+            </Button>
+          )}
+        </div>
+        <ScrollArea className="max-h-80">
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-muted-foreground">{t("notifications.empty")}</p>
+          ) : (
+            notifications.map((notification) => {
+              const student = notification.sessions?.students;
+              return (
+                <button
+                  key={notification.id}
+                  type="button"
+                  className={`w-full text-start px-4 py-3 border-b last:border-b-0 hover:bg-muted/50 ${
+                    notification.read_at ? "text-muted-foreground" : ""
+                  }`}
+                  onClick={() => handleOpen(notification)}
+                >
+                  <p className="text-sm">
+                    {t(`notifications.kind.${notification.kind}`, {
+                      student: student ? `${student.first_name} ${student.last_name}` : "",
+                      time: notification.sessions
+                        ? format(new Date(notification.sessions.scheduled_start_at), "MMM d, HH:mm")
+                        : "",
+                    })}
+                  </p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {format(new Date(notification.created_at), "MMM d, HH:mm")}
+                  </p>
+                </button>
+              );
+            })
+          )}
+        </ScrollArea>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,322 @@
+import { useCallback, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { getOrganizationMembers, inviteTeacher, OrganizationMember, OrgMemberRole } from "@/utils/organizations";
+import { Building2, Mail, Trash2, X } from "lucide-react";
+
+interface Organization {
+  id: string;
+  name: string;
+  require_mfa: boolean;
+}
+
+interface PendingInvite {
+  id: string;
+  email: string;
+  role: OrgMemberRole;
+  expires_at: string;
+}
+
+const OrganizationSettings = () => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [userId, setUserId] = useState<string | null>(null);
+  const [organization, setOrganization] = useState<Organization | null>(null);
+  const [myRole, setMyRole] = useState<OrgMemberRole | null>(null);
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [invites, setInvites] = useState<PendingInvite[]>([]);
+  const [newOrgName, setNewOrgName] = useState("");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<Exclude<OrgMemberRole, "OWNER">>("TEACHER");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isOrgAdmin = myRole === "OWNER" || myRole === "ADMIN";
+
+  const loadOrganization = useCallback(async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+    setUserId(user.id);
+
+    const { data: membership } = await supabase
+      .from("organization_members")
+      .select("role, organizations(id, name, require_mfa)")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (!membership?.organizations) {
+      setOrganization(null);
+      setMyRole(null);
+      return;
+    }
+
+    setOrganization(membership.organizations);
+    setMyRole(membership.role);
+    setMembers(await getOrganizationMembers());
+
+    if (membership.role === "OWNER" || membership.role === "ADMIN") {
+      const { data: pending } = await supabase
+        .from("organization_invites")
+        .select("id, email, role, expires_at")
+        .is("accepted_at", null)
+        .is("revoked_at", null)
+        .gt("expires_at", new Date().toISOString())
+        .order("created_at", { ascending: false });
+      setInvites(pending || []);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadOrganization();
+  }, [loadOrganization]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    const { error } = await supabase.rpc("create_organization", { p_name: newOrgName });
+    setIsSaving(false);
+
+    if (error) {
+      toast({ title: t("settings.organization.createError"), description: error.message, variant: "destructive" });
+      return;
+    }
+    setNewOrgName("");
+    toast({ title: t("settings.organization.created") });
+    loadOrganization();
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const { inviteUrl, emailError } = await inviteTeacher(inviteEmail.trim(), inviteRole);
+      if (emailError) {
+        // The invite exists; share the link some other way
+        await navigator.clipboard.writeText(inviteUrl).catch(() => undefined);
+        toast({
+          title: t("settings.organization.inviteEmailFailed"),
+          description: emailError,
+          variant: "destructive",
+        });
+      } else {
+        toast({ title: t("settings.organization.inviteSent", { email: inviteEmail.trim() }) });
+      }
+      setInviteEmail("");
+      loadOrganization();
+    } catch (error) {
+      toast({
+        title: t("settings.organization.inviteError"),
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRequireMfaChange = async (requireMfa: boolean) => {
+    if (!organization) return;
+
+    const { error } = await supabase
+      .from("organizations")
+      .update({ require_mfa: requireMfa })
+      .eq("id", organization.id);
+
+    if (error) {
+      toast({ title: t("settings.organization.requireMfaError"), description: error.message, variant: "destructive" });
+      return;
+    }
+    setOrganization({ ...organization, require_mfa: requireMfa });
+  };
+
+  const handleRevoke = async (inviteId: string) => {
+    const { error } = await supabase
+      .from("organization_invites")
+      .update({ revoked_at: new Date().toISOString() })
+      .eq("id", inviteId);
+
+    if (error) {
+      toast({ title: t("settings.organization.revokeError"), description: error.message, variant: "destructive" });
+      return;
+    }
+    loadOrganization();
+  };
+
+  const handleRemoveMember = async (member: OrganizationMember) => {
+    if (!confirm(t("settings.organization.removeConfirm", { name: member.full_name || member.email }))) return;
+
+    const { error } = await supabase
+      .from("organization_members")
+      .delete()
+      .eq("user_id", member.user_id);
+
+    if (error) {
+      toast({ title: t("settings.organization.removeError"), description: error.message, variant: "destructive" });
+      return;
+    }
+    loadOrganization();
+  };
+
+  if (!organization) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Building2 className="h-5 w-5" />
+            {t("settings.organization.title")}
+          </CardTitle>
+          <CardDescription>{t("settings.organization.createDescription")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="org_name">{t("settings.organization.name")}</Label>
+              <Input
+                id="org_name"
+                value={newOrgName}
+                onChange={(e) => setNewOrgName(e.target.value)}
+                required
+              />
+            </div>
+            <Button type="submit" disabled={isSaving}>
+              {t("settings.organization.create")}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Building2 className="h-5 w-5" />
+            {organization.name}
+          </CardTitle>
+          <CardDescription>{t("settings.organization.sharedDescription")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("settings.organization.member")}</TableHead>
+                  <TableHead>{t("settings.organization.role")}</TableHead>
+                  <TableHead>{t("settings.organization.joined")}</TableHead>
+                  {isOrgAdmin && <TableHead />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {members.map((member) => (
+                  <TableRow key={member.user_id}>
+                    <TableCell>
+                      <div className="font-medium">{member.full_name || member.email}</div>
+                      {member.full_name && <div className="text-xs text-muted-foreground">{member.email}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={member.role === "TEACHER" ? "secondary" : "default"}>
+                        {t(`settings.organization.roles.${member.role}`)}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{format(new Date(member.joined_at), "MMM d, yyyy")}</TableCell>
+                    {isOrgAdmin && (
+                      <TableCell className="text-right">
+                        {member.role !== "OWNER" && member.user_id !== userId && (
+                          <Button variant="ghost" size="sm" onClick={() => handleRemoveMember(member)}>
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          {isOrgAdmin && (
+            <div className="flex items-center justify-between gap-4 mt-4 pt-4 border-t">
+              <div className="space-y-1">
+                <Label htmlFor="require_mfa">{t("settings.organization.requireMfa")}</Label>
+                <p className="text-sm text-muted-foreground">{t("settings.organization.requireMfaDescription")}</p>
+              </div>
+              <Switch
+                id="require_mfa"
+                checked={organization.require_mfa}
+                onCheckedChange={handleRequireMfaChange}
+              />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {isOrgAdmin && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Mail className="h-5 w-5" />
+              {t("settings.organization.invite")}
+            </CardTitle>
+            <CardDescription>{t("settings.organization.inviteDescription")}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <form onSubmit={handleInvite} className="flex flex-col sm:flex-row gap-2">
+              <Input
+                type="email"
+                placeholder="teacher@example.com"
+                aria-label={t("settings.email")}
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                required
+              />
+              <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as "TEACHER" | "ADMIN")}>
+                <SelectTrigger className="sm:w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="TEACHER">{t("settings.organization.roles.TEACHER")}</SelectItem>
+                  <SelectItem value="ADMIN">{t("settings.organization.roles.ADMIN")}</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button type="submit" disabled={isSaving}>
+                {t("settings.organization.sendInvite")}
+              </Button>
+            </form>
+
+            {invites.length > 0 && (
+              <div className="space-y-2">
+                <Label>{t("settings.organization.pendingInvites")}</Label>
+                {invites.map((invite) => (
+                  <div key={invite.id} className="flex items-center justify-between rounded-md border p-2 text-sm">
+                    <div>
+                      <span className="font-medium">{invite.email}</span>
+                      <span className="text-muted-foreground ml-2">
+                        {t(`settings.organization.roles.${invite.role}`)} ·{" "}
+                        {t("settings.organization.expires", { date: format(new Date(invite.expires_at), "MMM d") })}
+                      </span>
+                    </div>
+                    <Button variant="ghost" size="sm" title={t("settings.organization.revoke")} onClick={() => handleRevoke(invite.id)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default OrganizationSettings;
@@ -0,0 +1,213 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  TEMPLATE_LANGUAGES,
+  TEMPLATE_PLACEHOLDERS,
+  formatBalance,
+  formatSessionTime,
+  renderTemplate,
+  type TemplateLanguage,
+  type TemplatePlaceholder,
+} from "@/utils/templates";
+import { MessageSquareText } from "lucide-react";
+
+type MessageTemplate = Database["public"]["Tables"]["message_templates"]["Row"];
+
+const LANGUAGE_NAMES: Record<TemplateLanguage, string> = {
+  en: "English",
+  ar: "العربية",
+  fr: "Français",
+};
+
+// Tomorrow at 17:00 in the browser's timezone, for the preview
+const sampleStart = () => {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  date.setHours(17, 0, 0, 0);
+  return date.toISOString();
+};
+
+const MessageTemplateSettings = () => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const [language, setLanguage] = useState<TemplateLanguage>("en");
+  const [subject, setSubject] = useState("");
+  const [body, setBody] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const ownTemplate = templates.find((template) => template.owner_id === user?.id && template.language === language);
+  const defaultTemplate = templates.find((template) => template.owner_id === null && template.language === language);
+
+  const fetchTemplates = useCallback(async () => {
+    const { data, error } = await supabase.from("message_templates").select("*").eq("kind", "REMINDER");
+    if (error) {
+      toast({ title: t("settings.templates.loadError"), description: error.message, variant: "destructive" });
+      return;
+    }
+    setTemplates(data || []);
+  }, [t, toast]);
+
+  useEffect(() => {
+    if (user) fetchTemplates();
+  }, [user, fetchTemplates]);
+
+  useEffect(() => {
+    const template = ownTemplate ?? defaultTemplate;
+    setSubject(template?.subject ?? "");
+    setBody(template?.body ?? "");
+  }, [ownTemplate, defaultTemplate]);
+
+  const insertPlaceholder = (name: TemplatePlaceholder) => {
+    const token = `{{${name}}}`;
+    const textarea = bodyRef.current;
+    const start = textarea?.selectionStart ?? body.length;
+    const end = textarea?.selectionEnd ?? body.length;
+    setBody(body.slice(0, start) + token + body.slice(end));
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+    if (!subject.trim() || !body.trim()) {
+      toast({ title: t("settings.templates.required"), variant: "destructive" });
+      return;
+    }
+
+    setIsSaving(true);
+    const { error } = await supabase
+      .from("message_templates")
+      .upsert(
+        { owner_id: user.id, kind: "REMINDER", language, subject: subject.trim(), body: body.trim() },
+        { onConflict: "owner_id,kind,language" }
+      );
+    setIsSaving(false);
+
+    if (error) {
+      toast({ title: t("settings.templates.errorSaving"), description: error.message, variant: "destructive" });
+      return;
+    }
+    toast({ title: t("settings.templates.saved") });
+    fetchTemplates();
+  };
+
+  const handleReset = async () => {
+    if (!ownTemplate) return;
+
+    setIsSaving(true);
+    const { error } = await supabase.from("message_templates").delete().eq("id", ownTemplate.id);
+    setIsSaving(false);
+
+    if (error) {
+      toast({ title: t("settings.templates.errorSaving"), description: error.message, variant: "destructive" });
+      return;
+    }
+    toast({ title: t("settings.templates.resetDone") });
+    fetchTemplates();
+  };
+
+  const sampleValues = {
+    student_name: t("settings.templates.sample.studentName"),
+    start_time: formatSessionTime(sampleStart(), language, Intl.DateTimeFormat().resolvedOptions().timeZone),
+    zoom_link: "https://zoom.us/j/1234567890",
+    balance: formatBalance(-40, language),
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquareText className="h-5 w-5" />
+          {t("settings.templates.title")}
+        </CardTitle>
+        <CardDescription>{t("settings.templates.description")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-2">
+          <Select value={language} onValueChange={(value) => setLanguage(value as TemplateLanguage)}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TEMPLATE_LANGUAGES.map((code) => (
+                <SelectItem key={code} value={code}>
+                  {LANGUAGE_NAMES[code]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Badge variant={ownTemplate ? "default" : "secondary"}>
+            {ownTemplate ? t("settings.templates.custom") : t("settings.templates.builtIn")}
+          </Badge>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="template-subject">{t("settings.templates.subject")}</Label>
+          <Input
+            id="template-subject"
+            dir="auto"
+            value={subject}
+            onChange={(e) => setSubject(e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="template-body">{t("settings.templates.body")}</Label>
+          <Textarea
+            id="template-body"
+            ref={bodyRef}
+            dir="auto"
+            rows={5}
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+          />
+          <div className="flex flex-wrap gap-2">
+            {TEMPLATE_PLACEHOLDERS.map((name) => (
+              <Button key={name} type="button" variant="outline" size="sm" onClick={() => insertPlaceholder(name)}>
+                {`{{${name}}}`}
+              </Button>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">{t("settings.templates.emptyLineHint")}</p>
+        </div>
+
+        <div className="space-y-2">
+          <Label>{t("settings.templates.preview")}</Label>
+          <div className="rounded-md border bg-muted/50 p-3 text-sm space-y-2" dir="auto">
+            <p className="font-medium">{renderTemplate(subject, sampleValues)}</p>
+            <p className="whitespace-pre-wrap">{renderTemplate(body, sampleValues)}</p>
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <Button onClick={handleSave} disabled={isSaving}>
+            {t("common.save")}
+          </Button>
+          {ownTemplate && (
+            <Button variant="outline" onClick={handleReset} disabled={isSaving}>
+              {t("settings.templates.reset")}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MessageTemplateSettings;
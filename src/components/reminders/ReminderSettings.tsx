@@ -0,0 +1,64 @@
+import { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import ReminderOffsetsInput from "@/components/sessions/ReminderOffsetsInput";
+import { Bell } from "lucide-react";
+
+const ReminderSettings = () => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [offsets, setOffsets] = useState<number[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    supabase
+      .from("profiles")
+      .select("reminder_offsets")
+      .eq("id", user.id)
+      .maybeSingle()
+      .then(({ data }) => setOffsets(data?.reminder_offsets ?? []));
+  }, [user]);
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    setIsSaving(true);
+    const { error } = await supabase
+      .from("profiles")
+      .update({ reminder_offsets: offsets })
+      .eq("id", user.id);
+    setIsSaving(false);
+
+    if (error) {
+      toast({ title: t("settings.reminders.errorSaving"), description: error.message, variant: "destructive" });
+      return;
+    }
+    toast({ title: t("settings.reminders.saved") });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bell className="h-5 w-5" />
+          {t("settings.reminders.title")}
+        </CardTitle>
+        <CardDescription>{t("settings.reminders.description")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ReminderOffsetsInput value={offsets} onChange={setOffsets} />
+        <Button onClick={handleSave} disabled={isSaving}>
+          {t("common.save")}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReminderSettings;
@@ -0,0 +1,86 @@
+import { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface CancelSessionDialogProps {
+  session: { id: string } | null;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (notifyStudent: boolean, applyChargePolicy: boolean) => Promise<void>;
+  /** Whether the user may charge the late-cancellation fee */
+  canCharge?: boolean;
+}
+
+const CancelSessionDialog = ({ session, onOpenChange, onConfirm, canCharge = true }: CancelSessionDialogProps) => {
+  const { t } = useTranslation();
+  const [notifyStudent, setNotifyStudent] = useState(false);
+  const [applyChargePolicy, setApplyChargePolicy] = useState(true);
+  const [isCanceling, setIsCanceling] = useState(false);
+
+  useEffect(() => {
+    if (!session) return;
+    setNotifyStudent(false);
+    setApplyChargePolicy(true);
+  }, [session]);
+
+  const handleConfirm = async () => {
+    setIsCanceling(true);
+    try {
+      await onConfirm(notifyStudent, canCharge && applyChargePolicy);
+    } finally {
+      setIsCanceling(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!session} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t("sessions.cancelSession.title")}</DialogTitle>
+          <DialogDescription>{t("sessions.cancelSession.description")}</DialogDescription>
+        </DialogHeader>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="cancel_notify"
+            checked={notifyStudent}
+            onCheckedChange={(checked) => setNotifyStudent(checked === true)}
+          />
+          <Label htmlFor="cancel_notify" className="font-normal">
+            {t("sessions.cancelSession.notifyStudent")}
+          </Label>
+        </div>
+        {canCharge && (
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="cancel_apply_policy"
+              checked={applyChargePolicy}
+              onCheckedChange={(checked) => setApplyChargePolicy(checked === true)}
+            />
+            <Label htmlFor="cancel_apply_policy" className="font-normal">
+              {t("sessions.cancelSession.applyChargePolicy")}
+            </Label>
+          </div>
+        )}
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t("sessions.cancelSession.keep")}
+          </Button>
+          <Button variant="destructive" disabled={isCanceling} onClick={handleConfirm}>
+            {t("sessions.cancelSession.confirm")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CancelSessionDialog;
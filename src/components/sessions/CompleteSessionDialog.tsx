@@ -0,0 +1,147 @@
+import { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+interface CompletableSession {
+  id: string;
+  scheduled_start_at: string;
+  scheduled_end_at: string;
+}
+
+interface CompleteSessionDialogProps {
+  session: CompletableSession | null;
+  onOpenChange: (open: boolean) => void;
+  onCompleted: () => void;
+}
+
+const toInputValue = (iso: string) => format(new Date(iso), "yyyy-MM-dd'T'HH:mm");
+
+const CompleteSessionDialog = ({ session, onOpenChange, onCompleted }: CompleteSessionDialogProps) => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = useState(false);
+  const [charge, setCharge] = useState<number | null>(null);
+  const [chargeError, setChargeError] = useState<string | null>(null);
+  const [formData, setFormData] = useState({
+    actual_start_at: "",
+    actual_end_at: "",
+  });
+
+  useEffect(() => {
+    if (!session) return;
+    setFormData({
+      actual_start_at: toInputValue(session.scheduled_start_at),
+      actual_end_at: toInputValue(session.scheduled_end_at),
+    });
+  }, [session]);
+
+  // Preview the charge with the same server-side calculation complete_session uses
+  useEffect(() => {
+    if (!session || !formData.actual_start_at || !formData.actual_end_at) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const { data, error } = await supabase.rpc("calculate_session_charge", {
+        p_session_id: session.id,
+        p_actual_start: new Date(formData.actual_start_at).toISOString(),
+        p_actual_end: new Date(formData.actual_end_at).toISOString(),
+      });
+      if (cancelled) return;
+      setCharge(error ? null : data);
+      setChargeError(error ? error.message : null);
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [session, formData.actual_start_at, formData.actual_end_at]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!session) return;
+
+    const start = new Date(formData.actual_start_at);
+    const end = new Date(formData.actual_end_at);
+    if (end < start) {
+      toast({
+        title: t("sessions.invalidTimeRange"),
+        description: t("sessions.endTimeAfterStart"),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    // Completion and the ledger charge happen atomically in complete_session
+    const { error } = await supabase.rpc("complete_session", {
+      p_session_id: session.id,
+      p_actual_start: start.toISOString(),
+      p_actual_end: end.toISOString(),
+    });
+    setIsSaving(false);
+
+    if (error) {
+      toast({
+        title: "Error completing session",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      toast({ title: "Session completed and charge added to ledger" });
+      onOpenChange(false);
+      onCompleted();
+    }
+  };
+
+  return (
+    <Dialog open={!!session} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t("sessions.complete.title")}</DialogTitle>
+          <DialogDescription>{t("sessions.complete.description")}</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="actual_start_at">{t("sessions.complete.actualStart")}</Label>
+            <Input
+              id="actual_start_at"
+              type="datetime-local"
+              value={formData.actual_start_at}
+              onChange={(e) => setFormData({ ...formData, actual_start_at: e.target.value })}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="actual_end_at">{t("sessions.complete.actualEnd")}</Label>
+            <Input
+              id="actual_end_at"
+              type="datetime-local"
+              value={formData.actual_end_at}
+              min={formData.actual_start_at}
+              onChange={(e) => setFormData({ ...formData, actual_end_at: e.target.value })}
+              required
+            />
+          </div>
+          <div className="flex items-center justify-between rounded-md border p-3 text-sm">
+            <span className="text-muted-foreground">{t("sessions.complete.charge")}</span>
+            <span className="font-semibold">
+              {chargeError ? chargeError : charge !== null ? `$${charge.toFixed(2)}` : "-"}
+            </span>
+          </div>
+          <Button type="submit" className="w-full" disabled={isSaving}>
+            {t("sessions.complete.confirm")}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CompleteSessionDialog;
@@ -0,0 +1,244 @@
+import { useCallback, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { useToast } from "@/hooks/use-toast";
+import { describeReminderError, REMINDER_CHANNELS } from "@/utils/sessions";
+import { X } from "lucide-react";
+
+interface ReminderSession {
+  id: string;
+  status: string;
+  scheduled_start_at: string;
+  reminder_channels?: string[];
+  students: {
+    first_name: string;
+    last_name: string;
+  };
+}
+
+interface ReminderHistorySheetProps {
+  session: ReminderSession | null;
+  onOpenChange: (open: boolean) => void;
+  /** Called after a reminder was cancelled or added */
+  onChanged: () => void;
+}
+
+type ReminderJob = Pick<
+  Tables<"reminder_jobs">,
+  | "id"
+  | "scheduled_for"
+  | "channel"
+  | "status"
+  | "attempt_count"
+  | "next_attempt_at"
+  | "last_error"
+  | "delivery_status"
+  | "delivery_updated_at"
+>;
+
+const statusVariants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  PENDING: "secondary",
+  PROCESSING: "secondary",
+  SENT: "default",
+  FAILED: "destructive",
+  DEAD: "destructive",
+  CANCELED: "outline",
+};
+
+const toInputValue = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+const ReminderHistorySheet = ({ session, onOpenChange, onChanged }: ReminderHistorySheetProps) => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [jobs, setJobs] = useState<ReminderJob[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [newReminder, setNewReminder] = useState({ scheduled_for: "", channel: "WHATSAPP" });
+
+  const loadJobs = useCallback(async () => {
+    if (!session) return;
+    setIsLoading(true);
+    const { data, error } = await supabase
+      .from("reminder_jobs")
+      .select(
+        "id, scheduled_for, channel, status, attempt_count, next_attempt_at, last_error, delivery_status, delivery_updated_at"
+      )
+      .eq("session_id", session.id)
+      .order("scheduled_for", { ascending: true });
+    setIsLoading(false);
+
+    if (error) {
+      toast({ title: t("sessions.reminders.loadError"), description: error.message, variant: "destructive" });
+      return;
+    }
+    setJobs(data || []);
+  }, [session, t, toast]);
+
+  useEffect(() => {
+    if (!session) return;
+    setNewReminder({
+      scheduled_for: toInputValue(new Date(new Date(session.scheduled_start_at).getTime() - 60 * 60 * 1000)),
+      channel: session.reminder_channels?.[0] || "WHATSAPP",
+    });
+    loadJobs();
+  }, [session, loadJobs]);
+
+  const handleCancel = async (jobId: string) => {
+    // Only PENDING jobs; one already claimed by the sender can't be stopped
+    const { error } = await supabase
+      .from("reminder_jobs")
+      .update({ status: "CANCELED" })
+      .eq("id", jobId)
+      .eq("status", "PENDING");
+
+    if (error) {
+      toast({ title: t("sessions.reminders.cancelError"), description: error.message, variant: "destructive" });
+      return;
+    }
+    loadJobs();
+    onChanged();
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!session) return;
+
+    const scheduledFor = new Date(newReminder.scheduled_for);
+    if (scheduledFor <= new Date() || scheduledFor >= new Date(session.scheduled_start_at)) {
+      toast({
+        title: t("sessions.reminders.addError"),
+        description: t("sessions.reminders.invalidTime"),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    const { error } = await supabase.from("reminder_jobs").insert({
+      session_id: session.id,
+      scheduled_for: scheduledFor.toISOString(),
+      channel: newReminder.channel,
+      status: "PENDING",
+    });
+    setIsSaving(false);
+
+    if (error) {
+      toast({ title: t("sessions.reminders.addError"), description: error.message, variant: "destructive" });
+      return;
+    }
+    toast({ title: t("sessions.reminders.added") });
+    loadJobs();
+    onChanged();
+  };
+
+  return (
+    <Sheet open={!!session} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>{t("sessions.reminders.historyTitle")}</SheetTitle>
+          {session && (
+            <SheetDescription>
+              {session.students.first_name} {session.students.last_name} ·{" "}
+              {format(new Date(session.scheduled_start_at), "MMM d, yyyy HH:mm")}
+            </SheetDescription>
+          )}
+        </SheetHeader>
+
+        <div className="space-y-3 mt-6">
+          {!isLoading && jobs.length === 0 && (
+            <p className="text-sm text-muted-foreground">{t("sessions.reminders.none")}</p>
+          )}
+          {jobs.map((job) => {
+            const error = describeReminderError(job.last_error);
+            return (
+              <div key={job.id} className="rounded-md border p-3 space-y-1 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{format(new Date(job.scheduled_for), "MMM d, HH:mm")}</span>
+                    <span className="text-muted-foreground">{t(`sessions.reminders.channel.${job.channel}`)}</span>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Badge variant={statusVariants[job.status] || "default"}>
+                      {t(`sessions.reminders.status.${job.status}`)}
+                    </Badge>
+                    {job.status === "PENDING" && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        title={t("sessions.reminders.cancel")}
+                        onClick={() => handleCancel(job.id)}
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                {job.attempt_count > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {t("sessions.reminders.attempts", { count: job.attempt_count })}
+                    {job.status === "PENDING" && job.next_attempt_at && (
+                      <> · {t("sessions.reminders.nextAttempt", { time: format(new Date(job.next_attempt_at), "HH:mm") })}</>
+                    )}
+                  </p>
+                )}
+                {job.status === "SENT" &&
+                  (job.delivery_status === "DELIVERED" || job.delivery_status === "READ") &&
+                  job.delivery_updated_at && (
+                    <p className="text-xs text-muted-foreground">
+                      {t(`sessions.reminders.delivery.${job.delivery_status}`)} ·{" "}
+                      {format(new Date(job.delivery_updated_at), "MMM d, HH:mm")}
+                    </p>
+                  )}
+                {error && <p className="text-xs text-destructive break-words">{error}</p>}
+              </div>
+            );
+          })}
+        </div>
+
+        {session?.status === "SCHEDULED" && (
+          <form onSubmit={handleAdd} className="space-y-3 mt-6 pt-6 border-t">
+            <Label>{t("sessions.reminders.add")}</Label>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Input
+                type="datetime-local"
+                aria-label={t("sessions.reminders.sendAt")}
+                value={newReminder.scheduled_for}
+                onChange={(e) => setNewReminder({ ...newReminder, scheduled_for: e.target.value })}
+                required
+              />
+              <Select
+                value={newReminder.channel}
+                onValueChange={(value) => setNewReminder({ ...newReminder, channel: value })}
+              >
+                <SelectTrigger className="sm:w-[140px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REMINDER_CHANNELS.map((channel) => (
+                    <SelectItem key={channel} value={channel}>
+                      {t(`sessions.reminders.channel.${channel}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="submit" disabled={isSaving}>
+              {t("sessions.reminders.add")}
+            </Button>
+          </form>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default ReminderHistorySheet;
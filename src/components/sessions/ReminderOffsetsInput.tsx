@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatReminderOffset, normalizeReminderOffsets } from "@/utils/sessions";
+import { Plus, X } from "lucide-react";
+
+interface ReminderOffsetsInputProps {
+  /** Minutes before the session start */
+  value: number[];
+  onChange: (offsets: number[]) => void;
+  disabled?: boolean;
+}
+
+const UNIT_MINUTES = { m: 1, h: 60, d: 1440 } as const;
+// Matches the offsets CHECK constraint
+const MAX_OFFSET_MINUTES = 30 * 1440;
+
+const ReminderOffsetsInput = ({ value, onChange, disabled }: ReminderOffsetsInputProps) => {
+  const { t } = useTranslation();
+  const [amount, setAmount] = useState("");
+  const [unit, setUnit] = useState<keyof typeof UNIT_MINUTES>("h");
+
+  const minutes = Math.round(Number(amount) * UNIT_MINUTES[unit]);
+  const isValid = amount !== "" && minutes > 0 && minutes <= MAX_OFFSET_MINUTES;
+
+  const handleAdd = () => {
+    if (!isValid) return;
+    onChange(normalizeReminderOffsets([...value, minutes]));
+    setAmount("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        {value.length === 0 && (
+          <span className="text-sm text-muted-foreground">{t("sessions.reminders.noReminders")}</span>
+        )}
+        {value.map((offset) => (
+          <Badge key={offset} variant="secondary" className="gap-1">
+            {t("sessions.reminders.before", { offset: formatReminderOffset(offset) })}
+            {!disabled && (
+              <button
+                type="button"
+                aria-label={t("sessions.reminders.remove")}
+                onClick={() => onChange(value.filter((existing) => existing !== offset))}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            )}
+          </Badge>
+        ))}
+      </div>
+      {!disabled && (
+        <div className="flex gap-2">
+          <Input
+            type="number"
+            min="1"
+            className="w-24"
+            aria-label={t("sessions.reminders.amount")}
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                handleAdd();
+              }
+            }}
+          />
+          <Select value={unit} onValueChange={(next) => setUnit(next as keyof typeof UNIT_MINUTES)}>
+            <SelectTrigger className="w-[120px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="m">{t("sessions.reminders.units.m")}</SelectItem>
+              <SelectItem value="h">{t("sessions.reminders.units.h")}</SelectItem>
+              <SelectItem value="d">{t("sessions.reminders.units.d")}</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button type="button" variant="outline" size="icon" onClick={handleAdd} disabled={!isValid}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReminderOffsetsInput;
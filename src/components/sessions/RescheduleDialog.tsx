@@ -0,0 +1,117 @@
+import { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+
+interface RescheduleSession {
+  id: string;
+  scheduled_start_at: string;
+  scheduled_end_at: string;
+  zoom_meeting_id?: string | null;
+}
+
+interface RescheduleDialogProps {
+  session: RescheduleSession | null;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (start: Date, end: Date, notifyStudent: boolean) => Promise<void>;
+}
+
+const toInputValue = (iso: string) => format(new Date(iso), "yyyy-MM-dd'T'HH:mm");
+
+const RescheduleDialog = ({ session, onOpenChange, onSubmit }: RescheduleDialogProps) => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    scheduled_start_at: "",
+    scheduled_end_at: "",
+    notify_student: false,
+  });
+
+  useEffect(() => {
+    if (!session) return;
+    setFormData({
+      scheduled_start_at: toInputValue(session.scheduled_start_at),
+      scheduled_end_at: toInputValue(session.scheduled_end_at),
+      notify_student: false,
+    });
+  }, [session]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const start = new Date(formData.scheduled_start_at);
+    const end = new Date(formData.scheduled_end_at);
+
+    if (end <= start) {
+      toast({
+        title: t("sessions.invalidTimeRange"),
+        description: t("sessions.endTimeAfterStart"),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSubmit(start, end, formData.notify_student);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!session} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t("sessions.reschedule.title")}</DialogTitle>
+          <DialogDescription>
+            {session?.zoom_meeting_id ? t("sessions.reschedule.zoomHint") : t("sessions.reschedule.hint")}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="reschedule_start">{t("sessions.startTime")}</Label>
+            <Input
+              id="reschedule_start"
+              type="datetime-local"
+              value={formData.scheduled_start_at}
+              onChange={(e) => setFormData({ ...formData, scheduled_start_at: e.target.value })}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="reschedule_end">{t("sessions.endTime")}</Label>
+            <Input
+              id="reschedule_end"
+              type="datetime-local"
+              value={formData.scheduled_end_at}
+              min={formData.scheduled_start_at}
+              onChange={(e) => setFormData({ ...formData, scheduled_end_at: e.target.value })}
+              required
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="reschedule_notify"
+              checked={formData.notify_student}
+              onCheckedChange={(checked) => setFormData({ ...formData, notify_student: checked === true })}
+            />
+            <Label htmlFor="reschedule_notify" className="font-normal">
+              {t("sessions.reschedule.notifyStudent")}
+            </Label>
+          </div>
+          <Button type="submit" className="w-full" disabled={isSaving}>
+            {t("sessions.reschedule.submit")}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RescheduleDialog;
@@ -0,0 +1,177 @@
+import { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { describeRRule } from "@/utils/recurrence";
+import { cancelSessions, updateSeriesFollowing } from "@/utils/sessions";
+
+interface SeriesSession {
+  id: string;
+  series_id?: string | null;
+  scheduled_start_at: string;
+  scheduled_end_at: string;
+  notes: string | null;
+  session_series?: {
+    rrule: string;
+  } | null;
+}
+
+interface SeriesEditDialogProps {
+  session: SeriesSession | null;
+  onOpenChange: (open: boolean) => void;
+  onUpdated: () => void;
+}
+
+const SeriesEditDialog = ({ session, onOpenChange, onUpdated }: SeriesEditDialogProps) => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    start_time: "",
+    duration_minutes: "",
+    notes: "",
+  });
+
+  useEffect(() => {
+    if (!session) return;
+    const start = new Date(session.scheduled_start_at);
+    const end = new Date(session.scheduled_end_at);
+    setFormData({
+      start_time: format(start, "HH:mm"),
+      duration_minutes: String(Math.round((end.getTime() - start.getTime()) / (1000 * 60))),
+      notes: session.notes || "",
+    });
+  }, [session]);
+
+  const handleUpdateFollowing = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!session) return;
+
+    const duration = parseInt(formData.duration_minutes, 10);
+    if (!formData.start_time || !duration || duration <= 0) {
+      toast({
+        title: t("sessions.invalidTimeRange"),
+        description: t("sessions.series.durationRequired"),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { zoomFailures, zoomError } = await updateSeriesFollowing(session.id, {
+        startTime: formData.start_time,
+        durationMinutes: duration,
+        notes: formData.notes || null,
+      });
+      toast({
+        title: t("sessions.series.seriesUpdated"),
+        description: zoomError
+          ? zoomFailures > 0
+            ? t("sessions.series.zoomNotUpdated", { count: zoomFailures, error: zoomError })
+            : zoomError
+          : undefined,
+        variant: zoomError ? "destructive" : "default",
+      });
+      onOpenChange(false);
+      onUpdated();
+    } catch (error) {
+      toast({
+        title: t("sessions.series.errorUpdating"),
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCancelSeries = async () => {
+    if (!session?.series_id) return;
+    if (!confirm(t("sessions.series.cancelSeriesConfirm"))) return;
+
+    setIsSaving(true);
+    try {
+      const { canceled, warnings } = await cancelSessions({ seriesId: session.series_id });
+      toast({
+        title: t("sessions.series.seriesCanceled", { count: canceled }),
+        description: warnings.join(" ") || undefined,
+        variant: warnings.length > 0 ? "destructive" : "default",
+      });
+      onOpenChange(false);
+      onUpdated();
+    } catch (error) {
+      toast({
+        title: t("sessions.errorCancel"),
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!session} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t("sessions.series.editSeries")}</DialogTitle>
+          {session?.session_series && (
+            <DialogDescription>{describeRRule(session.session_series.rrule)}</DialogDescription>
+          )}
+        </DialogHeader>
+        <form onSubmit={handleUpdateFollowing} className="space-y-4">
+          <p className="text-sm text-muted-foreground">{t("sessions.series.thisAndFollowingHint")}</p>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="series_start_time">{t("sessions.startTime")}</Label>
+              <Input
+                id="series_start_time"
+                type="time"
+                value={formData.start_time}
+                onChange={(e) => setFormData({ ...formData, start_time: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="series_duration">{t("sessions.series.durationMinutes")}</Label>
+              <Input
+                id="series_duration"
+                type="number"
+                min="1"
+                value={formData.duration_minutes}
+                onChange={(e) => setFormData({ ...formData, duration_minutes: e.target.value })}
+                required
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="series_notes">{t("sessions.notesOptional")}</Label>
+            <Input
+              id="series_notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+            />
+          </div>
+          <Button type="submit" className="w-full" disabled={isSaving}>
+            {t("sessions.series.updateThisAndFollowing")}
+          </Button>
+        </form>
+        <Separator />
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">{t("sessions.series.cancelSeriesHint")}</p>
+          <Button variant="destructive" className="w-full" disabled={isSaving} onClick={handleCancelSeries}>
+            {t("sessions.series.cancelSeries")}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SeriesEditDialog;
@@ -0,0 +1,350 @@
+import { useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import {
+  addDays,
+  addMinutes,
+  addMonths,
+  addWeeks,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  isToday,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { cn } from "@/lib/utils";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+
+export interface CalendarSession {
+  id: string;
+  status: string;
+  scheduled_start_at: string;
+  scheduled_end_at: string;
+  students: {
+    first_name: string;
+    last_name: string;
+  };
+}
+
+type CalendarView = "day" | "week" | "month";
+
+interface SessionCalendarProps {
+  sessions: CalendarSession[];
+  onSlotClick: (start: Date, end: Date) => void;
+  onEventDrop: (session: CalendarSession, start: Date, end: Date) => void;
+}
+
+const HOUR_HEIGHT = 48; // px per hour in the day/week time grid
+const SLOT_MINUTES = 30;
+const DEFAULT_DURATION_MINUTES = 60;
+const MAX_EVENTS_PER_DAY_CELL = 3;
+
+const statusClasses: Record<string, string> = {
+  SCHEDULED: "bg-primary text-primary-foreground border-primary",
+  COMPLETED: "bg-success text-success-foreground border-success",
+  CANCELED: "bg-muted text-muted-foreground border-muted-foreground/30 line-through",
+  NO_SHOW: "bg-warning text-warning-foreground border-warning",
+};
+
+const durationMinutes = (session: CalendarSession) =>
+  Math.round(
+    (new Date(session.scheduled_end_at).getTime() - new Date(session.scheduled_start_at).getTime()) / (1000 * 60)
+  );
+
+// Wall-clock time on a given day, unaffected by DST transitions
+const atMinutes = (day: Date, minutes: number) => {
+  const d = new Date(day);
+  d.setHours(0, minutes, 0, 0);
+  return d;
+};
+
+/**
+ * Assigns overlapping events of one day to side-by-side lanes
+ */
+function layoutDay(events: CalendarSession[]) {
+  const sorted = [...events].sort(
+    (a, b) => new Date(a.scheduled_start_at).getTime() - new Date(b.scheduled_start_at).getTime()
+  );
+  const laneEnds: number[] = [];
+  const placed = sorted.map((event) => {
+    const start = new Date(event.scheduled_start_at).getTime();
+    let lane = laneEnds.findIndex((end) => end <= start);
+    if (lane === -1) {
+      lane = laneEnds.length;
+      laneEnds.push(0);
+    }
+    laneEnds[lane] = new Date(event.scheduled_end_at).getTime();
+    return { event, lane };
+  });
+  return placed.map((p) => ({ ...p, lanes: laneEnds.length }));
+}
+
+const SessionCalendar = ({ sessions, onSlotClick, onEventDrop }: SessionCalendarProps) => {
+  const { t } = useTranslation();
+  const [view, setView] = useState<CalendarView>("week");
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [dragOver, setDragOver] = useState<string | null>(null);
+  const [dragging, setDragging] = useState(false);
+
+  const days = useMemo(() => {
+    if (view === "day") return [startOfDay(anchor)];
+    if (view === "week") {
+      const first = startOfWeek(anchor);
+      return Array.from({ length: 7 }, (_, i) => addDays(first, i));
+    }
+    const first = startOfWeek(startOfMonth(anchor));
+    const last = endOfWeek(endOfMonth(anchor));
+    const result: Date[] = [];
+    for (let d = first; d <= last; d = addDays(d, 1)) result.push(d);
+    return result;
+  }, [view, anchor]);
+
+  const eventsByDay = useMemo(() => {
+    const map = new Map<string, CalendarSession[]>();
+    for (const session of sessions) {
+      const key = format(new Date(session.scheduled_start_at), "yyyy-MM-dd");
+      map.set(key, [...(map.get(key) || []), session]);
+    }
+    return map;
+  }, [sessions]);
+
+  const step = (direction: 1 | -1) => {
+    if (view === "day") setAnchor(addDays(anchor, direction));
+    else if (view === "week") setAnchor(addWeeks(anchor, direction));
+    else setAnchor(addMonths(anchor, direction));
+  };
+
+  const title = view === "month"
+    ? format(anchor, "MMMM yyyy")
+    : view === "week"
+      ? `${format(days[0], "MMM d")} – ${format(days[days.length - 1], "MMM d, yyyy")}`
+      : format(anchor, "EEEE, MMM d, yyyy");
+
+  const dropSession = (e: React.DragEvent, start: Date) => {
+    e.preventDefault();
+    setDragOver(null);
+    setDragging(false);
+    const session = sessions.find((s) => s.id === e.dataTransfer.getData("text/plain"));
+    if (!session) return;
+    if (start.getTime() === new Date(session.scheduled_start_at).getTime()) return;
+    onEventDrop(session, start, addMinutes(start, durationMinutes(session)));
+  };
+
+  const renderEvent = (session: CalendarSession, className?: string, style?: React.CSSProperties) => {
+    const draggable = session.status === "SCHEDULED";
+    return (
+      <div
+        key={session.id}
+        draggable={draggable}
+        onDragStart={(e) => {
+          e.dataTransfer.setData("text/plain", session.id);
+          e.dataTransfer.effectAllowed = "move";
+          // Let drops through to the slots under existing events; deferred
+          // because changing the dragged element in dragstart cancels the drag
+          setTimeout(() => setDragging(true));
+        }}
+        onDragEnd={() => setDragging(false)}
+        onClick={(e) => e.stopPropagation()}
+        className={cn(
+          "rounded border px-1 text-xs overflow-hidden",
+          statusClasses[session.status] || statusClasses.SCHEDULED,
+          draggable ? "cursor-grab active:cursor-grabbing" : "cursor-default opacity-80",
+          dragging && "pointer-events-none",
+          className
+        )}
+        style={style}
+        title={`${session.students.first_name} ${session.students.last_name} · ${format(new Date(session.scheduled_start_at), "HH:mm")}–${format(new Date(session.scheduled_end_at), "HH:mm")}`}
+      >
+        <span className="font-medium">{format(new Date(session.scheduled_start_at), "HH:mm")}</span>{" "}
+        {session.students.first_name} {session.students.last_name}
+      </div>
+    );
+  };
+
+  const renderTimeGrid = () => {
+    const hours = Array.from({ length: 24 }, (_, h) => h);
+    const slotsPerHour = 60 / SLOT_MINUTES;
+
+    return (
+      <div className="overflow-auto max-h-[640px] border rounded-md">
+        <div className="grid min-w-[640px]" style={{ gridTemplateColumns: `56px repeat(${days.length}, minmax(0, 1fr))` }}>
+          <div className="sticky top-0 z-20 bg-background border-b" />
+          {days.map((day) => (
+            <div
+              key={day.toISOString()}
+              className={cn(
+                "sticky top-0 z-20 bg-background border-b border-l px-2 py-1 text-center text-sm",
+                isToday(day) && "text-primary font-semibold"
+              )}
+            >
+              {format(day, view === "day" ? "EEEE d" : "EEE d")}
+            </div>
+          ))}
+
+          <div>
+            {hours.map((hour) => (
+              <div key={hour} className="text-xs text-muted-foreground text-right pr-2" style={{ height: HOUR_HEIGHT }}>
+                {format(atMinutes(anchor, hour * 60), "HH:mm")}
+              </div>
+            ))}
+          </div>
+
+          {days.map((day) => {
+            const dayKey = format(day, "yyyy-MM-dd");
+            const placed = layoutDay(eventsByDay.get(dayKey) || []);
+            return (
+              <div key={dayKey} className="relative border-l">
+                {hours.flatMap((hour) =>
+                  Array.from({ length: slotsPerHour }, (_, i) => {
+                    const slotStart = atMinutes(day, hour * 60 + i * SLOT_MINUTES);
+                    const slotKey = slotStart.toISOString();
+                    return (
+                      <div
+                        key={slotKey}
+                        className={cn(
+                          "border-b border-dashed border-border/50 hover:bg-accent/50 cursor-pointer",
+                          dragOver === slotKey && "bg-accent"
+                        )}
+                        style={{ height: HOUR_HEIGHT / slotsPerHour }}
+                        onClick={() => onSlotClick(slotStart, addMinutes(slotStart, DEFAULT_DURATION_MINUTES))}
+                        onDragOver={(e) => {
+                          e.preventDefault();
+                          setDragOver(slotKey);
+                        }}
+                        onDragLeave={() => setDragOver(null)}
+                        onDrop={(e) => dropSession(e, slotStart)}
+                      />
+                    );
+                  })
+                )}
+                {placed.map(({ event, lane, lanes }) => {
+                  const start = new Date(event.scheduled_start_at);
+                  const minutesFromMidnight = start.getHours() * 60 + start.getMinutes();
+                  const top = (minutesFromMidnight / 60) * HOUR_HEIGHT;
+                  const height = Math.max((durationMinutes(event) / 60) * HOUR_HEIGHT, 18);
+                  return renderEvent(event, "absolute z-10", {
+                    top,
+                    height,
+                    left: `calc(${(lane / lanes) * 100}% + 2px)`,
+                    width: `calc(${100 / lanes}% - 4px)`,
+                  });
+                })}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  };
+
+  const renderMonth = () => (
+    <div className="border rounded-md overflow-hidden">
+      <div className="grid grid-cols-7 border-b">
+        {days.slice(0, 7).map((day) => (
+          <div key={day.toISOString()} className="px-2 py-1 text-center text-sm text-muted-foreground">
+            {format(day, "EEE")}
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-7">
+        {days.map((day) => {
+          const dayKey = format(day, "yyyy-MM-dd");
+          const events = (eventsByDay.get(dayKey) || []).sort(
+            (a, b) => new Date(a.scheduled_start_at).getTime() - new Date(b.scheduled_start_at).getTime()
+          );
+          return (
+            <div
+              key={dayKey}
+              className={cn(
+                "min-h-[96px] border-b border-l p-1 space-y-1 cursor-pointer hover:bg-accent/50",
+                !isSameMonth(day, anchor) && "bg-muted/40 text-muted-foreground",
+                dragOver === dayKey && "bg-accent"
+              )}
+              onClick={() => {
+                const start = atMinutes(day, 9 * 60);
+                onSlotClick(start, addMinutes(start, DEFAULT_DURATION_MINUTES));
+              }}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDragOver(dayKey);
+              }}
+              onDragLeave={() => setDragOver(null)}
+              onDrop={(e) => {
+                // Keep the time of day, move to the dropped date
+                const session = sessions.find((s) => s.id === e.dataTransfer.getData("text/plain"));
+                if (!session) return;
+                const original = new Date(session.scheduled_start_at);
+                dropSession(e, atMinutes(day, original.getHours() * 60 + original.getMinutes()));
+              }}
+            >
+              <div className={cn("text-xs text-right", isToday(day) && "text-primary font-semibold")}>
+                {format(day, "d")}
+              </div>
+              {events.slice(0, MAX_EVENTS_PER_DAY_CELL).map((event) => renderEvent(event, "truncate"))}
+              {events.length > MAX_EVENTS_PER_DAY_CELL && (
+                <button
+                  type="button"
+                  className="text-xs text-muted-foreground hover:underline"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setAnchor(day);
+                    setView("day");
+                  }}
+                >
+                  {t("sessions.calendar.more", { count: events.length - MAX_EVENTS_PER_DAY_CELL })}
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => step(-1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setAnchor(new Date())}>
+            {t("sessions.calendar.today")}
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => step(1)}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <span className="font-medium ml-2">{title}</span>
+        </div>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={view}
+          onValueChange={(value) => value && setView(value as CalendarView)}
+        >
+          <ToggleGroupItem value="day">{t("sessions.calendar.day")}</ToggleGroupItem>
+          <ToggleGroupItem value="week">{t("sessions.calendar.week")}</ToggleGroupItem>
+          <ToggleGroupItem value="month">{t("sessions.calendar.month")}</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      {view === "month" ? renderMonth() : renderTimeGrid()}
+
+      <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+        {Object.entries(statusClasses).map(([status, className]) => (
+          <span key={status} className="flex items-center gap-1">
+            <span className={cn("inline-block h-3 w-3 rounded border", className)} />
+            {t(`sessions.status.${status === "NO_SHOW" ? "noShow" : status.toLowerCase()}`)}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SessionCalendar;
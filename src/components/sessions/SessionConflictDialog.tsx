@@ -0,0 +1,89 @@
+import { useTranslation } from "react-i18next";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { SessionConflict, SessionSlot } from "@/utils/sessions";
+import { AlertTriangle } from "lucide-react";
+
+export interface ConflictPrompt {
+  conflicts: SessionConflict[];
+  /** Suggested replacement for a single session; null for series or when none was found */
+  nextFreeSlot: SessionSlot | null;
+  /** Series occurrence dates (yyyy-MM-dd) that would overlap existing sessions */
+  conflictingDates: string[];
+}
+
+interface SessionConflictDialogProps {
+  prompt: ConflictPrompt | null;
+  onOpenChange: (open: boolean) => void;
+  onUseNextFreeSlot: (slot: SessionSlot) => void;
+  onSkipConflictingDates: (dates: string[]) => void;
+}
+
+const formatRange = (start: Date, end: Date) =>
+  `${format(start, "EEE, MMM d yyyy HH:mm")} - ${format(end, "HH:mm")}`;
+
+const SessionConflictDialog = ({
+  prompt,
+  onOpenChange,
+  onUseNextFreeSlot,
+  onSkipConflictingDates,
+}: SessionConflictDialogProps) => {
+  const { t } = useTranslation();
+  const nextFreeSlot = prompt?.nextFreeSlot ?? null;
+
+  return (
+    <Dialog open={!!prompt} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-warning" />
+            {t("sessions.conflicts.title")}
+          </DialogTitle>
+          <DialogDescription>{t("sessions.conflicts.description")}</DialogDescription>
+        </DialogHeader>
+        <ul className="max-h-60 space-y-2 overflow-y-auto">
+          {prompt?.conflicts.map((conflict) => (
+            <li key={`${conflict.slotIndex}-${conflict.sessionId}`} className="rounded-md border p-2 text-sm">
+              <div className="font-medium">{conflict.studentName}</div>
+              <div className="text-muted-foreground">
+                {formatRange(new Date(conflict.scheduledStartAt), new Date(conflict.scheduledEndAt))}
+              </div>
+            </li>
+          ))}
+        </ul>
+        {nextFreeSlot && (
+          <p className="text-sm">
+            {t("sessions.conflicts.nextFreeSlot", {
+              slot: formatRange(nextFreeSlot.start, nextFreeSlot.end),
+            })}
+          </p>
+        )}
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t("common.cancel")}
+          </Button>
+          {nextFreeSlot && (
+            <Button onClick={() => onUseNextFreeSlot(nextFreeSlot)}>
+              {t("sessions.conflicts.useNextFreeSlot")}
+            </Button>
+          )}
+          {prompt && prompt.conflictingDates.length > 0 && (
+            <Button onClick={() => onSkipConflictingDates(prompt.conflictingDates)}>
+              {t("sessions.conflicts.skipConflictingDates", { count: prompt.conflictingDates.length })}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SessionConflictDialog;
@@ -0,0 +1,33 @@
+import * as React from "react";
+import type { Session, User } from "@supabase/supabase-js";
+import type { Database } from "@/integrations/supabase/types";
+
+export type AuthProfile = Pick<
+  Database["public"]["Tables"]["profiles"]["Row"],
+  "id" | "full_name" | "email" | "language" | "approval_status" | "approval_reason"
+>;
+
+export interface AuthContextValue {
+  session: Session | null;
+  user: User | null;
+  /** The signed-in user's profile row, kept live through a realtime subscription */
+  profile: AuthProfile | null;
+  /** True until both the session and (when signed in) the profile are known */
+  isLoading: boolean;
+  isApproved: boolean;
+  /** Signed in with a password but the TOTP challenge is still outstanding */
+  needsMfaChallenge: boolean;
+  /** The user's organization requires MFA and they have not enrolled yet */
+  needsMfaEnrollment: boolean;
+  refreshProfile: () => Promise<void>;
+}
+
+export const AuthContext = React.createContext<AuthContextValue | undefined>(undefined);
+
+export function useAuth() {
+  const context = React.useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
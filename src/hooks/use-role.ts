@@ -0,0 +1,73 @@
+import * as React from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type AppRole = Database["public"]["Enums"]["app_role"];
+
+export type Permission =
+  | "manageUsers"
+  | "manageStudents"
+  | "deleteStudents"
+  | "editRates"
+  | "scheduleSessions"
+  | "chargeSessions"
+  | "recordPayments"
+  | "editLedger"
+  | "manageBillingSettings"
+  | "manageReminders";
+
+// UI mirror of the RLS policies; the database remains the source of truth
+export const ROLE_PERMISSIONS: Record<AppRole, Permission[]> = {
+  admin: [
+    "manageUsers",
+    "manageStudents",
+    "deleteStudents",
+    "editRates",
+    "scheduleSessions",
+    "chargeSessions",
+    "recordPayments",
+    "editLedger",
+    "manageBillingSettings",
+    "manageReminders",
+  ],
+  teacher: [
+    "manageStudents",
+    "deleteStudents",
+    "editRates",
+    "scheduleSessions",
+    "chargeSessions",
+    "recordPayments",
+    "editLedger",
+    "manageBillingSettings",
+    "manageReminders",
+  ],
+  assistant: ["scheduleSessions", "recordPayments"],
+};
+
+export function useRole() {
+  const [role, setRole] = React.useState<AppRole | null>(null);
+
+  React.useEffect(() => {
+    let isMounted = true;
+
+    const loadRole = async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data } = await supabase.rpc("get_user_role", { p_user_id: user.id });
+      if (isMounted) setRole(data ?? "teacher");
+    };
+
+    loadRole();
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  const can = React.useCallback(
+    (permission: Permission) => (role ? ROLE_PERMISSIONS[role].includes(permission) : false),
+    [role]
+  );
+
+  return { role, isLoading: role === null, can };
+}
@@ -22,6 +22,7 @@ export type Database = {
           id: string
           image_url: string | null
           reference: string | null
+          session_id: string | null
           student_id: string
           type: Database["public"]["Enums"]["ledger_entry_type"]
         }
@@ -32,6 +33,7 @@ export type Database = {
           id?: string
           image_url?: string | null
           reference?: string | null
+          session_id?: string | null
           student_id: string
           type: Database["public"]["Enums"]["ledger_entry_type"]
         }
@@ -42,10 +44,18 @@ export type Database = {
           id?: string
           image_url?: string | null
           reference?: string | null
+          session_id?: string | null
           student_id?: string
           type?: Database["public"]["Enums"]["ledger_entry_type"]
         }
         Relationships: [
+          {
+            foreignKeyName: "ledger_entries_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "ledger_entries_student_id_fkey"
             columns: ["student_id"]
@@ -55,59 +65,356 @@ export type Database = {
           },
         ]
       }
+      message_templates: {
+        Row: {
+          body: string
+          created_at: string
+          id: string
+          kind: string
+          language: string
+          owner_id: string | null
+          subject: string
+          updated_at: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          id?: string
+          kind?: string
+          language: string
+          owner_id?: string | null
+          subject: string
+          updated_at?: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: string
+          kind?: string
+          language?: string
+          owner_id?: string | null
+          subject?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      mfa_recovery_attempts: {
+        Row: {
+          attempted_at: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          attempted_at?: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          attempted_at?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      mfa_recovery_codes: {
+        Row: {
+          code_hash: string
+          created_at: string
+          id: string
+          used_at: string | null
+          user_id: string
+        }
+        Insert: {
+          code_hash: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id: string
+        }
+        Update: {
+          code_hash?: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          created_at: string
+          id: string
+          kind: string
+          owner_id: string
+          read_at: string | null
+          session_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          kind: string
+          owner_id: string
+          read_at?: string | null
+          session_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          kind?: string
+          owner_id?: string
+          read_at?: string | null
+          session_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_invites: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string | null
+          organization_id: string
+          revoked_at: string | null
+          role: Database["public"]["Enums"]["org_member_role"]
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          organization_id: string
+          revoked_at?: string | null
+          role?: Database["public"]["Enums"]["org_member_role"]
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          organization_id?: string
+          revoked_at?: string | null
+          role?: Database["public"]["Enums"]["org_member_role"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_invites_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_members: {
+        Row: {
+          created_at: string
+          id: string
+          organization_id: string
+          role: Database["public"]["Enums"]["org_member_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          organization_id: string
+          role?: Database["public"]["Enums"]["org_member_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          organization_id?: string
+          role?: Database["public"]["Enums"]["org_member_role"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          require_mfa: boolean
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          require_mfa?: boolean
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          require_mfa?: boolean
+          updated_at?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
+          approval_changed_at: string | null
+          approval_changed_by: string | null
+          approval_reason: string | null
+          approval_status: Database["public"]["Enums"]["approval_status"]
+          billing_rule: Database["public"]["Enums"]["billing_rule"]
           created_at: string
           email: string | null
           full_name: string | null
           id: string
           is_approved: boolean
+          language: string
+          late_cancel_charge_percent: number
+          late_cancel_window_hours: number
+          no_show_charge_percent: number
+          reminder_offsets: number[]
           updated_at: string
+          whatsapp_phone_number_id: string | null
+          whatsapp_template_language: string | null
+          whatsapp_template_name: string | null
+          whatsapp_template_params: string[]
+          whatsapp_template_quick_replies: boolean
+          whatsapp_token: string | null
+          zoom_account_id: string | null
+          zoom_api_key: string | null
+          zoom_api_secret: string | null
         }
         Insert: {
+          approval_changed_at?: string | null
+          approval_changed_by?: string | null
+          approval_reason?: string | null
+          approval_status?: Database["public"]["Enums"]["approval_status"]
+          billing_rule?: Database["public"]["Enums"]["billing_rule"]
           created_at?: string
           email?: string | null
           full_name?: string | null
           id: string
           is_approved?: boolean
+          language?: string
+          late_cancel_charge_percent?: number
+          late_cancel_window_hours?: number
+          no_show_charge_percent?: number
+          reminder_offsets?: number[]
           updated_at?: string
+          whatsapp_phone_number_id?: string | null
+          whatsapp_template_language?: string | null
+          whatsapp_template_name?: string | null
+          whatsapp_template_params?: string[]
+          whatsapp_template_quick_replies?: boolean
+          whatsapp_token?: string | null
+          zoom_account_id?: string | null
+          zoom_api_key?: string | null
+          zoom_api_secret?: string | null
         }
         Update: {
+          approval_changed_at?: string | null
+          approval_changed_by?: string | null
+          approval_reason?: string | null
+          approval_status?: Database["public"]["Enums"]["approval_status"]
+          billing_rule?: Database["public"]["Enums"]["billing_rule"]
           created_at?: string
           email?: string | null
           full_name?: string | null
           id?: string
           is_approved?: boolean
+          language?: string
+          late_cancel_charge_percent?: number
+          late_cancel_window_hours?: number
+          no_show_charge_percent?: number
+          reminder_offsets?: number[]
           updated_at?: string
+          whatsapp_phone_number_id?: string | null
+          whatsapp_template_language?: string | null
+          whatsapp_template_name?: string | null
+          whatsapp_template_params?: string[]
+          whatsapp_template_quick_replies?: boolean
+          whatsapp_token?: string | null
+          zoom_account_id?: string | null
+          zoom_api_key?: string | null
+          zoom_api_secret?: string | null
         }
         Relationships: []
       }
       reminder_jobs: {
         Row: {
+          attempt_count: number
           channel: string
           created_at: string
+          delivery_status: string | null
+          delivery_updated_at: string | null
+          error_history: Json
           id: string
+          idempotency_key: string
           last_error: string | null
+          locked_until: string | null
+          next_attempt_at: string | null
+          provider_message_id: string | null
           scheduled_for: string
           session_id: string
           status: Database["public"]["Enums"]["reminder_status"]
           updated_at: string
         }
         Insert: {
+          attempt_count?: number
           channel?: string
           created_at?: string
+          delivery_status?: string | null
+          delivery_updated_at?: string | null
+          error_history?: Json
           id?: string
+          idempotency_key?: string
           last_error?: string | null
+          locked_until?: string | null
+          next_attempt_at?: string | null
+          provider_message_id?: string | null
           scheduled_for: string
           session_id: string
           status?: Database["public"]["Enums"]["reminder_status"]
           updated_at?: string
         }
         Update: {
+          attempt_count?: number
           channel?: string
           created_at?: string
+          delivery_status?: string | null
+          delivery_updated_at?: string | null
+          error_history?: Json
           id?: string
+          idempotency_key?: string
           last_error?: string | null
+          locked_until?: string | null
+          next_attempt_at?: string | null
+          provider_message_id?: string | null
           scheduled_for?: string
           session_id?: string
           status?: Database["public"]["Enums"]["reminder_status"]
@@ -123,19 +430,91 @@ export type Database = {
           },
         ]
       }
+      session_series: {
+        Row: {
+          canceled_at: string | null
+          created_at: string
+          created_by: string | null
+          dtstart: string
+          duration_minutes: number
+          exdates: string[]
+          id: string
+          notes: string | null
+          occurrence_count: number | null
+          rrule: string
+          student_id: string
+          timezone: string
+          until_date: string | null
+          updated_at: string
+          whatsapp_reminder_options: string | null
+        }
+        Insert: {
+          canceled_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          dtstart: string
+          duration_minutes: number
+          exdates?: string[]
+          id?: string
+          notes?: string | null
+          occurrence_count?: number | null
+          rrule: string
+          student_id: string
+          timezone?: string
+          until_date?: string | null
+          updated_at?: string
+          whatsapp_reminder_options?: string | null
+        }
+        Update: {
+          canceled_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          dtstart?: string
+          duration_minutes?: number
+          exdates?: string[]
+          id?: string
+          notes?: string | null
+          occurrence_count?: number | null
+          rrule?: string
+          student_id?: string
+          timezone?: string
+          until_date?: string | null
+          updated_at?: string
+          whatsapp_reminder_options?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_series_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sessions: {
         Row: {
           actual_end_at: string | null
           actual_start_at: string | null
+          canceled_at: string | null
+          confirmation_status: string | null
+          confirmation_updated_at: string | null
           created_at: string
+          created_by: string | null
           id: string
           notes: string | null
+          reminder_channels: string[]
+          reminder_offsets: number[] | null
           scheduled_end_at: string
           scheduled_start_at: string
+          series_id: string | null
           status: Database["public"]["Enums"]["session_status"]
           student_id: string
           updated_at: string
           whatsapp_invite_message_id: string | null
+          whatsapp_last_error: string | null
+          whatsapp_notification_status: Database["public"]["Enums"]["whatsapp_reminder_status"] | null
+          whatsapp_reminder_options: string | null
           zoom_join_url: string | null
           zoom_meeting_id: string | null
           zoom_start_url: string | null
@@ -143,15 +522,25 @@ export type Database = {
         Insert: {
           actual_end_at?: string | null
           actual_start_at?: string | null
+          canceled_at?: string | null
+          confirmation_status?: string | null
+          confirmation_updated_at?: string | null
           created_at?: string
+          created_by?: string | null
           id?: string
           notes?: string | null
+          reminder_channels?: string[]
+          reminder_offsets?: number[] | null
           scheduled_end_at: string
           scheduled_start_at: string
+          series_id?: string | null
           status?: Database["public"]["Enums"]["session_status"]
           student_id: string
           updated_at?: string
           whatsapp_invite_message_id?: string | null
+          whatsapp_last_error?: string | null
+          whatsapp_notification_status?: Database["public"]["Enums"]["whatsapp_reminder_status"] | null
+          whatsapp_reminder_options?: string | null
           zoom_join_url?: string | null
           zoom_meeting_id?: string | null
           zoom_start_url?: string | null
@@ -159,20 +548,37 @@ export type Database = {
         Update: {
           actual_end_at?: string | null
           actual_start_at?: string | null
+          canceled_at?: string | null
+          confirmation_status?: string | null
+          confirmation_updated_at?: string | null
           created_at?: string
+          created_by?: string | null
           id?: string
           notes?: string | null
+          reminder_channels?: string[]
+          reminder_offsets?: number[] | null
           scheduled_end_at?: string
           scheduled_start_at?: string
+          series_id?: string | null
           status?: Database["public"]["Enums"]["session_status"]
           student_id?: string
           updated_at?: string
           whatsapp_invite_message_id?: string | null
+          whatsapp_last_error?: string | null
+          whatsapp_notification_status?: Database["public"]["Enums"]["whatsapp_reminder_status"] | null
+          whatsapp_reminder_options?: string | null
           zoom_join_url?: string | null
           zoom_meeting_id?: string | null
           zoom_start_url?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "sessions_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "session_series"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "sessions_student_id_fkey"
             columns: ["student_id"]
@@ -190,10 +596,19 @@ export type Database = {
           first_name: string
           id: string
           is_active: boolean
+          language: string
           last_name: string
+          late_cancel_charge_percent: number | null
+          late_cancel_window_hours: number | null
+          no_show_charge_percent: number | null
+          owner_id: string | null
           phone_e164: string | null
+          preferred_channel: string
           price_per_hour: number
+          reminder_offsets: number[] | null
+          timezone: string
           updated_at: string
+          whatsapp_last_inbound_at: string | null
         }
         Insert: {
           country?: string | null
@@ -202,10 +617,19 @@ export type Database = {
           first_name: string
           id?: string
           is_active?: boolean
+          language?: string
           last_name: string
+          late_cancel_charge_percent?: number | null
+          late_cancel_window_hours?: number | null
+          no_show_charge_percent?: number | null
+          owner_id?: string | null
           phone_e164?: string | null
+          preferred_channel?: string
           price_per_hour?: number
+          reminder_offsets?: number[] | null
+          timezone?: string
           updated_at?: string
+          whatsapp_last_inbound_at?: string | null
         }
         Update: {
           country?: string | null
@@ -214,10 +638,43 @@ export type Database = {
           first_name?: string
           id?: string
           is_active?: boolean
+          language?: string
           last_name?: string
+          late_cancel_charge_percent?: number | null
+          late_cancel_window_hours?: number | null
+          no_show_charge_percent?: number | null
+          owner_id?: string | null
           phone_e164?: string | null
+          preferred_channel?: string
           price_per_hour?: number
+          reminder_offsets?: number[] | null
+          timezone?: string
           updated_at?: string
+          whatsapp_last_inbound_at?: string | null
+        }
+        Relationships: []
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          owner_id: string | null
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          owner_id?: string | null
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          owner_id?: string | null
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
         }
         Relationships: []
       }
@@ -226,15 +683,222 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      apply_session_charge_policy: {
+        Args: { p_session_id: string }
+        Returns: string
+      }
+      apply_whatsapp_delivery_status: {
+        Args: { p_error?: string; p_message_id: string; p_status: string }
+        Returns: number
+      }
+      calculate_session_charge: {
+        Args: {
+          p_actual_end?: string
+          p_actual_start?: string
+          p_session_id: string
+        }
+        Returns: number
+      }
+      can_access_owner: {
+        Args: { p_owner_id: string }
+        Returns: boolean
+      }
+      can_access_session: {
+        Args: { p_session_id: string }
+        Returns: boolean
+      }
+      can_access_student: {
+        Args: { p_student_id: string }
+        Returns: boolean
+      }
+      can_manage_owner: {
+        Args: { p_owner_id: string }
+        Returns: boolean
+      }
+      can_manage_student: {
+        Args: { p_student_id: string }
+        Returns: boolean
+      }
+      cancel_session: {
+        Args: { p_apply_policy?: boolean; p_session_id: string }
+        Returns: Database["public"]["Tables"]["sessions"]["Row"]
+      }
+      cancel_session_series: {
+        Args: { p_from?: string; p_series_id: string }
+        Returns: Database["public"]["Tables"]["sessions"]["Row"][]
+      }
+      claim_reminder_jobs: {
+        Args: { p_lease_seconds?: number; p_limit?: number }
+        Returns: Database["public"]["Tables"]["reminder_jobs"]["Row"][]
+      }
+      complete_session: {
+        Args: {
+          p_actual_end?: string
+          p_actual_start?: string
+          p_session_id: string
+        }
+        Returns: string
+      }
+      consume_mfa_recovery_code: {
+        Args: { p_code: string }
+        Returns: boolean
+      }
+      create_organization: {
+        Args: { p_name: string }
+        Returns: Database["public"]["Tables"]["organizations"]["Row"]
+      }
+      effective_reminder_offsets: {
+        Args: { p_session_id: string }
+        Returns: number[]
+      }
+      enqueue_session_reminders: {
+        Args: { p_session_id: string }
+        Returns: number
+      }
+      find_session_conflicts: {
+        Args: {
+          p_ends: string[]
+          p_exclude_session_id?: string
+          p_starts: string[]
+        }
+        Returns: {
+          scheduled_end_at: string
+          scheduled_start_at: string
+          session_id: string
+          slot_index: number
+          student_id: string
+          student_name: string
+        }[]
+      }
+      generate_mfa_recovery_codes: {
+        Args: never
+        Returns: string[]
+      }
       get_student_balance: { Args: { student_uuid: string }; Returns: number }
+      get_organization_id: {
+        Args: { p_user_id: string }
+        Returns: string
+      }
+      get_organization_members: {
+        Args: never
+        Returns: {
+          email: string
+          full_name: string
+          joined_at: string
+          role: Database["public"]["Enums"]["org_member_role"]
+          user_id: string
+        }[]
+      }
+      get_owner_billing_settings: {
+        Args: { p_owner_id: string }
+        Returns: {
+          billing_rule: Database["public"]["Enums"]["billing_rule"]
+          late_cancel_charge_percent: number
+          late_cancel_window_hours: number
+          no_show_charge_percent: number
+        }[]
+      }
+      get_user_role: {
+        Args: { p_user_id: string }
+        Returns: Database["public"]["Enums"]["app_role"]
+      }
+      has_role: {
+        Args: {
+          p_role: Database["public"]["Enums"]["app_role"]
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      is_organization_admin: {
+        Args: { p_organization_id: string }
+        Returns: boolean
+      }
+      mark_session_no_show: {
+        Args: { p_session_id: string }
+        Returns: string
+      }
+      mfa_challenge_passed: {
+        Args: never
+        Returns: boolean
+      }
+      mfa_requirement_met: {
+        Args: never
+        Returns: boolean
+      }
+      next_free_session_slot: {
+        Args: {
+          p_after: string
+          p_duration_minutes: number
+          p_exclude_session_id?: string
+        }
+        Returns: string
+      }
+      record_session_reply: {
+        Args: { p_phone: string; p_reply: string; p_session_id: string }
+        Returns: string
+      }
+      requeue_reminder_jobs: {
+        Args: { p_session_id: string }
+        Returns: number
+      }
+      scheduling_owner_id: {
+        Args: never
+        Returns: string
+      }
+      set_approval_status: {
+        Args: {
+          p_reason?: string
+          p_status: Database["public"]["Enums"]["approval_status"]
+          p_user_id: string
+        }
+        Returns: Database["public"]["Tables"]["profiles"]["Row"]
+      }
+      set_user_role: {
+        Args: {
+          p_owner_id?: string
+          p_role: Database["public"]["Enums"]["app_role"]
+          p_user_id: string
+        }
+        Returns: Database["public"]["Tables"]["user_roles"]["Row"]
+      }
+      update_session_series_following: {
+        Args: {
+          p_duration_minutes: number
+          p_notes: string
+          p_session_id: string
+          p_start_time: string
+        }
+        Returns: string
+      }
+      whatsapp_delivery_rank: {
+        Args: { p_status: string }
+        Returns: number
+      }
     }
     Enums: {
+      app_role: "admin" | "teacher" | "assistant"
+      approval_status: "PENDING" | "APPROVED" | "REJECTED" | "SUSPENDED"
+      billing_rule: "SCHEDULED" | "ACTUAL" | "ACTUAL_ROUND_15" | "ACTUAL_ROUND_30"
       ledger_entry_type:
         | "SESSION_CHARGE"
         | "PAYMENT_CONFIRMATION"
         | "ADJUSTMENT"
-      reminder_status: "PENDING" | "SENT" | "FAILED"
+      org_member_role: "OWNER" | "ADMIN" | "TEACHER"
+      reminder_status:
+        | "PENDING"
+        | "SENT"
+        | "FAILED"
+        | "CANCELED"
+        | "PROCESSING"
+        | "DEAD"
       session_status: "SCHEDULED" | "COMPLETED" | "CANCELED" | "NO_SHOW"
+      whatsapp_reminder_status:
+        | "NONE"
+        | "PENDING"
+        | "SENT"
+        | "FAILED"
+        | "DELIVERED"
+        | "READ"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -362,13 +1026,32 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      app_role: ["admin", "teacher", "assistant"],
+      approval_status: ["PENDING", "APPROVED", "REJECTED", "SUSPENDED"],
+      billing_rule: ["SCHEDULED", "ACTUAL", "ACTUAL_ROUND_15", "ACTUAL_ROUND_30"],
       ledger_entry_type: [
         "SESSION_CHARGE",
         "PAYMENT_CONFIRMATION",
         "ADJUSTMENT",
       ],
-      reminder_status: ["PENDING", "SENT", "FAILED"],
+      org_member_role: ["OWNER", "ADMIN", "TEACHER"],
+      reminder_status: [
+        "PENDING",
+        "SENT",
+        "FAILED",
+        "CANCELED",
+        "PROCESSING",
+        "DEAD",
+      ],
       session_status: ["SCHEDULED", "COMPLETED", "CANCELED", "NO_SHOW"],
+      whatsapp_reminder_status: [
+        "NONE",
+        "PENDING",
+        "SENT",
+        "FAILED",
+        "DELIVERED",
+        "READ",
+      ],
     },
   },
 } as const
@@ -0,0 +1,75 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { GraduationCap } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { acceptInvite } from "@/utils/organizations";
+
+const AcceptInvite = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") ?? "";
+  const { user, isLoading, refreshProfile } = useAuth();
+  const userId = user?.id;
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) {
+      setError("This invite link is invalid.");
+      return;
+    }
+    if (isLoading) return;
+
+    if (!userId) {
+      // Auth sends the user back here after signing up or in
+      navigate(`/auth?invite=${encodeURIComponent(token)}`, { replace: true });
+      return;
+    }
+
+    const accept = async () => {
+      try {
+        await acceptInvite(token);
+        // Pick up the approval before the route guard sees the dashboard
+        await refreshProfile();
+        navigate("/dashboard", { replace: true });
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    };
+
+    accept();
+  }, [token, userId, isLoading, navigate, refreshProfile]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/5 via-background to-secondary/5 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1 text-center">
+          <div className="flex justify-center mb-4">
+            <div className="w-16 h-16 rounded-full bg-primary/10 flex items-center justify-center">
+              <GraduationCap className="w-10 h-10 text-primary" />
+            </div>
+          </div>
+          <CardTitle className="text-2xl font-bold">Organization Invite</CardTitle>
+          <CardDescription>
+            {error ? "The invite could not be accepted" : "Joining your organization..."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4 text-center">
+          {error ? (
+            <>
+              <p className="text-muted-foreground">{error}</p>
+              <Button variant="outline" onClick={() => navigate("/auth")}>
+                Back to sign in
+              </Button>
+            </>
+          ) : (
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AcceptInvite;
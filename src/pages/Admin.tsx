@@ -0,0 +1,394 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import Layout from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { AppRole, useRole } from "@/hooks/use-role";
+import { ApprovalStatus, setApprovalStatus } from "@/utils/approval";
+import { Check, X, Ban, RotateCcw } from "lucide-react";
+
+interface ProfileRow {
+  id: string;
+  email: string | null;
+  full_name: string | null;
+  approval_status: ApprovalStatus;
+  approval_reason: string | null;
+  approval_changed_at: string | null;
+  created_at: string;
+}
+
+interface RoleRow {
+  user_id: string;
+  role: AppRole;
+  owner_id: string | null;
+}
+
+// Statuses that need a reason shown to the user
+type ReasonStatus = Extract<ApprovalStatus, "REJECTED" | "SUSPENDED">;
+
+const STATUS_VARIANT: Record<ApprovalStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  PENDING: "secondary",
+  APPROVED: "default",
+  REJECTED: "destructive",
+  SUSPENDED: "outline",
+};
+
+const Admin = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { role: currentRole, can } = useRole();
+  const isAdmin = can("manageUsers");
+  const [profiles, setProfiles] = useState<ProfileRow[]>([]);
+  const [roles, setRoles] = useState<Record<string, RoleRow>>({});
+  const [teachers, setTeachers] = useState<ProfileRow[]>([]);
+  const [assistantPrompt, setAssistantPrompt] = useState<ProfileRow | null>(null);
+  const [assistantOwnerId, setAssistantOwnerId] = useState("");
+  const [filter, setFilter] = useState<ApprovalStatus | "ALL">("PENDING");
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [reasonPrompt, setReasonPrompt] = useState<{ profile: ProfileRow; status: ReasonStatus } | null>(null);
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (currentRole && !isAdmin) navigate("/dashboard");
+  }, [currentRole, isAdmin, navigate]);
+
+  const loadRoles = useCallback(async () => {
+    const [{ data: roleRows }, { data: approved }] = await Promise.all([
+      supabase.from("user_roles").select("user_id, role, owner_id"),
+      supabase
+        .from("profiles")
+        .select("id, email, full_name, approval_status, approval_reason, approval_changed_at, created_at")
+        .eq("approval_status", "APPROVED")
+        .order("full_name"),
+    ]);
+
+    const byUser: Record<string, RoleRow> = {};
+    (roleRows || []).forEach((row) => {
+      byUser[row.user_id] = row;
+    });
+    setRoles(byUser);
+    // Assistants can only be assigned to users who are not assistants themselves
+    setTeachers((approved || []).filter((profile) => byUser[profile.id]?.role !== "assistant"));
+  }, []);
+
+  const loadProfiles = useCallback(async () => {
+    let query = supabase
+      .from("profiles")
+      .select("id, email, full_name, approval_status, approval_reason, approval_changed_at, created_at")
+      .order("created_at", { ascending: false });
+
+    if (filter !== "ALL") {
+      query = query.eq("approval_status", filter);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      toast({
+        title: "Error loading users",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    setProfiles(data || []);
+  }, [filter, toast]);
+
+  useEffect(() => {
+    if (isAdmin) loadProfiles();
+  }, [isAdmin, loadProfiles]);
+
+  useEffect(() => {
+    if (isAdmin) loadRoles();
+  }, [isAdmin, loadRoles]);
+
+  const roleOf = (profile: ProfileRow): AppRole => roles[profile.id]?.role ?? "teacher";
+
+  const profileName = (id: string | null) => {
+    const profile = teachers.find((teacher) => teacher.id === id);
+    return profile ? profile.full_name || profile.email : "-";
+  };
+
+  const changeRole = async (profile: ProfileRow, role: AppRole, ownerId?: string) => {
+    setBusyId(profile.id);
+    const { error } = await supabase.rpc("set_user_role", {
+      p_user_id: profile.id,
+      p_role: role,
+      p_owner_id: ownerId,
+    });
+    setBusyId(null);
+
+    if (error) {
+      toast({
+        title: "Error changing role",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    toast({ title: `${profile.full_name || profile.email} is now ${role === "assistant" ? "an assistant" : `a ${role}`}` });
+    loadRoles();
+  };
+
+  const handleRoleSelect = (profile: ProfileRow, role: AppRole) => {
+    if (role === "assistant") {
+      setAssistantOwnerId("");
+      setAssistantPrompt(profile);
+      return;
+    }
+    changeRole(profile, role);
+  };
+
+  const handleAssistantSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!assistantPrompt || !assistantOwnerId) return;
+    const profile = assistantPrompt;
+    setAssistantPrompt(null);
+    await changeRole(profile, "assistant", assistantOwnerId);
+  };
+
+  const changeStatus = async (profile: ProfileRow, status: ApprovalStatus, statusReason?: string) => {
+    setBusyId(profile.id);
+    try {
+      const { emailError } = await setApprovalStatus(profile.id, status, statusReason);
+      toast({
+        title: `${profile.full_name || profile.email} is now ${status.toLowerCase()}`,
+        description: emailError ? `Notification email was not sent: ${emailError}` : undefined,
+        variant: emailError ? "destructive" : "default",
+      });
+      loadProfiles();
+      loadRoles();
+    } catch (error) {
+      toast({
+        title: "Error updating user",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const openReasonPrompt = (profile: ProfileRow, status: ReasonStatus) => {
+    setReason("");
+    setReasonPrompt({ profile, status });
+  };
+
+  const handleReasonSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reasonPrompt) return;
+    const { profile, status } = reasonPrompt;
+    setReasonPrompt(null);
+    await changeStatus(profile, status, reason);
+  };
+
+  if (!isAdmin) {
+    return <Layout>{null}</Layout>;
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold">Admin</h1>
+          <p className="text-muted-foreground mt-2">Review account requests and manage access</p>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <CardTitle>Users</CardTitle>
+            <Tabs value={filter} onValueChange={(value) => setFilter(value as ApprovalStatus | "ALL")}>
+              <TabsList>
+                <TabsTrigger value="PENDING">Pending</TabsTrigger>
+                <TabsTrigger value="APPROVED">Approved</TabsTrigger>
+                <TabsTrigger value="REJECTED">Rejected</TabsTrigger>
+                <TabsTrigger value="SUSPENDED">Suspended</TabsTrigger>
+                <TabsTrigger value="ALL">All</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </CardHeader>
+          <CardContent>
+            {profiles.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">No users in this list.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Signed up</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Role</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {profiles.map((profile) => (
+                      <TableRow key={profile.id}>
+                        <TableCell className="font-medium">{profile.full_name || "-"}</TableCell>
+                        <TableCell>{profile.email || "-"}</TableCell>
+                        <TableCell>{format(new Date(profile.created_at), "MMM d, yyyy")}</TableCell>
+                        <TableCell>
+                          <Badge variant={STATUS_VARIANT[profile.approval_status]}>
+                            {profile.approval_status}
+                          </Badge>
+                          {profile.approval_reason && (
+                            <p className="text-xs text-muted-foreground mt-1">{profile.approval_reason}</p>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={roleOf(profile)}
+                            onValueChange={(value) => handleRoleSelect(profile, value as AppRole)}
+                            disabled={busyId === profile.id}
+                          >
+                            <SelectTrigger className="w-[140px]">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="teacher">Teacher</SelectItem>
+                              <SelectItem value="assistant">Assistant</SelectItem>
+                              <SelectItem value="admin">Admin</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          {roleOf(profile) === "assistant" && (
+                            <p className="text-xs text-muted-foreground mt-1">
+                              Assists {profileName(roles[profile.id]?.owner_id ?? null)}
+                            </p>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex justify-end gap-2">
+                            {profile.approval_status !== "APPROVED" && (
+                              <Button
+                                size="sm"
+                                disabled={busyId === profile.id}
+                                onClick={() => changeStatus(profile, "APPROVED")}
+                              >
+                                {profile.approval_status === "PENDING" ? (
+                                  <Check className="mr-1 h-4 w-4" />
+                                ) : (
+                                  <RotateCcw className="mr-1 h-4 w-4" />
+                                )}
+                                {profile.approval_status === "PENDING" ? "Approve" : "Reinstate"}
+                              </Button>
+                            )}
+                            {profile.approval_status === "PENDING" && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={busyId === profile.id}
+                                onClick={() => openReasonPrompt(profile, "REJECTED")}
+                              >
+                                <X className="mr-1 h-4 w-4" />
+                                Reject
+                              </Button>
+                            )}
+                            {profile.approval_status === "APPROVED" && (
+                              <Button
+                                size="sm"
+                                variant="destructive"
+                                disabled={busyId === profile.id}
+                                onClick={() => openReasonPrompt(profile, "SUSPENDED")}
+                              >
+                                <Ban className="mr-1 h-4 w-4" />
+                                Suspend
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!reasonPrompt} onOpenChange={(open) => !open && setReasonPrompt(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {reasonPrompt?.status === "REJECTED" ? "Reject account" : "Suspend account"}
+            </DialogTitle>
+            <DialogDescription>
+              {reasonPrompt?.profile.full_name || reasonPrompt?.profile.email} will be notified by email.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleReasonSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="approval_reason">Reason *</Label>
+              <Textarea
+                id="approval_reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                required
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" variant="destructive" className="flex-1">
+                {reasonPrompt?.status === "REJECTED" ? "Reject" : "Suspend"}
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setReasonPrompt(null)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!assistantPrompt} onOpenChange={(open) => !open && setAssistantPrompt(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Make assistant</DialogTitle>
+            <DialogDescription>
+              {assistantPrompt?.full_name || assistantPrompt?.email} will be able to schedule sessions and record
+              payments for the selected teacher, but not add or delete students, change rates or charge sessions.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleAssistantSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="assistant_owner">Teacher *</Label>
+              <Select value={assistantOwnerId} onValueChange={setAssistantOwnerId}>
+                <SelectTrigger id="assistant_owner">
+                  <SelectValue placeholder="Select a teacher" />
+                </SelectTrigger>
+                <SelectContent>
+                  {teachers
+                    .filter((teacher) => teacher.id !== assistantPrompt?.id)
+                    .map((teacher) => (
+                      <SelectItem key={teacher.id} value={teacher.id}>
+                        {teacher.full_name || teacher.email}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" className="flex-1" disabled={!assistantOwnerId}>
+                Make assistant
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setAssistantPrompt(null)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+};
+
+export default Admin;
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useLocation, useNavigate, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -8,6 +8,8 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import MfaChallenge from "@/components/auth/MfaChallenge";
 import { GraduationCap, Eye, EyeOff } from "lucide-react";
 import PhoneInput from "react-phone-number-input";
 import { getCountries } from "react-phone-number-input";
@@ -35,29 +37,38 @@ const Auth = () => {
   const [forgotPasswordSent, setForgotPasswordSent] = useState(false);
   
   const navigate = useNavigate();
+  const location = useLocation();
   const { toast } = useToast();
+  const { session, isLoading: isAuthLoading, needsMfaChallenge } = useAuth();
+
+  // Organization invite links send new teachers here first; otherwise return to the page ProtectedRoute bounced
+  const [searchParams] = useSearchParams();
+  const inviteToken = searchParams.get("invite");
+  const redirectedFrom = (location.state as { from?: { pathname: string } } | null)?.from?.pathname;
+  const afterAuthPath = inviteToken
+    ? `/accept-invite?token=${encodeURIComponent(inviteToken)}`
+    : redirectedFrom ?? "/dashboard";
 
   // Get all countries except Israel
   const countries = getCountries().filter((country) => country !== "IL");
 
   useEffect(() => {
-    // Check if already logged in
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      if (session) {
-        navigate("/dashboard");
-      }
-    });
-  }, [navigate]);
+    // Already signed in (or just signed in); ProtectedRoute handles approval from there.
+    // Accounts with two-factor authentication stay here for the code first.
+    if (session && !isAuthLoading && !needsMfaChallenge) {
+      navigate(afterAuthPath, { replace: true });
+    }
+  }, [session, isAuthLoading, needsMfaChallenge, navigate, afterAuthPath]);
 
   const handleSignUp = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
 
-    const { error } = await supabase.auth.signUp({
+    const { data, error } = await supabase.auth.signUp({
       email: signUpEmail,
       password: signUpPassword,
       options: {
-        emailRedirectTo: `${window.location.origin}/dashboard`,
+        emailRedirectTo: `${window.location.origin}${afterAuthPath}`,
         data: {
           full_name: fullName,
           phone: signUpPhoneNumber || null,
@@ -74,11 +85,16 @@ const Auth = () => {
         variant: "destructive",
       });
       setSignUpSuccess(false);
+    } else if (inviteToken && data.session) {
+      // No email confirmation required: join the organization right away
+      navigate(afterAuthPath);
     } else {
       setSignUpSuccess(true);
       toast({
         title: "Account created successfully!",
-        description: "Please check your email to verify your account. Your account is pending administrator approval.",
+        description: inviteToken
+          ? "Please check your email to verify your account. The confirmation link will finish joining your organization."
+          : "Please check your email to verify your account. Your account is pending administrator approval.",
       });
     }
   };
@@ -109,7 +125,7 @@ const Auth = () => {
             await supabase.auth.refreshSession();
           }
         }
-        navigate("/dashboard");
+        // Navigation happens once AuthProvider knows whether a TOTP code is needed
       }
     } catch (error: any) {
       toast({
@@ -166,264 +182,275 @@ const Auth = () => {
           </div>
           <CardTitle className="text-2xl font-bold">TutorSessions</CardTitle>
           <CardDescription>Manage your tutoring sessions with ease</CardDescription>
+          {inviteToken && (
+            <p className="text-sm text-primary pt-2">
+              You've been invited to join an organization. Sign up or sign in with the email address the invite was sent to.
+            </p>
+          )}
         </CardHeader>
         <CardContent>
-          <Tabs defaultValue="signin" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
-              <TabsTrigger value="signin">Sign In</TabsTrigger>
-              <TabsTrigger value="signup">Sign Up</TabsTrigger>
-            </TabsList>
-            <TabsContent value="signin">
-              {!showForgotPassword ? (
-                <form onSubmit={handleSignIn} className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="signin-email">Email</Label>
-                    <Input
-                      id="signin-email"
-                      type="email"
-                      placeholder="teacher@example.com"
-                      value={email}
-                      onChange={(e) => setEmail(e.target.value)}
-                      required
-                      disabled={isLoading}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="signin-password">Password</Label>
-                    <div className="relative">
+          {session && needsMfaChallenge ? (
+            <MfaChallenge />
+          ) : (
+            <Tabs defaultValue="signin" className="w-full">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="signin">Sign In</TabsTrigger>
+                <TabsTrigger value="signup">Sign Up</TabsTrigger>
+              </TabsList>
+              <TabsContent value="signin">
+                {!showForgotPassword ? (
+                  <form onSubmit={handleSignIn} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="signin-email">Email</Label>
                       <Input
-                        id="signin-password"
-                        type={showPassword ? "text" : "password"}
-                        value={password}
-                        onChange={(e) => setPassword(e.target.value)}
+                        id="signin-email"
+                        type="email"
+                        placeholder="teacher@example.com"
+                        value={email}
+                        onChange={(e) => setEmail(e.target.value)}
                         required
                         disabled={isLoading}
-                        className="pr-10"
                       />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="signin-password">Password</Label>
+                      <div className="relative">
+                        <Input
+                          id="signin-password"
+                          type={showPassword ? "text" : "password"}
+                          value={password}
+                          onChange={(e) => setPassword(e.target.value)}
+                          required
+                          disabled={isLoading}
+                          className="pr-10"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setShowPassword(!showPassword)}
+                          className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                          disabled={isLoading}
+                        >
+                          {showPassword ? (
+                            <EyeOff className="h-4 w-4" />
+                          ) : (
+                            <Eye className="h-4 w-4" />
+                          )}
+                        </button>
+                      </div>
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          id="remember-me"
+                          checked={rememberMe}
+                          onCheckedChange={(checked) => setRememberMe(checked as boolean)}
+                          disabled={isLoading}
+                        />
+                        <Label
+                          htmlFor="remember-me"
+                          className="text-sm font-normal cursor-pointer"
+                        >
+                          Remember me
+                        </Label>
+                      </div>
                       <button
                         type="button"
-                        onClick={() => setShowPassword(!showPassword)}
-                        className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                        onClick={() => setShowForgotPassword(true)}
+                        className="text-sm text-primary hover:underline"
                         disabled={isLoading}
                       >
-                        {showPassword ? (
-                          <EyeOff className="h-4 w-4" />
-                        ) : (
-                          <Eye className="h-4 w-4" />
-                        )}
+                        Forgot password?
                       </button>
                     </div>
-                  </div>
 
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center space-x-2">
-                      <Checkbox
-                        id="remember-me"
-                        checked={rememberMe}
-                        onCheckedChange={(checked) => setRememberMe(checked as boolean)}
-                        disabled={isLoading}
-                      />
-                      <Label
-                        htmlFor="remember-me"
-                        className="text-sm font-normal cursor-pointer"
+                    <Button type="submit" className="w-full" disabled={isLoading}>
+                      {isLoading ? "Signing in..." : "Sign In"}
+                    </Button>
+                  </form>
+                ) : (
+                  <div className="space-y-4">
+                    <div className="flex items-center gap-2">
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setShowForgotPassword(false);
+                          setForgotPasswordEmail("");
+                          setForgotPasswordSent(false);
+                        }}
+                        className="text-sm text-muted-foreground hover:text-foreground"
                       >
-                        Remember me
-                      </Label>
+                        ← Back to login
+                      </button>
                     </div>
-                    <button
-                      type="button"
-                      onClick={() => setShowForgotPassword(true)}
-                      className="text-sm text-primary hover:underline"
-                      disabled={isLoading}
-                    >
-                      Forgot password?
-                    </button>
-                  </div>
-
-                  <Button type="submit" className="w-full" disabled={isLoading}>
-                    {isLoading ? "Signing in..." : "Sign In"}
-                  </Button>
-                </form>
-              ) : (
-                <div className="space-y-4">
-                  <div className="flex items-center gap-2">
-                    <button
-                      type="button"
-                      onClick={() => {
-                        setShowForgotPassword(false);
-                        setForgotPasswordEmail("");
-                        setForgotPasswordSent(false);
-                      }}
-                      className="text-sm text-muted-foreground hover:text-foreground"
-                    >
-                      ← Back to login
-                    </button>
-                  </div>
-                  {forgotPasswordSent ? (
-                    <div className="space-y-4 p-4 bg-primary/5 rounded-lg border border-primary/20">
-                      <div className="text-center space-y-2">
-                        <div className="w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center mx-auto">
-                          <svg
-                            className="w-6 h-6 text-primary"
-                            fill="none"
-                            stroke="currentColor"
-                            viewBox="0 0 24 24"
-                          >
-                            <path
-                              strokeLinecap="round"
-                              strokeLinejoin="round"
-                              strokeWidth={2}
-                              d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z"
-                            />
-                          </svg>
+                    {forgotPasswordSent ? (
+                      <div className="space-y-4 p-4 bg-primary/5 rounded-lg border border-primary/20">
+                        <div className="text-center space-y-2">
+                          <div className="w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center mx-auto">
+                            <svg
+                              className="w-6 h-6 text-primary"
+                              fill="none"
+                              stroke="currentColor"
+                              viewBox="0 0 24 24"
+                            >
+                              <path
+                                strokeLinecap="round"
+                                strokeLinejoin="round"
+                                strokeWidth={2}
+                                d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z"
+                              />
+                            </svg>
+                          </div>
+                          <h3 className="font-semibold text-lg">Check Your Email</h3>
+                          <p className="text-sm text-muted-foreground">
+                            We've sent password reset instructions to <strong>{forgotPasswordEmail}</strong>
+                          </p>
                         </div>
-                        <h3 className="font-semibold text-lg">Check Your Email</h3>
-                        <p className="text-sm text-muted-foreground">
-                          We've sent password reset instructions to <strong>{forgotPasswordEmail}</strong>
-                        </p>
                       </div>
-                    </div>
-                  ) : (
-                    <form onSubmit={handleForgotPassword} className="space-y-4">
-                      <div className="space-y-2">
-                        <Label htmlFor="forgot-email">Email</Label>
-                        <Input
-                          id="forgot-email"
-                          type="email"
-                          placeholder="teacher@example.com"
-                          value={forgotPasswordEmail}
-                          onChange={(e) => setForgotPasswordEmail(e.target.value)}
-                          required
-                          disabled={isLoading}
-                        />
+                    ) : (
+                      <form onSubmit={handleForgotPassword} className="space-y-4">
+                        <div className="space-y-2">
+                          <Label htmlFor="forgot-email">Email</Label>
+                          <Input
+                            id="forgot-email"
+                            type="email"
+                            placeholder="teacher@example.com"
+                            value={forgotPasswordEmail}
+                            onChange={(e) => setForgotPasswordEmail(e.target.value)}
+                            required
+                            disabled={isLoading}
+                          />
+                        </div>
+                        <Button type="submit" className="w-full" disabled={isLoading}>
+                          {isLoading ? "Sending..." : "Send Reset Link"}
+                        </Button>
+                      </form>
+                    )}
+                  </div>
+                )}
+              </TabsContent>
+              <TabsContent value="signup">
+                {signUpSuccess ? (
+                  <div className="space-y-4 p-4 bg-primary/5 rounded-lg border border-primary/20">
+                    <div className="text-center space-y-2">
+                      <div className="w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center mx-auto">
+                        <svg
+                          className="w-6 h-6 text-primary"
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z"
+                          />
+                        </svg>
                       </div>
-                      <Button type="submit" className="w-full" disabled={isLoading}>
-                        {isLoading ? "Sending..." : "Send Reset Link"}
-                      </Button>
-                    </form>
-                  )}
-                </div>
-              )}
-            </TabsContent>
-            <TabsContent value="signup">
-              {signUpSuccess ? (
-                <div className="space-y-4 p-4 bg-primary/5 rounded-lg border border-primary/20">
-                  <div className="text-center space-y-2">
-                    <div className="w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center mx-auto">
-                      <svg
-                        className="w-6 h-6 text-primary"
-                        fill="none"
-                        stroke="currentColor"
-                        viewBox="0 0 24 24"
+                      <h3 className="font-semibold text-lg">Check Your Email</h3>
+                      <p className="text-sm text-muted-foreground">
+                        We've sent a confirmation email to <strong>{signUpEmail}</strong>
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        Please click the confirmation link in the email to verify your account.
+                      </p>
+                      {!inviteToken && (
+                        <p className="text-sm text-muted-foreground mt-4">
+                          <strong>Note:</strong> Your account is pending administrator approval. 
+                          You'll be able to access the system once your email is verified and your account is approved.
+                        </p>
+                      )}
+                      <Button
+                        type="button"
+                        variant="outline"
+                        className="w-full mt-4"
+                        onClick={() => {
+                          setSignUpSuccess(false);
+                          setFullName("");
+                          setSignUpEmail("");
+                          setSignUpPassword("");
+                          setSignUpPhoneNumber("");
+                        }}
                       >
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          strokeWidth={2}
-                          d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z"
-                        />
-                      </svg>
+                        Sign Up Another Account
+                      </Button>
                     </div>
-                    <h3 className="font-semibold text-lg">Check Your Email</h3>
-                    <p className="text-sm text-muted-foreground">
-                      We've sent a confirmation email to <strong>{signUpEmail}</strong>
-                    </p>
-                    <p className="text-sm text-muted-foreground">
-                      Please click the confirmation link in the email to verify your account.
-                    </p>
-                    <p className="text-sm text-muted-foreground mt-4">
-                      <strong>Note:</strong> Your account is pending administrator approval. 
-                      You'll be able to access the system once your email is verified and your account is approved.
-                    </p>
-                    <Button
-                      type="button"
-                      variant="outline"
-                      className="w-full mt-4"
-                      onClick={() => {
-                        setSignUpSuccess(false);
-                        setFullName("");
-                        setSignUpEmail("");
-                        setSignUpPassword("");
-                        setSignUpPhoneNumber("");
-                      }}
-                    >
-                      Sign Up Another Account
-                    </Button>
-                  </div>
-                </div>
-              ) : (
-                <form onSubmit={handleSignUp} className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="signup-name">Full Name</Label>
-                    <Input
-                      id="signup-name"
-                      type="text"
-                      placeholder="John Doe"
-                      value={fullName}
-                      onChange={(e) => setFullName(e.target.value)}
-                      required
-                      disabled={isLoading}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="signup-email">Email</Label>
-                    <Input
-                      id="signup-email"
-                      type="email"
-                      placeholder="teacher@example.com"
-                      value={signUpEmail}
-                      onChange={(e) => setSignUpEmail(e.target.value)}
-                      required
-                      disabled={isLoading}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="signup-phone">Phone Number</Label>
-                    <PhoneInput
-                      international
-                      defaultCountry="US"
-                      value={signUpPhoneNumber}
-                      onChange={setSignUpPhoneNumber}
-                      countries={countries}
-                      className="phone-input"
-                      placeholder="Enter phone number"
-                      disabled={isLoading}
-                    />
                   </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="signup-password">Password</Label>
-                    <div className="relative">
+                ) : (
+                  <form onSubmit={handleSignUp} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="signup-name">Full Name</Label>
                       <Input
-                        id="signup-password"
-                        type={showSignUpPassword ? "text" : "password"}
-                        value={signUpPassword}
-                        onChange={(e) => setSignUpPassword(e.target.value)}
+                        id="signup-name"
+                        type="text"
+                        placeholder="John Doe"
+                        value={fullName}
+                        onChange={(e) => setFullName(e.target.value)}
                         required
-                        minLength={6}
                         disabled={isLoading}
-                        className="pr-10"
                       />
-                      <button
-                        type="button"
-                        onClick={() => setShowSignUpPassword(!showSignUpPassword)}
-                        className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="signup-email">Email</Label>
+                      <Input
+                        id="signup-email"
+                        type="email"
+                        placeholder="teacher@example.com"
+                        value={signUpEmail}
+                        onChange={(e) => setSignUpEmail(e.target.value)}
+                        required
                         disabled={isLoading}
-                      >
-                        {showSignUpPassword ? (
-                          <EyeOff className="h-4 w-4" />
-                        ) : (
-                          <Eye className="h-4 w-4" />
-                        )}
-                      </button>
+                      />
                     </div>
-                  </div>
-                  <Button type="submit" className="w-full" disabled={isLoading || signUpSuccess}>
-                    {isLoading ? "Creating account..." : "Create Account"}
-                  </Button>
-                </form>
-              )}
-            </TabsContent>
-          </Tabs>
+                    <div className="space-y-2">
+                      <Label htmlFor="signup-phone">Phone Number</Label>
+                      <PhoneInput
+                        international
+                        defaultCountry="US"
+                        value={signUpPhoneNumber}
+                        onChange={setSignUpPhoneNumber}
+                        countries={countries}
+                        className="phone-input"
+                        placeholder="Enter phone number"
+                        disabled={isLoading}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="signup-password">Password</Label>
+                      <div className="relative">
+                        <Input
+                          id="signup-password"
+                          type={showSignUpPassword ? "text" : "password"}
+                          value={signUpPassword}
+                          onChange={(e) => setSignUpPassword(e.target.value)}
+                          required
+                          minLength={6}
+                          disabled={isLoading}
+                          className="pr-10"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setShowSignUpPassword(!showSignUpPassword)}
+                          className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                          disabled={isLoading}
+                        >
+                          {showSignUpPassword ? (
+                            <EyeOff className="h-4 w-4" />
+                          ) : (
+                            <Eye className="h-4 w-4" />
+                          )}
+                        </button>
+                      </div>
+                    </div>
+                    <Button type="submit" className="w-full" disabled={isLoading || signUpSuccess}>
+                      {isLoading ? "Creating account..." : "Create Account"}
+                    </Button>
+                  </form>
+                )}
+              </TabsContent>
+            </Tabs>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -2,7 +2,9 @@ import { useEffect, useState } from "react";
 import { useTranslation } from "react-i18next";
 import Layout from "@/components/Layout";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { supabase } from "@/integrations/supabase/client";
+import { getOrganizationMembers, OrganizationMember } from "@/utils/organizations";
 import { Users, Calendar, DollarSign, CheckCircle } from "lucide-react";
 
 interface DashboardStats {
@@ -21,12 +23,50 @@ const Dashboard = () => {
     completedThisMonth: 0,
   });
   const [displayName, setDisplayName] = useState<string>("");
+  const [orgMembers, setOrgMembers] = useState<OrganizationMember[]>([]);
+  const [isOrgAdmin, setIsOrgAdmin] = useState(false);
+  // null until the organization loads, then "all" or a teacher's user id
+  const [teacherFilter, setTeacherFilter] = useState<string | null>(null);
 
   useEffect(() => {
-    loadStats();
+    loadOrganization();
     loadUserProfile();
   }, []);
 
+  useEffect(() => {
+    if (teacherFilter !== null) {
+      loadStats(teacherFilter === "all" ? null : teacherFilter);
+    }
+  }, [teacherFilter]);
+
+  const loadOrganization = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.user) {
+      setTeacherFilter("all");
+      return;
+    }
+
+    const { data: membership } = await supabase
+      .from("organization_members")
+      .select("role")
+      .eq("user_id", session.user.id)
+      .maybeSingle();
+
+    if (!membership) {
+      // Outside an organization RLS already limits stats to the user's own data
+      setTeacherFilter("all");
+      return;
+    }
+
+    const admin = membership.role === "OWNER" || membership.role === "ADMIN";
+    setIsOrgAdmin(admin);
+    if (admin) {
+      setOrgMembers(await getOrganizationMembers().catch(() => []));
+    }
+    // Teachers see shared students but their own workload on the dashboard
+    setTeacherFilter(admin ? "all" : session.user.id);
+  };
+
   const loadUserProfile = async () => {
     try {
       // Get session first (often faster)
@@ -61,21 +101,23 @@ const Dashboard = () => {
     }
   };
 
-  const loadStats = async () => {
+  const loadStats = async (teacherId: string | null) => {
+    const studentsQuery = () => {
+      const query = supabase.from("students").select("*", { count: "exact", head: true });
+      return teacherId ? query.eq("owner_id", teacherId) : query;
+    };
+    const sessionsQuery = () => {
+      const query = supabase.from("sessions").select("*", { count: "exact", head: true });
+      return teacherId ? query.eq("created_by", teacherId) : query;
+    };
+
     // Get total and active students
-    const { count: totalStudents } = await supabase
-      .from("students")
-      .select("*", { count: "exact", head: true });
+    const { count: totalStudents } = await studentsQuery();
 
-    const { count: activeStudents } = await supabase
-      .from("students")
-      .select("*", { count: "exact", head: true })
-      .eq("is_active", true);
+    const { count: activeStudents } = await studentsQuery().eq("is_active", true);
 
     // Get upcoming sessions
-    const { count: upcomingSessions } = await supabase
-      .from("sessions")
-      .select("*", { count: "exact", head: true })
+    const { count: upcomingSessions } = await sessionsQuery()
       .eq("status", "SCHEDULED")
       .gte("scheduled_start_at", new Date().toISOString());
 
@@ -84,9 +126,7 @@ const Dashboard = () => {
     startOfMonth.setDate(1);
     startOfMonth.setHours(0, 0, 0, 0);
 
-    const { count: completedThisMonth } = await supabase
-      .from("sessions")
-      .select("*", { count: "exact", head: true })
+    const { count: completedThisMonth } = await sessionsQuery()
       .eq("status", "COMPLETED")
       .gte("scheduled_start_at", startOfMonth.toISOString());
 
@@ -126,11 +166,28 @@ const Dashboard = () => {
   return (
     <Layout>
       <div className="space-y-8">
-        <div>
-          <h1 className="text-2xl sm:text-3xl font-bold text-foreground">
-            {displayName ? `${t("common.welcome")} ${displayName}` : t("common.welcome")}
-          </h1>
-          <p className="text-muted-foreground mt-2">{t("common.welcomeBack")}</p>
+        <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold text-foreground">
+              {displayName ? `${t("common.welcome")} ${displayName}` : t("common.welcome")}
+            </h1>
+            <p className="text-muted-foreground mt-2">{t("common.welcomeBack")}</p>
+          </div>
+          {isOrgAdmin && teacherFilter !== null && (
+            <Select value={teacherFilter} onValueChange={setTeacherFilter}>
+              <SelectTrigger className="sm:w-[220px]" aria-label={t("dashboard.filterByTeacher")}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{t("dashboard.allTeachers")}</SelectItem>
+                {orgMembers.map((member) => (
+                  <SelectItem key={member.user_id} value={member.user_id}>
+                    {member.full_name || member.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
         </div>
 
         <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
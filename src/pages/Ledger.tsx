@@ -1,4 +1,6 @@
 import { useEffect, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { useTranslation } from "react-i18next";
 import Layout from "@/components/Layout";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -9,7 +11,8 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { Plus, DollarSign, Pencil, Filter } from "lucide-react";
+import { useRole } from "@/hooks/use-role";
+import { Plus, DollarSign, Pencil, Filter, CalendarDays } from "lucide-react";
 import { Switch } from "@/components/ui/switch";
 
 interface LedgerEntry {
@@ -20,10 +23,14 @@ interface LedgerEntry {
   reference: string | null;
   image_url: string | null;
   created_at: string;
+  session_id: string | null;
   students: {
     first_name: string;
     last_name: string;
   };
+  sessions: {
+    scheduled_start_at: string;
+  } | null;
 }
 
 interface Student {
@@ -39,12 +46,17 @@ interface StudentBalance {
 }
 
 const Ledger = () => {
+  const { t, i18n } = useTranslation();
   const [entries, setEntries] = useState<LedgerEntry[]>([]);
   const [students, setStudents] = useState<Student[]>([]);
   const [balances, setBalances] = useState<StudentBalance[]>([]);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingEntry, setEditingEntry] = useState<LedgerEntry | null>(null);
   const { toast } = useToast();
+  const { can } = useRole();
+  // ?entry=<id> highlights a single entry, e.g. when coming from the Sessions page
+  const [searchParams] = useSearchParams();
+  const highlightedEntryId = searchParams.get("entry");
 
   const [filterStudentId, setFilterStudentId] = useState<string>("ALL");
   const [formData, setFormData] = useState({
@@ -69,6 +81,11 @@ const Ledger = () => {
     loadEntries();
   }, [filterStudentId]);
 
+  useEffect(() => {
+    if (!highlightedEntryId) return;
+    document.getElementById(`ledger-entry-${highlightedEntryId}`)?.scrollIntoView({ block: "center" });
+  }, [highlightedEntryId, entries]);
+
   const loadEntries = async () => {
     let query = supabase
       .from("ledger_entries")
@@ -77,6 +94,9 @@ const Ledger = () => {
         students (
           first_name,
           last_name
+        ),
+        sessions (
+          scheduled_start_at
         )
       `)
       .order("created_at", { ascending: false });
@@ -470,8 +490,12 @@ const Ledger = () => {
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="PAYMENT_CONFIRMATION">Payment</SelectItem>
-                      <SelectItem value="SESSION_CHARGE">Session Charge</SelectItem>
-                      <SelectItem value="ADJUSTMENT">Adjustment</SelectItem>
+                      {can("editLedger") && (
+                        <>
+                          <SelectItem value="SESSION_CHARGE">Session Charge</SelectItem>
+                          <SelectItem value="ADJUSTMENT">Adjustment</SelectItem>
+                        </>
+                      )}
                     </SelectContent>
                   </Select>
                 </div>
@@ -634,7 +658,11 @@ const Ledger = () => {
               </TableHeader>
               <TableBody>
                 {entries.map((entry) => (
-                  <TableRow key={entry.id}>
+                  <TableRow
+                    key={entry.id}
+                    id={`ledger-entry-${entry.id}`}
+                    className={entry.id === highlightedEntryId ? "bg-muted" : undefined}
+                  >
                     <TableCell>
                       {new Date(entry.created_at).toLocaleDateString()}
                     </TableCell>
@@ -646,7 +674,22 @@ const Ledger = () => {
                       ${Math.abs(entry.amount).toFixed(2)}
                       {entry.amount >= 0 ? " +" : " -"}
                     </TableCell>
-                    <TableCell>{entry.reference || "-"}</TableCell>
+                    <TableCell>
+                      <div>{entry.reference || "-"}</div>
+                      {entry.session_id && (
+                        <Link
+                          to={`/sessions?session=${entry.session_id}`}
+                          className="inline-flex items-center gap-1 text-xs text-primary hover:underline"
+                        >
+                          <CalendarDays className="h-3 w-3" />
+                          {entry.sessions
+                            ? t("ledger.sessionOn", {
+                                date: new Date(entry.sessions.scheduled_start_at).toLocaleDateString(i18n.language),
+                              })
+                            : t("ledger.viewSession")}
+                        </Link>
+                      )}
+                    </TableCell>
                     <TableCell>
                       {entry.image_url ? (
                         <a
@@ -666,13 +709,15 @@ const Ledger = () => {
                       )}
                     </TableCell>
                     <TableCell className="text-right">
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => handleEdit(entry)}
-                      >
-                        <Pencil className="h-4 w-4" />
-                      </Button>
+                      {can("editLedger") && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleEdit(entry)}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      )}
                     </TableCell>
                   </TableRow>
                 ))}
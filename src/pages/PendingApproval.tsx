@@ -1,42 +1,17 @@
-import { useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { Navigate } from "react-router-dom";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { GraduationCap } from "lucide-react";
-import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
 
 const PendingApproval = () => {
-  const navigate = useNavigate();
+  const { profile, isApproved } = useAuth();
+  const status = profile?.approval_status ?? "PENDING";
+  const reason = profile?.approval_reason ?? null;
 
-  useEffect(() => {
-    // Check if user is approved
-    const checkApproval = async () => {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (user) {
-        const { data: profile, error } = await supabase
-          .from("profiles")
-          .select("is_approved")
-          .eq("id", user.id)
-          .single();
-
-        if (error) {
-          return;
-        }
-
-        if (profile?.is_approved) {
-          // Clear cache and update session storage
-          sessionStorage.setItem(`approval_${user.id}`, "true");
-          // Force a page reload to trigger Layout to use new approval status
-          window.location.href = "/dashboard";
-        }
-      }
-    };
-
-    checkApproval();
-    
-    // Check every 5 seconds if user has been approved
-    const interval = setInterval(checkApproval, 5000);
-    return () => clearInterval(interval);
-  }, [navigate]);
+  // The profile subscription flips this as soon as an admin approves the account
+  if (isApproved) {
+    return <Navigate to="/dashboard" replace />;
+  }
 
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/5 via-background to-secondary/5 p-4">
@@ -47,23 +22,42 @@ const PendingApproval = () => {
               <GraduationCap className="w-10 h-10 text-primary" />
             </div>
           </div>
-          <CardTitle className="text-2xl font-bold">Account Pending Approval</CardTitle>
+          <CardTitle className="text-2xl font-bold">
+            {status === "REJECTED" ? "Account Not Approved" : status === "SUSPENDED" ? "Account Suspended" : "Account Pending Approval"}
+          </CardTitle>
           <CardDescription>
-            Your account is waiting for administrator approval
+            {status === "REJECTED"
+              ? "An administrator reviewed your account request and did not approve it"
+              : status === "SUSPENDED"
+                ? "An administrator has suspended your account"
+                : "Your account is waiting for administrator approval"}
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="text-center text-muted-foreground">
-            <p className="mb-4">
-              Thank you for signing up! Your account has been created successfully, but it requires administrator approval before you can access the system.
-            </p>
-            <p className="text-sm">
-              You will be automatically redirected to the dashboard once your account has been approved.
-            </p>
-            <p className="text-sm mt-4 text-muted-foreground">
-              This page will refresh automatically to check your approval status.
-            </p>
-          </div>
+          {status === "REJECTED" || status === "SUSPENDED" ? (
+            <div className="text-center text-muted-foreground">
+              {reason && (
+                <p className="mb-4">
+                  <span className="font-medium text-foreground">Reason:</span> {reason}
+                </p>
+              )}
+              <p className="text-sm">
+                If you think this is a mistake, contact the administrator. You will be redirected automatically if your account is reinstated.
+              </p>
+            </div>
+          ) : (
+            <div className="text-center text-muted-foreground">
+              <p className="mb-4">
+                Thank you for signing up! Your account has been created successfully, but it requires administrator approval before you can access the system.
+              </p>
+              <p className="text-sm">
+                You will be automatically redirected to the dashboard once your account has been approved.
+              </p>
+              <p className="text-sm mt-4 text-muted-foreground">
+                This page updates automatically when your approval status changes. We will also email you when your account has been reviewed.
+              </p>
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
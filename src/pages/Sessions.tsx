@@ -1,4 +1,5 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
 import { useTranslation } from "react-i18next";
 import Layout from "@/components/Layout";
 import { Button } from "@/components/ui/button";
@@ -9,9 +10,37 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import SeriesEditDialog from "@/components/sessions/SeriesEditDialog";
+import SessionCalendar, { CalendarSession } from "@/components/sessions/SessionCalendar";
+import CancelSessionDialog from "@/components/sessions/CancelSessionDialog";
+import CompleteSessionDialog from "@/components/sessions/CompleteSessionDialog";
+import RescheduleDialog from "@/components/sessions/RescheduleDialog";
+import SessionConflictDialog, { ConflictPrompt } from "@/components/sessions/SessionConflictDialog";
+import ReminderOffsetsInput from "@/components/sessions/ReminderOffsetsInput";
+import ReminderHistorySheet from "@/components/sessions/ReminderHistorySheet";
 import { supabase } from "@/integrations/supabase/client";
+import type { TablesInsert } from "@/integrations/supabase/types";
 import { useToast } from "@/hooks/use-toast";
-import { Plus, CheckCircle, XCircle, Copy, Check, Filter } from "lucide-react";
+import { useRole } from "@/hooks/use-role";
+import { useAuth } from "@/hooks/use-auth";
+import { addDays, format, startOfWeek } from "date-fns";
+import { describeRRule, expandOccurrences, formatRRule, MAX_OCCURRENCES, RecurrenceRule } from "@/utils/recurrence";
+import {
+  cancelSessions,
+  createSessionZoomMeeting,
+  findNextFreeSlot,
+  findSessionConflicts,
+  hasZoomCredentials,
+  REMINDER_CHANNELS,
+  rescheduleSession,
+  SESSION_CONFLICT_ERROR_CODE,
+  SessionSlot,
+  SessionZoomData,
+} from "@/utils/sessions";
+import { Plus, CheckCircle, XCircle, Copy, Check, Filter, Repeat, CalendarDays, List, CalendarClock, UserX, Receipt, RotateCcw, History, CheckCheck } from "lucide-react";
 
 interface Session {
   id: string;
@@ -20,13 +49,27 @@ interface Session {
   scheduled_start_at: string;
   scheduled_end_at: string;
   zoom_join_url: string | null;
+  zoom_meeting_id?: string | null;
   notes: string | null;
-  whatsapp_reminder_options?: string | null;
+  reminder_offsets?: number[] | null;
   whatsapp_notification_status?: string | null;
+  confirmation_status?: string | null;
+  reminder_channels?: string[];
+  series_id?: string | null;
   students: {
     first_name: string;
     last_name: string;
   };
+  session_series?: {
+    rrule: string;
+  } | null;
+  ledger_entries?: {
+    id: string;
+    type: string;
+  }[];
+  reminder_jobs?: {
+    status: string;
+  }[];
 }
 
 interface Student {
@@ -34,6 +77,10 @@ interface Student {
   first_name: string;
   last_name: string;
   price_per_hour: number;
+  phone_e164: string | null;
+  email: string | null;
+  preferred_channel: string;
+  reminder_offsets: number[] | null;
 }
 
 const Sessions = () => {
@@ -43,27 +90,103 @@ const Sessions = () => {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [copiedLink, setCopiedLink] = useState<string | null>(null);
   const { toast } = useToast();
+  const { can } = useRole();
+  const { user } = useAuth();
+  const [defaultReminderOffsets, setDefaultReminderOffsets] = useState<number[]>([]);
+  // ?session=<id> highlights a single session, e.g. when coming from the Ledger page
+  const [searchParams] = useSearchParams();
+  const highlightedSessionId = searchParams.get("session");
 
   const [isScheduling, setIsScheduling] = useState(false);
   const [filterStudentId, setFilterStudentId] = useState<string>("ALL");
+  const [editingSeriesSession, setEditingSeriesSession] = useState<Session | null>(null);
+  const [reschedulingSession, setReschedulingSession] = useState<Session | null>(null);
+  const [cancelingSession, setCancelingSession] = useState<Session | null>(null);
+  const [completingSession, setCompletingSession] = useState<Session | null>(null);
+  const [reminderHistorySession, setReminderHistorySession] = useState<Session | null>(null);
+  // When set from a reschedule, accepting the suggested slot moves this session
+  const [conflictPrompt, setConflictPrompt] = useState<
+    (ConflictPrompt & { session?: Session; notifyStudent?: boolean }) | null
+  >(null);
   const [formData, setFormData] = useState({
     student_id: "",
     scheduled_start_at: "",
     scheduled_end_at: "",
     notes: "",
-    whatsapp_reminder_options: "30",
+    // null follows the student's or teacher's default
+    reminder_offsets: null as number[] | null,
+    reminder_channels: ["WHATSAPP"] as string[],
+    repeat: "NONE",
+    weekdays: [] as string[],
+    end_type: "COUNT",
+    until_date: "",
+    occurrence_count: "10",
+    exdates: [] as string[],
   });
 
+  const selectedStudent = students.find((student) => student.id === formData.student_id);
+  const inheritedReminderOffsets = selectedStudent?.reminder_offsets ?? defaultReminderOffsets;
+  const reminderOffsets = formData.reminder_offsets ?? inheritedReminderOffsets;
+
+  const recurrenceRule: RecurrenceRule = useMemo(() => ({
+    frequency: formData.repeat === "DAILY" ? "DAILY" : formData.repeat === "MONTHLY" ? "MONTHLY" : "WEEKLY",
+    interval: formData.repeat === "BIWEEKLY" ? 2 : 1,
+    byWeekday: formData.weekdays.map(Number),
+  }), [formData.repeat, formData.weekdays]);
+
+  // Every occurrence the pattern generates, before exceptions are removed
+  const candidateOccurrences = useMemo(() => {
+    if (formData.repeat === "NONE" || !formData.scheduled_start_at || !formData.scheduled_end_at) return [];
+    const start = new Date(formData.scheduled_start_at);
+    const end = new Date(formData.scheduled_end_at);
+    if (end <= start) return [];
+    return expandOccurrences({
+      rule: recurrenceRule,
+      start,
+      durationMinutes: Math.round((end.getTime() - start.getTime()) / (1000 * 60)),
+      until: formData.end_type === "UNTIL" ? formData.until_date || null : null,
+      count: formData.end_type === "COUNT" ? parseInt(formData.occurrence_count, 10) || null : null,
+    });
+  }, [
+    formData.repeat,
+    formData.scheduled_start_at,
+    formData.scheduled_end_at,
+    formData.end_type,
+    formData.until_date,
+    formData.occurrence_count,
+    recurrenceRule,
+  ]);
+
+  const occurrences = useMemo(
+    () => candidateOccurrences.filter((o) => !formData.exdates.includes(o.date)),
+    [candidateOccurrences, formData.exdates]
+  );
+
   useEffect(() => {
     loadSessions();
     loadStudents();
   }, []);
 
+  useEffect(() => {
+    if (!user) return;
+    supabase
+      .from("profiles")
+      .select("reminder_offsets")
+      .eq("id", user.id)
+      .maybeSingle()
+      .then(({ data }) => setDefaultReminderOffsets(data?.reminder_offsets ?? []));
+  }, [user]);
+
   useEffect(() => {
     // reload sessions when filter changes
     loadSessions();
   }, [filterStudentId]);
 
+  useEffect(() => {
+    if (!highlightedSessionId) return;
+    document.getElementById(`session-${highlightedSessionId}`)?.scrollIntoView({ block: "center" });
+  }, [highlightedSessionId, sessions]);
+
   const loadSessions = async () => {
     let query = supabase
       .from("sessions")
@@ -72,6 +195,16 @@ const Sessions = () => {
         students (
           first_name,
           last_name
+        ),
+        session_series (
+          rrule
+        ),
+        ledger_entries (
+          id,
+          type
+        ),
+        reminder_jobs (
+          status
         )
       `)
       .order("scheduled_start_at", { ascending: false });
@@ -96,7 +229,7 @@ const Sessions = () => {
   const loadStudents = async () => {
     const { data, error } = await supabase
       .from("students")
-      .select("id, first_name, last_name, price_per_hour")
+      .select("id, first_name, last_name, price_per_hour, phone_e164, email, preferred_channel, reminder_offsets")
       .eq("is_active", true)
       .order("first_name");
 
@@ -115,245 +248,216 @@ const Sessions = () => {
     e.preventDefault();
     setIsScheduling(true);
     try {
+      // Validate that end time is after start time
+      if (formData.scheduled_start_at && formData.scheduled_end_at) {
+        const startTime = new Date(formData.scheduled_start_at);
+        const endTime = new Date(formData.scheduled_end_at);
 
-    // Validate that end time is after start time
-    if (formData.scheduled_start_at && formData.scheduled_end_at) {
-      const startTime = new Date(formData.scheduled_start_at);
-      const endTime = new Date(formData.scheduled_end_at);
-      
-      if (endTime <= startTime) {
-      toast({
-        title: t("sessions.invalidTimeRange"),
-        description: t("sessions.endTimeAfterStart"),
-        variant: "destructive",
-      });
+        if (endTime <= startTime) {
+          toast({
+            title: t("sessions.invalidTimeRange"),
+            description: t("sessions.endTimeAfterStart"),
+            variant: "destructive",
+          });
+          return;
+        }
+      }
+
+      const isSeries = formData.repeat !== "NONE";
+      if (isSeries && occurrences.length === 0) {
+        toast({
+          title: t("sessions.series.noOccurrences"),
+          variant: "destructive",
+        });
         return;
       }
-    }
 
-    // Check if user has Zoom integrated
-    const { data: { user } } = await supabase.auth.getUser();
-    let zoomData = null;
+      // Check if user has Zoom integrated
+      const zoomEnabled = user ? await hasZoomCredentials(user.id) : false;
 
-    if (user) {
-      const { data: profile } = await supabase
-        .from("profiles")
-        .select("zoom_api_key, zoom_api_secret, zoom_account_id")
-        .eq("id", user.id)
-        .single();
+      // Get student name for meeting topic
+      const selectedStudent = students.find(s => s.id === formData.student_id);
+      const topic = selectedStudent
+        ? `Tutoring Session - ${selectedStudent.first_name} ${selectedStudent.last_name}`
+        : "Tutoring Session";
 
-      if (profile?.zoom_api_key && profile?.zoom_api_secret && profile?.zoom_account_id) {
-        // Calculate duration in minutes
-        const startTime = new Date(formData.scheduled_start_at);
-        const endTime = new Date(formData.scheduled_end_at);
-        const durationMinutes = Math.round((endTime.getTime() - startTime.getTime()) / (1000 * 60));
-
-        // Get student name for meeting topic
-        const selectedStudent = students.find(s => s.id === formData.student_id);
-        const topic = selectedStudent 
-          ? `Tutoring Session - ${selectedStudent.first_name} ${selectedStudent.last_name}`
-          : "Tutoring Session";
-
-        try {
-          // Create Zoom meeting via Edge Function
-          const { data: zoomMeeting, error: zoomError } = await supabase.functions.invoke('create-zoom-meeting', {
-            body: {
-              start_time: formData.scheduled_start_at,
-              duration: durationMinutes,
-              topic: topic,
-            },
-          });
+      // Convert datetime-local values to Date objects (treating them as local time)
+      const startDate = new Date(formData.scheduled_start_at);
+      const endDate = new Date(formData.scheduled_end_at);
+      const slots = isSeries
+        ? occurrences.map((o) => ({ start: o.start, end: o.end }))
+        : [{ start: startDate, end: endDate }];
 
-          if (!zoomError && zoomMeeting) {
-            zoomData = {
-              zoom_meeting_id: zoomMeeting.id,
-              zoom_join_url: zoomMeeting.join_url,
-              zoom_start_url: zoomMeeting.start_url,
-            };
-          } else if (zoomError) {
-            toast({
-              title: "Session created",
-              description: zoomError.message || "Zoom meeting could not be created, but session was scheduled",
-              variant: "destructive",
-            });
-          }
-        } catch (error: any) {
+      // Warn before anything is created; the database rejects overlaps regardless,
+      // so a failed check just falls through to the insert
+      const conflicts = await findSessionConflicts(slots).catch(() => []);
+      if (conflicts.length > 0) {
+        const durationMinutes = Math.round((endDate.getTime() - startDate.getTime()) / (1000 * 60));
+        setConflictPrompt({
+          conflicts,
+          nextFreeSlot: isSeries ? null : await findNextFreeSlot(startDate, durationMinutes),
+          conflictingDates: isSeries
+            ? [...new Set(conflicts.map((c) => occurrences[c.slotIndex].date))]
+            : [],
+        });
+        return;
+      }
+
+      let seriesId: string | null = null;
+      if (isSeries) {
+        const { data: series, error: seriesError } = await supabase
+          .from("session_series")
+          .insert({
+            student_id: formData.student_id,
+            created_by: user?.id || null,
+            rrule: formatRRule(recurrenceRule),
+            dtstart: startDate.toISOString(),
+            duration_minutes: Math.round((endDate.getTime() - startDate.getTime()) / (1000 * 60)),
+            timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+            until_date: formData.end_type === "UNTIL" ? formData.until_date || null : null,
+            occurrence_count: formData.end_type === "COUNT" ? parseInt(formData.occurrence_count, 10) : null,
+            exdates: formData.exdates,
+            notes: formData.notes || null,
+          })
+          .select("id")
+          .single();
+
+        if (seriesError) {
           toast({
-            title: "Session created",
-            description: error.message || "Zoom meeting could not be created, but session was scheduled",
+            title: t("sessions.errorCreating"),
+            description: seriesError.message,
             variant: "destructive",
           });
-          // Continue without Zoom if it fails
+          return;
         }
+        seriesId = series.id;
       }
-    }
 
-    // Convert datetime-local values to ISO strings (treating them as local time)
-    // datetime-local gives "YYYY-MM-DDTHH:mm" format, which we need to convert to ISO with timezone
-    const startDate = new Date(formData.scheduled_start_at);
-    const endDate = new Date(formData.scheduled_end_at);
-    
-    // Insert session and return id for reminder job
-    const { data: insertedSession, error } = await supabase
-      .from("sessions")
-      .insert({
+      const rows: TablesInsert<"sessions">[] = slots.map((slot) => ({
         student_id: formData.student_id,
-        scheduled_start_at: startDate.toISOString(),
-        scheduled_end_at: endDate.toISOString(),
+        scheduled_start_at: slot.start.toISOString(),
+        scheduled_end_at: slot.end.toISOString(),
         notes: formData.notes || null,
         status: "SCHEDULED",
-        ...zoomData,
         created_by: user?.id || null,
-        whatsapp_reminder_options: formData.whatsapp_reminder_options,
-      })
-      .select("id")
-      .single();
+        reminder_offsets: formData.reminder_offsets,
+        reminder_channels: formData.reminder_channels,
+        series_id: seriesId,
+      }));
 
-    if (error) {
-      toast({
-        title: t("sessions.errorCreating"),
-        description: error.message,
-        variant: "destructive",
-      });
-    } else {
-      // Enqueue WhatsApp reminders based on selected options
-      if (insertedSession?.id) {
-        const startMs = new Date(formData.scheduled_start_at).getTime();
-        const opt = formData.whatsapp_reminder_options;
-        const offsets: number[] = [];
-        if (opt === '5') offsets.push(5);
-        if (opt === '15') offsets.push(15);
-        if (opt === '30') offsets.push(30);
-        if (opt === '30_5') offsets.push(30, 5);
-        const rows = offsets.map((mins) => ({
-          session_id: insertedSession.id,
-          scheduled_for: new Date(startMs - mins * 60 * 1000).toISOString(),
-          channel: 'WHATSAPP',
-          status: 'PENDING',
-        }));
-        if (rows.length > 0) {
-          await supabase.from('reminder_jobs').insert(rows);
-          await supabase.from('sessions').update({ whatsapp_notification_status: 'PENDING' }).eq('id', insertedSession.id);
+      // Reminder jobs are enqueued by a trigger on sessions
+      const { data: insertedSessions, error } = await supabase
+        .from("sessions")
+        .insert(rows)
+        .select("id, scheduled_start_at, scheduled_end_at");
+
+      if (error) {
+        if (seriesId) {
+          await supabase.from("session_series").delete().eq("id", seriesId);
+        }
+        toast({
+          title: error.code === SESSION_CONFLICT_ERROR_CODE ? t("sessions.conflicts.title") : t("sessions.errorCreating"),
+          description: error.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // Zoom meetings are only created once the sessions exist, so a rejected
+      // insert leaves none behind; continue without Zoom if one fails
+      let zoomFailure: string | null = null;
+      if (zoomEnabled) {
+        for (const session of insertedSessions) {
+          try {
+            const zoomData: SessionZoomData = await createSessionZoomMeeting(
+              new Date(session.scheduled_start_at),
+              new Date(session.scheduled_end_at),
+              topic
+            );
+            const { error: zoomSaveError } = await supabase.from("sessions").update(zoomData).eq("id", session.id);
+            if (zoomSaveError) throw new Error(zoomSaveError.message);
+          } catch (zoomError: unknown) {
+            zoomFailure =
+              zoomError instanceof Error
+                ? zoomError.message
+                : "Zoom meeting could not be created, but session was scheduled";
+            break;
+          }
         }
       }
 
-      toast({ 
-        title: t("sessions.sessionScheduled"),
-        description: zoomData ? t("sessions.zoomLinkCreated") : undefined,
+      toast({
+        title: isSeries
+          ? t("sessions.series.seriesCreated", { count: insertedSessions.length })
+          : t("sessions.sessionScheduled"),
+        description: zoomFailure ?? (zoomEnabled ? t("sessions.zoomLinkCreated") : undefined),
+        variant: zoomFailure ? "destructive" : "default",
       });
       setIsDialogOpen(false);
       resetForm();
       loadSessions();
-    }
     } finally {
       setIsScheduling(false);
     }
   };
 
-  const handleComplete = async (sessionId: string) => {
-    // First, get the session details
-    const session = sessions.find(s => s.id === sessionId);
-    if (!session) return;
-
-    const now = new Date().toISOString();
-    
-    // Check if ledger entry already exists for this session
-    const sessionDate = new Date(session.scheduled_start_at).toLocaleDateString();
-    const sessionReference = `Session ${sessionId} on ${sessionDate}`;
-    const { data: existingEntries } = await supabase
-      .from("ledger_entries")
-      .select("id")
-      .eq("student_id", session.student_id)
-      .eq("type", "SESSION_CHARGE")
-      .like("reference", `%Session ${sessionId}%`)
-      .limit(1);
-
-    // Update session status
-    const { error: sessionError } = await supabase
-      .from("sessions")
-      .update({
-        status: "COMPLETED",
-        actual_start_at: now,
-        actual_end_at: now,
-      })
-      .eq("id", sessionId);
-
-    if (sessionError) {
+  const handleCancel = async (sessionId: string, notifyStudent: boolean, applyChargePolicy: boolean) => {
+    try {
+      const { warnings } = await cancelSessions({ sessionId }, { notifyStudent, applyChargePolicy });
+      setCancelingSession(null);
       toast({
-        title: "Error completing session",
-        description: sessionError.message,
-        variant: "destructive",
+        title: t("sessions.cancelSession.canceled"),
+        description:
+          warnings.length > 0
+            ? t("sessions.cancelSession.canceledWithWarnings", { warnings: warnings.join(" ") })
+            : undefined,
+        variant: warnings.length > 0 ? "destructive" : "default",
       });
-      return;
-    }
-
-    // Only create ledger entry if it doesn't already exist
-    if (existingEntries && existingEntries.length > 0) {
-      toast({ title: "Session completed (ledger entry already exists)" });
       loadSessions();
-      return;
-    }
-
-    // Get student's price per hour
-    const student = students.find(s => s.id === session.student_id);
-    if (!student) {
+    } catch (error) {
       toast({
-        title: "Session completed",
-        description: "Could not create ledger entry - student not found",
+        title: t("sessions.cancelSession.error"),
+        description: error instanceof Error ? error.message : undefined,
         variant: "destructive",
       });
-      loadSessions();
-      return;
     }
+  };
 
-    // Calculate session duration in hours
-    const startTime = new Date(session.scheduled_start_at);
-    const endTime = new Date(session.scheduled_end_at);
-    const durationHours = (endTime.getTime() - startTime.getTime()) / (1000 * 60 * 60);
-    
-    // Create ledger entry (negative amount for charge)
-    const chargeAmount = -(durationHours * Number(student.price_per_hour));
-    
-    // Get current user for created_by field
-    const { data: { user } } = await supabase.auth.getUser();
-    
-    const { error: ledgerError } = await supabase
-      .from("ledger_entries")
-      .insert({
-        student_id: session.student_id,
-        type: "SESSION_CHARGE",
-        amount: chargeAmount,
-        reference: sessionReference,
-        created_by: user?.id || null,
-      });
+  const handleNoShow = async (sessionId: string) => {
+    if (!confirm(t("sessions.noShow.confirm"))) return;
+
+    const { data: ledgerEntryId, error } = await supabase.rpc("mark_session_no_show", {
+      p_session_id: sessionId,
+    });
 
-    if (ledgerError) {
+    if (error) {
       toast({
-        title: "Session completed but ledger entry failed",
-        description: ledgerError.message,
+        title: t("sessions.noShow.error"),
+        description: error.message,
         variant: "destructive",
       });
     } else {
-      toast({ title: "Session completed and charge added to ledger" });
+      toast({
+        title: t("sessions.noShow.marked"),
+        description: ledgerEntryId ? t("sessions.noShow.charged") : undefined,
+      });
+      loadSessions();
     }
-    
-    loadSessions();
   };
 
-  const handleCancel = async (sessionId: string) => {
-    const { error } = await supabase
-      .from("sessions")
-      .update({ status: "CANCELED" })
-      .eq("id", sessionId);
+  const handleRetryReminders = async (sessionId: string) => {
+    const { data: count, error } = await supabase.rpc("requeue_reminder_jobs", {
+      p_session_id: sessionId,
+    });
 
     if (error) {
       toast({
-        title: "Error canceling session",
+        title: t("sessions.reminders.retryError"),
         description: error.message,
         variant: "destructive",
       });
     } else {
-      toast({ title: "Session canceled" });
+      toast({ title: t("sessions.reminders.requeued", { count: count ?? 0 }) });
       loadSessions();
     }
   };
@@ -364,6 +468,92 @@ const Sessions = () => {
       scheduled_start_at: "",
       scheduled_end_at: "",
       notes: "",
+      reminder_offsets: null,
+      reminder_channels: ["WHATSAPP"],
+      repeat: "NONE",
+      weekdays: [],
+      end_type: "COUNT",
+      until_date: "",
+      occurrence_count: "10",
+      exdates: [],
+    });
+  };
+
+  const handleSlotClick = (start: Date, end: Date) => {
+    resetForm();
+    setFormData((prev) => ({
+      ...prev,
+      student_id: filterStudentId !== "ALL" ? filterStudentId : "",
+      scheduled_start_at: format(start, "yyyy-MM-dd'T'HH:mm"),
+      scheduled_end_at: format(end, "yyyy-MM-dd'T'HH:mm"),
+    }));
+    setIsDialogOpen(true);
+  };
+
+  const moveSession = async (session: Session, start: Date, end: Date, notifyStudent = false) => {
+    const conflicts = await findSessionConflicts([{ start, end }], session.id).catch(() => []);
+    if (conflicts.length > 0) {
+      const durationMinutes = Math.round((end.getTime() - start.getTime()) / (1000 * 60));
+      setConflictPrompt({
+        conflicts,
+        nextFreeSlot: await findNextFreeSlot(start, durationMinutes, session.id),
+        conflictingDates: [],
+        session,
+        notifyStudent,
+      });
+      return;
+    }
+
+    try {
+      const { zoomError, noticeError } = await rescheduleSession(session, start, end, { notifyStudent });
+      setReschedulingSession(null);
+      const warning = [zoomError, noticeError].filter(Boolean).join(" ");
+      toast({
+        title: t("sessions.reschedule.rescheduled"),
+        description: warning || undefined,
+        variant: warning ? "destructive" : "default",
+      });
+    } catch (error) {
+      toast({
+        title: t("sessions.reschedule.errorRescheduling"),
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    }
+    loadSessions();
+  };
+
+  const handleEventDrop = (calendarSession: CalendarSession, start: Date, end: Date) => {
+    const session = sessions.find((s) => s.id === calendarSession.id);
+    if (session) moveSession(session, start, end);
+  };
+
+  const handleUseNextFreeSlot = (slot: SessionSlot) => {
+    const session = conflictPrompt?.session;
+    const notifyStudent = conflictPrompt?.notifyStudent;
+    setConflictPrompt(null);
+    if (session) {
+      moveSession(session, slot.start, slot.end, notifyStudent);
+      return;
+    }
+    setFormData((prev) => ({
+      ...prev,
+      scheduled_start_at: format(slot.start, "yyyy-MM-dd'T'HH:mm"),
+      scheduled_end_at: format(slot.end, "yyyy-MM-dd'T'HH:mm"),
+    }));
+  };
+
+  const handleSkipConflictingDates = (dates: string[]) => {
+    setConflictPrompt(null);
+    setFormData((prev) => ({ ...prev, exdates: [...new Set([...prev.exdates, ...dates])] }));
+  };
+
+  const toggleExdate = (date: string, included: boolean) => {
+    setFormData({
+      ...formData,
+      exdates: included
+        ? formData.exdates.filter((d) => d !== date)
+        : [...formData.exdates, date],
     });
   };
 
@@ -380,6 +570,10 @@ const Sessions = () => {
     });
   };
 
+  const weekdayLabels = [0, 1, 2, 3, 4, 5, 6].map((day) =>
+    format(addDays(startOfWeek(new Date()), day), "EEE")
+  );
+
   const getStatusBadge = (status: string) => {
     const variants: Record<string, "default" | "secondary" | "destructive"> = {
       SCHEDULED: "default",
@@ -387,10 +581,23 @@ const Sessions = () => {
       CANCELED: "destructive",
       NO_SHOW: "destructive",
     };
-    const statusKey = status.toLowerCase();
+    const statusKey = status === "NO_SHOW" ? "noShow" : status.toLowerCase();
     return <Badge variant={variants[status] || "default"}>{t(`sessions.status.${statusKey}`)}</Badge>;
   };
 
+  // Delivery receipts come from the WhatsApp webhook
+  const getReminderStatus = (status: string | null | undefined) => {
+    if (status === "DELIVERED" || status === "READ") {
+      return (
+        <span className="flex items-center gap-1">
+          <CheckCheck className={`h-3 w-3 ${status === "READ" ? "text-blue-500" : "text-muted-foreground"}`} />
+          {t(`sessions.reminders.delivery.${status}`)}
+        </span>
+      );
+    }
+    return status || "NONE";
+  };
+
   return (
     <Layout>
       <div className="space-y-6">
@@ -409,7 +616,7 @@ const Sessions = () => {
                 {t("sessions.scheduleSession")}
               </Button>
             </DialogTrigger>
-            <DialogContent className="max-w-md">
+            <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
               <DialogHeader>
                 <DialogTitle>{t("sessions.newSession")}</DialogTitle>
               </DialogHeader>
@@ -418,7 +625,14 @@ const Sessions = () => {
                   <Label htmlFor="student_id">{t("sessions.student")}</Label>
                   <Select
                     value={formData.student_id}
-                    onValueChange={(value) => setFormData({ ...formData, student_id: value })}
+                    onValueChange={(value) => {
+                      const student = students.find((s) => s.id === value);
+                      setFormData({
+                        ...formData,
+                        student_id: value,
+                        reminder_channels: student ? [student.preferred_channel] : formData.reminder_channels,
+                      });
+                    }}
                     required
                   >
                     <SelectTrigger>
@@ -463,23 +677,166 @@ const Sessions = () => {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="wa_reminders">WhatsApp reminder</Label>
+                  <div className="flex items-center justify-between gap-2">
+                    <Label>{t("sessions.reminders.timing")}</Label>
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id="custom_reminders"
+                        checked={formData.reminder_offsets !== null}
+                        onCheckedChange={(checked) =>
+                          setFormData({ ...formData, reminder_offsets: checked === true ? inheritedReminderOffsets : null })
+                        }
+                      />
+                      <Label htmlFor="custom_reminders" className="font-normal text-sm">
+                        {t("sessions.reminders.customForSession")}
+                      </Label>
+                    </div>
+                  </div>
+                  <ReminderOffsetsInput
+                    value={reminderOffsets}
+                    onChange={(offsets) => setFormData({ ...formData, reminder_offsets: offsets })}
+                    disabled={formData.reminder_offsets === null}
+                  />
+                  {formData.reminder_offsets === null && (
+                    <p className="text-xs text-muted-foreground">
+                      {selectedStudent?.reminder_offsets
+                        ? t("sessions.reminders.fromStudent")
+                        : t("sessions.reminders.fromTeacher")}
+                    </p>
+                  )}
+                </div>
+                {reminderOffsets.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>{t("sessions.reminders.channels")}</Label>
+                    <ToggleGroup
+                      type="multiple"
+                      variant="outline"
+                      size="sm"
+                      className="justify-start"
+                      value={formData.reminder_channels}
+                      onValueChange={(value) => setFormData({ ...formData, reminder_channels: value })}
+                    >
+                      {REMINDER_CHANNELS.map((channel) => (
+                        <ToggleGroupItem key={channel} value={channel}>
+                          {t(`sessions.reminders.channel.${channel}`)}
+                        </ToggleGroupItem>
+                      ))}
+                    </ToggleGroup>
+                    {selectedStudent && formData.reminder_channels.includes("WHATSAPP") && !selectedStudent.phone_e164 && (
+                      <p className="text-xs text-destructive">{t("sessions.reminders.missingPhone")}</p>
+                    )}
+                    {selectedStudent && formData.reminder_channels.includes("EMAIL") && !selectedStudent.email && (
+                      <p className="text-xs text-destructive">{t("sessions.reminders.missingEmail")}</p>
+                    )}
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="repeat">{t("sessions.series.repeat")}</Label>
                   <Select
-                    value={formData.whatsapp_reminder_options}
-                    onValueChange={(value) => setFormData({ ...formData, whatsapp_reminder_options: value })}
+                    value={formData.repeat}
+                    onValueChange={(value) => setFormData({ ...formData, repeat: value, exdates: [] })}
                   >
-                    <SelectTrigger>
+                    <SelectTrigger id="repeat">
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="NONE">None</SelectItem>
-                      <SelectItem value="5">5 minutes before</SelectItem>
-                      <SelectItem value="15">15 minutes before</SelectItem>
-                      <SelectItem value="30">30 minutes before</SelectItem>
-                      <SelectItem value="30_5">30 and 5 minutes before</SelectItem>
+                      <SelectItem value="NONE">{t("sessions.series.doesNotRepeat")}</SelectItem>
+                      <SelectItem value="DAILY">{t("sessions.series.daily")}</SelectItem>
+                      <SelectItem value="WEEKLY">{t("sessions.series.weekly")}</SelectItem>
+                      <SelectItem value="BIWEEKLY">{t("sessions.series.biweekly")}</SelectItem>
+                      <SelectItem value="MONTHLY">{t("sessions.series.monthly")}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
+                {(formData.repeat === "WEEKLY" || formData.repeat === "BIWEEKLY") && (
+                  <div className="space-y-2">
+                    <Label>{t("sessions.series.repeatOn")}</Label>
+                    <ToggleGroup
+                      type="multiple"
+                      variant="outline"
+                      size="sm"
+                      className="justify-start flex-wrap"
+                      value={formData.weekdays}
+                      onValueChange={(value) => setFormData({ ...formData, weekdays: value, exdates: [] })}
+                    >
+                      {weekdayLabels.map((label, day) => (
+                        <ToggleGroupItem key={day} value={String(day)}>
+                          {label}
+                        </ToggleGroupItem>
+                      ))}
+                    </ToggleGroup>
+                  </div>
+                )}
+                {formData.repeat !== "NONE" && (
+                  <>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="end_type">{t("sessions.series.ends")}</Label>
+                        <Select
+                          value={formData.end_type}
+                          onValueChange={(value) => setFormData({ ...formData, end_type: value, exdates: [] })}
+                        >
+                          <SelectTrigger id="end_type">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="COUNT">{t("sessions.series.endsAfter")}</SelectItem>
+                            <SelectItem value="UNTIL">{t("sessions.series.endsOn")}</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        {formData.end_type === "COUNT" ? (
+                          <>
+                            <Label htmlFor="occurrence_count">{t("sessions.series.occurrences")}</Label>
+                            <Input
+                              id="occurrence_count"
+                              type="number"
+                              min="1"
+                              max={MAX_OCCURRENCES}
+                              value={formData.occurrence_count}
+                              onChange={(e) => setFormData({ ...formData, occurrence_count: e.target.value, exdates: [] })}
+                              required
+                            />
+                          </>
+                        ) : (
+                          <>
+                            <Label htmlFor="until_date">{t("sessions.series.untilDate")}</Label>
+                            <Input
+                              id="until_date"
+                              type="date"
+                              value={formData.until_date}
+                              onChange={(e) => setFormData({ ...formData, until_date: e.target.value, exdates: [] })}
+                              required
+                            />
+                          </>
+                        )}
+                      </div>
+                    </div>
+                    {candidateOccurrences.length > 0 && (
+                      <div className="space-y-2">
+                        <Label>
+                          {t("sessions.series.preview", { count: occurrences.length })}
+                        </Label>
+                        <p className="text-xs text-muted-foreground">{t("sessions.series.previewHint")}</p>
+                        <div className="max-h-40 overflow-y-auto rounded-md border p-2 space-y-1">
+                          {candidateOccurrences.map((occurrence) => (
+                            <label
+                              key={occurrence.date}
+                              className="flex items-center gap-2 text-sm cursor-pointer"
+                            >
+                              <Checkbox
+                                checked={!formData.exdates.includes(occurrence.date)}
+                                onCheckedChange={(checked) => toggleExdate(occurrence.date, checked === true)}
+                              />
+                              {formatLocalDateTime(occurrence.start.toISOString())}
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                  </>
+                )}
                 <div className="flex gap-2">
                   <Button type="submit" className="flex-1" disabled={isScheduling}>
                     {isScheduling ? t("sessions.scheduling") : t("sessions.schedule")}
@@ -527,117 +884,269 @@ const Sessions = () => {
             </div>
           </CardHeader>
           <CardContent>
-            <div className="overflow-x-auto">
-              <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>{t("sessions.student")}</TableHead>
-                  <TableHead>{t("sessions.startTime")}</TableHead>
-                  <TableHead>{t("sessions.endTime")}</TableHead>
-                  <TableHead>{t("common.status")}</TableHead>
-                  <TableHead>WhatsApp</TableHead>
-                  <TableHead>{t("sessions.zoomLink")}</TableHead>
-                  <TableHead>{t("common.notes")}</TableHead>
-                  <TableHead className="text-right">{t("common.actions")}</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {sessions.map((session) => (
-                  <TableRow key={session.id}>
-                    <TableCell className="font-medium">
-                      {session.students.first_name} {session.students.last_name}
-                    </TableCell>
-                    <TableCell>
-                      {formatLocalDateTime(session.scheduled_start_at)}
-                    </TableCell>
-                    <TableCell>
-                      {formatLocalDateTime(session.scheduled_end_at)}
-                    </TableCell>
-                    <TableCell>{getStatusBadge(session.status)}</TableCell>
-                    <TableCell>
-                      {session.whatsapp_notification_status || 'NONE'}
-                    </TableCell>
-                    <TableCell>
-                      {session.zoom_join_url ? (
-                        <div className="flex items-center gap-2">
-                          <a
-                            href={session.zoom_join_url}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="text-primary hover:underline text-sm"
-                          >
-                            {t("common.joinMeeting")}
-                          </a>
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            className="h-6 w-6"
-                            onClick={async () => {
-                              try {
-                                await navigator.clipboard.writeText(session.zoom_join_url!);
-                                setCopiedLink(session.id);
-                                toast({
-                                  title: t("sessions.linkCopied"),
-                                  description: t("sessions.linkCopiedDescription"),
-                                });
-                                setTimeout(() => setCopiedLink(null), 2000);
-                              } catch (err) {
-                                toast({
-                                  title: t("sessions.copyFailed"),
-                                  description: t("sessions.copyFailedDescription"),
-                                  variant: "destructive",
-                                });
-                              }
-                            }}
-                          >
-                            {copiedLink === session.id ? (
-                              <Check className="h-3 w-3 text-green-600" />
-                            ) : (
-                              <Copy className="h-3 w-3" />
+            <Tabs defaultValue="table">
+              <TabsList className="mb-4">
+                <TabsTrigger value="table" className="gap-2">
+                  <List className="h-4 w-4" />
+                  {t("sessions.calendar.tableView")}
+                </TabsTrigger>
+                <TabsTrigger value="calendar" className="gap-2">
+                  <CalendarDays className="h-4 w-4" />
+                  {t("sessions.calendar.calendarView")}
+                </TabsTrigger>
+              </TabsList>
+              <TabsContent value="table">
+                <div className="overflow-x-auto">
+                  <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t("sessions.student")}</TableHead>
+                      <TableHead>{t("sessions.startTime")}</TableHead>
+                      <TableHead>{t("sessions.endTime")}</TableHead>
+                      <TableHead>{t("common.status")}</TableHead>
+                      <TableHead>{t("sessions.reminders.column")}</TableHead>
+                      <TableHead>{t("sessions.zoomLink")}</TableHead>
+                      <TableHead>{t("common.notes")}</TableHead>
+                      <TableHead className="text-right">{t("common.actions")}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {sessions.map((session) => (
+                      <TableRow
+                        key={session.id}
+                        id={`session-${session.id}`}
+                        className={session.id === highlightedSessionId ? "bg-muted" : undefined}
+                      >
+                        <TableCell className="font-medium">
+                          <div className="flex items-center gap-2">
+                            {session.students.first_name} {session.students.last_name}
+                            {session.session_series && (
+                              <span title={describeRRule(session.session_series.rrule)}>
+                                <Repeat className="h-3 w-3 text-muted-foreground" />
+                              </span>
                             )}
-                          </Button>
-                        </div>
-                      ) : (
-                        <span className="text-muted-foreground text-sm">-</span>
-                      )}
-                    </TableCell>
-                    <TableCell className="max-w-xs truncate">
-                      {session.notes || "-"}
-                    </TableCell>
-                    <TableCell className="text-right">
-                      {session.status === "SCHEDULED" && (
-                        <div className="flex justify-end gap-2">
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleComplete(session.id)}
-                          >
-                            <CheckCircle className="h-4 w-4 text-success" />
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleCancel(session.id)}
-                          >
-                            <XCircle className="h-4 w-4 text-destructive" />
-                          </Button>
-                        </div>
-                      )}
-                    </TableCell>
-                  </TableRow>
-                ))}
-                {sessions.length === 0 && (
-                  <TableRow>
-                    <TableCell colSpan={7} className="text-center text-muted-foreground">
-                      {t("sessions.noSessions")}
-                    </TableCell>
-                  </TableRow>
-                )}
-              </TableBody>
-            </Table>
-            </div>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {formatLocalDateTime(session.scheduled_start_at)}
+                        </TableCell>
+                        <TableCell>
+                          {formatLocalDateTime(session.scheduled_end_at)}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            {getStatusBadge(session.status)}
+                            {session.confirmation_status && (
+                              <Badge variant={session.confirmation_status === "CONFIRMED" ? "outline" : "destructive"}>
+                                {t(`sessions.confirmation.${session.confirmation_status}`)}
+                              </Badge>
+                            )}
+                            {session.ledger_entries
+                              ?.filter((entry) => entry.type === "SESSION_CHARGE")
+                              .map((entry) => (
+                                <Link
+                                  key={entry.id}
+                                  to={`/ledger?entry=${entry.id}`}
+                                  title={t("sessions.viewCharge")}
+                                  className="text-muted-foreground hover:text-primary"
+                                >
+                                  <Receipt className="h-4 w-4" />
+                                </Link>
+                              ))}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-1">
+                            {getReminderStatus(session.whatsapp_notification_status)}
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-6 w-6"
+                              title={t("sessions.reminders.history")}
+                              onClick={() => setReminderHistorySession(session)}
+                            >
+                              <History className="h-3 w-3" />
+                            </Button>
+                            {session.status === "SCHEDULED" &&
+                              session.reminder_jobs?.some((job) => job.status === "FAILED" || job.status === "DEAD") && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-6 w-6"
+                                  title={t("sessions.reminders.retry")}
+                                  onClick={() => handleRetryReminders(session.id)}
+                                >
+                                  <RotateCcw className="h-3 w-3" />
+                                </Button>
+                              )}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {session.zoom_join_url ? (
+                            <div className="flex items-center gap-2">
+                              <a
+                                href={session.zoom_join_url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-primary hover:underline text-sm"
+                              >
+                                {t("common.joinMeeting")}
+                              </a>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-6 w-6"
+                                onClick={async () => {
+                                  try {
+                                    await navigator.clipboard.writeText(session.zoom_join_url!);
+                                    setCopiedLink(session.id);
+                                    toast({
+                                      title: t("sessions.linkCopied"),
+                                      description: t("sessions.linkCopiedDescription"),
+                                    });
+                                    setTimeout(() => setCopiedLink(null), 2000);
+                                  } catch (err) {
+                                    toast({
+                                      title: t("sessions.copyFailed"),
+                                      description: t("sessions.copyFailedDescription"),
+                                      variant: "destructive",
+                                    });
+                                  }
+                                }}
+                              >
+                                {copiedLink === session.id ? (
+                                  <Check className="h-3 w-3 text-green-600" />
+                                ) : (
+                                  <Copy className="h-3 w-3" />
+                                )}
+                              </Button>
+                            </div>
+                          ) : (
+                            <span className="text-muted-foreground text-sm">-</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="max-w-xs truncate">
+                          {session.notes || "-"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {session.status === "SCHEDULED" && (
+                            <div className="flex justify-end gap-2">
+                              {can("chargeSessions") && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => setCompletingSession(session)}
+                                >
+                                  <CheckCircle className="h-4 w-4 text-success" />
+                                </Button>
+                              )}
+                              {can("chargeSessions") && new Date(session.scheduled_start_at) <= new Date() && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  title={t("sessions.noShow.action")}
+                                  onClick={() => handleNoShow(session.id)}
+                                >
+                                  <UserX className="h-4 w-4 text-warning" />
+                                </Button>
+                              )}
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title={t("sessions.reschedule.title")}
+                                onClick={() => setReschedulingSession(session)}
+                              >
+                                <CalendarClock className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setCancelingSession(session)}
+                              >
+                                <XCircle className="h-4 w-4 text-destructive" />
+                              </Button>
+                              {session.series_id && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  title={t("sessions.series.editSeries")}
+                                  onClick={() => setEditingSeriesSession(session)}
+                                >
+                                  <Repeat className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                    {sessions.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center text-muted-foreground">
+                          {t("sessions.noSessions")}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+                </div>
+              </TabsContent>
+              <TabsContent value="calendar">
+                <SessionCalendar
+                  sessions={sessions}
+                  onSlotClick={handleSlotClick}
+                  onEventDrop={handleEventDrop}
+                />
+              </TabsContent>
+            </Tabs>
           </CardContent>
         </Card>
+
+        <CompleteSessionDialog
+          session={completingSession}
+          onOpenChange={(open) => !open && setCompletingSession(null)}
+          onCompleted={loadSessions}
+        />
+
+        <ReminderHistorySheet
+          session={reminderHistorySession}
+          onOpenChange={(open) => !open && setReminderHistorySession(null)}
+          onChanged={loadSessions}
+        />
+
+        <CancelSessionDialog
+          session={cancelingSession}
+          onOpenChange={(open) => !open && setCancelingSession(null)}
+          canCharge={can("chargeSessions")}
+          onConfirm={(notifyStudent, applyChargePolicy) =>
+            cancelingSession
+              ? handleCancel(cancelingSession.id, notifyStudent, applyChargePolicy)
+              : Promise.resolve()
+          }
+        />
+
+        <RescheduleDialog
+          session={reschedulingSession}
+          onOpenChange={(open) => !open && setReschedulingSession(null)}
+          onSubmit={(start, end, notifyStudent) =>
+            reschedulingSession ? moveSession(reschedulingSession, start, end, notifyStudent) : Promise.resolve()
+          }
+        />
+
+        <SessionConflictDialog
+          prompt={conflictPrompt}
+          onOpenChange={(open) => !open && setConflictPrompt(null)}
+          onUseNextFreeSlot={handleUseNextFreeSlot}
+          onSkipConflictingDates={handleSkipConflictingDates}
+        />
+
+        <SeriesEditDialog
+          session={editingSeriesSession}
+          onOpenChange={(open) => {
+            if (!open) setEditingSeriesSession(null);
+          }}
+          onUpdated={loadSessions}
+        />
       </div>
     </Layout>
   );
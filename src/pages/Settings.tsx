@@ -10,9 +10,16 @@ import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Separator } from "@/components/ui/separator";
 import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
 import { useToast } from "@/hooks/use-toast";
-import { useNavigate } from "react-router-dom";
-import { LogOut, User, Globe, Video, MessageCircle, Settings as SettingsIcon } from "lucide-react";
+import { useRole } from "@/hooks/use-role";
+import OrganizationSettings from "@/components/organization/OrganizationSettings";
+import TwoFactorSettings from "@/components/auth/TwoFactorSettings";
+import ReminderSettings from "@/components/reminders/ReminderSettings";
+import { TEMPLATE_PLACEHOLDERS } from "@/utils/templates";
+import MessageTemplateSettings from "@/components/reminders/MessageTemplateSettings";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { LogOut, User, Globe, Video, MessageCircle, Settings as SettingsIcon, ShieldAlert } from "lucide-react";
 
 interface Profile {
   id: string;
@@ -24,12 +31,22 @@ interface Profile {
   zoom_account_id: string | null;
   whatsapp_phone_number_id: string | null;
   whatsapp_token: string | null;
+  whatsapp_template_name: string | null;
+  whatsapp_template_language: string | null;
+  whatsapp_template_params: string[];
+  whatsapp_template_quick_replies: boolean;
+  late_cancel_window_hours: number;
+  late_cancel_charge_percent: number;
+  no_show_charge_percent: number;
+  billing_rule: Database["public"]["Enums"]["billing_rule"];
 }
 
 const Settings = () => {
   const { t, i18n } = useTranslation();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const { toast } = useToast();
+  const { role, can } = useRole();
   const [loading, setLoading] = useState(false);
   const [profile, setProfile] = useState<Profile | null>(null);
   const [formData, setFormData] = useState({
@@ -41,6 +58,14 @@ const Settings = () => {
     zoom_account_id: "",
     whatsapp_phone_number_id: "",
     whatsapp_token: "",
+    whatsapp_template_name: "",
+    whatsapp_template_language: "",
+    whatsapp_template_params: "",
+    whatsapp_template_quick_replies: false,
+    late_cancel_window_hours: "24",
+    late_cancel_charge_percent: "0",
+    no_show_charge_percent: "0",
+    billing_rule: "SCHEDULED" as Database["public"]["Enums"]["billing_rule"],
   });
   const [zoomEnabled, setZoomEnabled] = useState(false);
   const [whatsappEnabled, setWhatsappEnabled] = useState(false);
@@ -82,6 +107,14 @@ const Settings = () => {
         zoom_account_id: data.zoom_account_id || "",
         whatsapp_phone_number_id: data.whatsapp_phone_number_id || "",
         whatsapp_token: data.whatsapp_token || "",
+        whatsapp_template_name: data.whatsapp_template_name || "",
+        whatsapp_template_language: data.whatsapp_template_language || "",
+        whatsapp_template_params: (data.whatsapp_template_params || []).join(", "),
+        whatsapp_template_quick_replies: data.whatsapp_template_quick_replies ?? false,
+        late_cancel_window_hours: String(data.late_cancel_window_hours ?? 24),
+        late_cancel_charge_percent: String(data.late_cancel_charge_percent ?? 0),
+        no_show_charge_percent: String(data.no_show_charge_percent ?? 0),
+        billing_rule: data.billing_rule || "SCHEDULED",
       });
       if (data.language) {
         i18n.changeLanguage(data.language);
@@ -228,6 +261,22 @@ const Settings = () => {
   };
 
   const handleWhatsappSave = async () => {
+    const templateParams = formData.whatsapp_template_params
+      .split(",")
+      .map((param) => param.trim())
+      .filter(Boolean);
+    const unknownParams = templateParams.filter(
+      (param) => !(TEMPLATE_PLACEHOLDERS as readonly string[]).includes(param)
+    );
+    if (unknownParams.length > 0) {
+      toast({
+        title: "Unknown template parameters",
+        description: `Use only ${TEMPLATE_PLACEHOLDERS.join(", ")}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     setLoading(true);
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) return;
@@ -237,6 +286,10 @@ const Settings = () => {
       .update({
         whatsapp_phone_number_id: formData.whatsapp_phone_number_id || null,
         whatsapp_token: formData.whatsapp_token || null,
+        whatsapp_template_name: formData.whatsapp_template_name.trim() || null,
+        whatsapp_template_language: formData.whatsapp_template_language.trim() || null,
+        whatsapp_template_params: templateParams,
+        whatsapp_template_quick_replies: formData.whatsapp_template_quick_replies,
       })
       .eq("id", user.id);
 
@@ -258,11 +311,57 @@ const Settings = () => {
     setLoading(false);
   };
 
+  const handlePolicySave = async () => {
+    const windowHours = parseInt(formData.late_cancel_window_hours, 10);
+    const lateCancelPercent = parseFloat(formData.late_cancel_charge_percent);
+    const noShowPercent = parseFloat(formData.no_show_charge_percent);
+    const isPercent = (value: number) => !isNaN(value) && value >= 0 && value <= 100;
+
+    if (isNaN(windowHours) || windowHours < 0 || !isPercent(lateCancelPercent) || !isPercent(noShowPercent)) {
+      toast({
+        title: t("settings.policy.invalid"),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLoading(true);
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const { error } = await supabase
+      .from("profiles")
+      .update({
+        late_cancel_window_hours: windowHours,
+        late_cancel_charge_percent: lateCancelPercent,
+        no_show_charge_percent: noShowPercent,
+        billing_rule: formData.billing_rule,
+      })
+      .eq("id", user.id);
+
+    if (error) {
+      toast({
+        title: t("settings.policy.errorSaving"),
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      toast({ title: t("settings.policy.saved") });
+      loadProfile();
+    }
+    setLoading(false);
+  };
+
   const handleSignOut = async () => {
     await supabase.auth.signOut();
     navigate("/auth");
   };
 
+  // Assistants work under their teacher's account and never join an organization directly
+  const showOrganization = role !== "assistant";
+  const tabCount = 5 + (can("manageBillingSettings") ? 1 : 0) + (showOrganization ? 1 : 0);
+  const tabColumns = { 5: "grid-cols-5", 6: "grid-cols-6", 7: "grid-cols-7" }[tabCount];
+
   return (
     <Layout>
       <div className="space-y-6">
@@ -274,10 +373,14 @@ const Settings = () => {
           <p className="text-muted-foreground mt-2">Manage your account settings and preferences</p>
         </div>
 
-        <Tabs defaultValue="profile" className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+        <Tabs defaultValue={searchParams.get("tab") ?? "profile"} className="w-full">
+          <TabsList className={`grid w-full ${tabColumns}`}>
             <TabsTrigger value="profile">Profile</TabsTrigger>
             <TabsTrigger value="language">Language</TabsTrigger>
+            {can("manageBillingSettings") && <TabsTrigger value="policies">Policies</TabsTrigger>}
+            {showOrganization && <TabsTrigger value="organization">Organization</TabsTrigger>}
+            <TabsTrigger value="security">Security</TabsTrigger>
+            <TabsTrigger value="reminders">Reminders</TabsTrigger>
             <TabsTrigger value="integrations">Integrations</TabsTrigger>
           </TabsList>
 
@@ -353,6 +456,95 @@ const Settings = () => {
             </Card>
           </TabsContent>
 
+          <TabsContent value="policies" className="space-y-4 mt-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ShieldAlert className="h-5 w-5" />
+                  {t("settings.policy.title")}
+                </CardTitle>
+                <CardDescription>{t("settings.policy.description")}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="late_cancel_window_hours">{t("settings.policy.lateCancelWindow")}</Label>
+                    <Input
+                      id="late_cancel_window_hours"
+                      type="number"
+                      min="0"
+                      value={formData.late_cancel_window_hours}
+                      onChange={(e) => setFormData({ ...formData, late_cancel_window_hours: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="late_cancel_charge_percent">{t("settings.policy.lateCancelCharge")}</Label>
+                    <Input
+                      id="late_cancel_charge_percent"
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.01"
+                      value={formData.late_cancel_charge_percent}
+                      onChange={(e) => setFormData({ ...formData, late_cancel_charge_percent: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="no_show_charge_percent">{t("settings.policy.noShowCharge")}</Label>
+                  <Input
+                    id="no_show_charge_percent"
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.01"
+                    value={formData.no_show_charge_percent}
+                    onChange={(e) => setFormData({ ...formData, no_show_charge_percent: e.target.value })}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">{t("settings.policy.overrideHint")}</p>
+                <Separator />
+                <div className="space-y-2">
+                  <Label htmlFor="billing_rule">{t("settings.policy.billingRule")}</Label>
+                  <Select
+                    value={formData.billing_rule}
+                    onValueChange={(value) =>
+                      setFormData({ ...formData, billing_rule: value as Database["public"]["Enums"]["billing_rule"] })
+                    }
+                  >
+                    <SelectTrigger id="billing_rule">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="SCHEDULED">{t("settings.policy.billingScheduled")}</SelectItem>
+                      <SelectItem value="ACTUAL">{t("settings.policy.billingActual")}</SelectItem>
+                      <SelectItem value="ACTUAL_ROUND_15">{t("settings.policy.billingRound15")}</SelectItem>
+                      <SelectItem value="ACTUAL_ROUND_30">{t("settings.policy.billingRound30")}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button onClick={handlePolicySave} disabled={loading}>
+                  {t("common.save")}
+                </Button>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {showOrganization && (
+            <TabsContent value="organization" className="space-y-4 mt-6">
+              <OrganizationSettings />
+            </TabsContent>
+          )}
+
+          <TabsContent value="security" className="space-y-4 mt-6">
+            <TwoFactorSettings />
+          </TabsContent>
+
+          <TabsContent value="reminders" className="space-y-4 mt-6">
+            <ReminderSettings />
+            {can("manageReminders") && <MessageTemplateSettings />}
+          </TabsContent>
+
           <TabsContent value="integrations" className="space-y-4 mt-6">
             <div className="space-y-4">
               {/* Zoom Integration Card */}
@@ -472,6 +664,63 @@ const Settings = () => {
                         Generate a permanent token in Meta Business → WhatsApp Manager
                       </p>
                     </div>
+                    <Separator />
+                    <div className="space-y-1">
+                      <p className="text-sm font-medium">Approved Reminder Template</p>
+                      <p className="text-xs text-muted-foreground">
+                        WhatsApp only delivers plain text within 24 hours of the student's last message. Other
+                        reminders are sent with this template.
+                      </p>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="whatsapp_template_name">Template Name</Label>
+                        <Input
+                          id="whatsapp_template_name"
+                          value={formData.whatsapp_template_name}
+                          onChange={(e) => setFormData({ ...formData, whatsapp_template_name: e.target.value })}
+                          placeholder="e.g. session_reminder"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="whatsapp_template_language">Template Language</Label>
+                        <Input
+                          id="whatsapp_template_language"
+                          value={formData.whatsapp_template_language}
+                          onChange={(e) => setFormData({ ...formData, whatsapp_template_language: e.target.value })}
+                          placeholder="e.g. en_US"
+                        />
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="whatsapp_template_params">Template Parameters</Label>
+                      <Input
+                        id="whatsapp_template_params"
+                        value={formData.whatsapp_template_params}
+                        onChange={(e) => setFormData({ ...formData, whatsapp_template_params: e.target.value })}
+                        placeholder="student_name, start_time, zoom_link"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Fill the template's {"{{1}}"}, {"{{2}}"}, ... in order from {TEMPLATE_PLACEHOLDERS.join(", ")}.
+                        Without a language, the student's reminder language is used.
+                      </p>
+                    </div>
+                    <div className="flex items-center justify-between gap-4">
+                      <div className="space-y-1">
+                        <Label htmlFor="whatsapp_template_quick_replies">Template Has Reply Buttons</Label>
+                        <p className="text-xs text-muted-foreground">
+                          Turn on if the template was approved with two quick-reply buttons: Confirm, then Need to
+                          reschedule. Plain-text reminders always include them.
+                        </p>
+                      </div>
+                      <Switch
+                        id="whatsapp_template_quick_replies"
+                        checked={formData.whatsapp_template_quick_replies}
+                        onCheckedChange={(checked) =>
+                          setFormData({ ...formData, whatsapp_template_quick_replies: checked })
+                        }
+                      />
+                    </div>
                     <Button onClick={handleWhatsappSave} disabled={loading}>
                       Save WhatsApp Credentials
                     </Button>
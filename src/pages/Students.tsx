@@ -7,19 +7,32 @@ import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useRole } from "@/hooks/use-role";
+import ReminderOffsetsInput from "@/components/sessions/ReminderOffsetsInput";
+import { isValidTimezone } from "@/utils/templates";
 import { Plus, Pencil, Trash2, DollarSign, Phone, Calendar } from "lucide-react";
 
+const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
 interface Student {
   id: string;
   first_name: string;
   last_name: string;
   email: string;
   phone_e164: string;
+  preferred_channel: string;
+  reminder_offsets: number[] | null;
+  language: string;
+  timezone: string;
   country: string;
   price_per_hour: number;
   is_active: boolean;
+  late_cancel_window_hours: number | null;
+  late_cancel_charge_percent: number | null;
+  no_show_charge_percent: number | null;
   balance?: number;
   sessionsCount?: number;
 }
@@ -29,15 +42,23 @@ const Students = () => {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingStudent, setEditingStudent] = useState<Student | null>(null);
   const { toast } = useToast();
+  const { can } = useRole();
 
   const [formData, setFormData] = useState({
     first_name: "",
     last_name: "",
     email: "",
     phone_e164: "",
+    preferred_channel: "WHATSAPP",
+    reminder_offsets: null as number[] | null,
+    language: "en",
+    timezone: browserTimezone,
     country: "",
     price_per_hour: "",
     is_active: true,
+    late_cancel_window_hours: "",
+    late_cancel_charge_percent: "",
+    no_show_charge_percent: "",
   });
 
   useEffect(() => {
@@ -103,10 +124,29 @@ const Students = () => {
       return;
     }
 
-    if (!formData.phone_e164.trim()) {
+    // Reminders need a way to reach the student on their preferred channel
+    if (formData.preferred_channel === "WHATSAPP" && !formData.phone_e164.trim()) {
       toast({
         title: "Validation Error",
-        description: "Phone number is required",
+        description: "Phone number is required for WhatsApp reminders",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (formData.preferred_channel === "EMAIL" && !formData.email.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Email is required for email reminders",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!isValidTimezone(formData.timezone.trim())) {
+      toast({
+        title: "Validation Error",
+        description: "Timezone must be an IANA name such as Europe/Paris",
         variant: "destructive",
       });
       return;
@@ -125,16 +165,30 @@ const Students = () => {
       first_name: formData.first_name.trim(),
       last_name: formData.last_name.trim(),
       email: formData.email?.trim() || null,
-      phone_e164: formData.phone_e164.trim(),
+      phone_e164: formData.phone_e164.trim() || null,
+      preferred_channel: formData.preferred_channel,
+      // null follows the teacher's default reminders from Settings
+      reminder_offsets: formData.reminder_offsets,
+      // Reminders are written in this language and show times in this timezone
+      language: formData.language,
+      timezone: formData.timezone.trim(),
       country: formData.country?.trim() || null,
       price_per_hour: parseFloat(formData.price_per_hour),
       is_active: formData.is_active,
+      // Empty policy fields fall back to the teacher's policy in Settings
+      late_cancel_window_hours: formData.late_cancel_window_hours === "" ? null : parseInt(formData.late_cancel_window_hours, 10),
+      late_cancel_charge_percent: formData.late_cancel_charge_percent === "" ? null : parseFloat(formData.late_cancel_charge_percent),
+      no_show_charge_percent: formData.no_show_charge_percent === "" ? null : parseFloat(formData.no_show_charge_percent),
     };
 
     if (editingStudent) {
+      // Rates and charge policies can only be changed by the teacher
+      const { price_per_hour, late_cancel_window_hours, late_cancel_charge_percent, no_show_charge_percent, ...contactData } = studentData;
       const { error } = await supabase
         .from("students")
-        .update(studentData)
+        .update(can("editRates")
+          ? { ...contactData, price_per_hour, late_cancel_window_hours, late_cancel_charge_percent, no_show_charge_percent }
+          : contactData)
         .eq("id", editingStudent.id);
 
       if (error) {
@@ -150,7 +204,11 @@ const Students = () => {
         loadStudents();
       }
     } else {
-      const { error } = await supabase.from("students").insert(studentData);
+      // Students are only visible to the teacher who owns them
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await supabase
+        .from("students")
+        .insert({ ...studentData, owner_id: user?.id || null });
 
       if (error) {
         toast({
@@ -174,9 +232,16 @@ const Students = () => {
       last_name: student.last_name,
       email: student.email || "",
       phone_e164: student.phone_e164 || "",
+      preferred_channel: student.preferred_channel,
+      reminder_offsets: student.reminder_offsets,
+      language: student.language,
+      timezone: student.timezone,
       country: student.country || "",
       price_per_hour: student.price_per_hour.toString(),
       is_active: student.is_active,
+      late_cancel_window_hours: student.late_cancel_window_hours?.toString() ?? "",
+      late_cancel_charge_percent: student.late_cancel_charge_percent?.toString() ?? "",
+      no_show_charge_percent: student.no_show_charge_percent?.toString() ?? "",
     });
     setIsDialogOpen(true);
   };
@@ -226,9 +291,16 @@ const Students = () => {
       last_name: "",
       email: "",
       phone_e164: "",
+      preferred_channel: "WHATSAPP",
+      reminder_offsets: null,
+      language: "en",
+      timezone: browserTimezone,
       country: "",
       price_per_hour: "",
       is_active: true,
+      late_cancel_window_hours: "",
+      late_cancel_charge_percent: "",
+      no_show_charge_percent: "",
     });
     setEditingStudent(null);
   };
@@ -245,12 +317,14 @@ const Students = () => {
             setIsDialogOpen(open);
             if (!open) resetForm();
           }}>
-            <DialogTrigger asChild>
-              <Button>
-                <Plus className="mr-2 h-4 w-4" />
-                Add Student
-              </Button>
-            </DialogTrigger>
+            {can("manageStudents") && (
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Student
+                </Button>
+              </DialogTrigger>
+            )}
             <DialogContent className="max-w-md">
               <DialogHeader>
                 <DialogTitle>
@@ -279,22 +353,88 @@ const Students = () => {
                   </div>
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="phone_e164">Phone (E.164 format) *</Label>
+                  <Label htmlFor="preferred_channel">Reminder Channel</Label>
+                  <Select
+                    value={formData.preferred_channel}
+                    onValueChange={(value) => setFormData({ ...formData, preferred_channel: value })}
+                  >
+                    <SelectTrigger id="preferred_channel">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="WHATSAPP">WhatsApp</SelectItem>
+                      <SelectItem value="EMAIL">Email</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="language">Reminder Language</Label>
+                    <Select
+                      value={formData.language}
+                      onValueChange={(value) => setFormData({ ...formData, language: value })}
+                    >
+                      <SelectTrigger id="language">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="en">English</SelectItem>
+                        <SelectItem value="ar">العربية</SelectItem>
+                        <SelectItem value="fr">Français</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="timezone">Timezone</Label>
+                    <Input
+                      id="timezone"
+                      placeholder="Europe/Paris"
+                      value={formData.timezone}
+                      onChange={(e) => setFormData({ ...formData, timezone: e.target.value })}
+                      required
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="custom_reminders">Custom Reminder Times</Label>
+                    <Switch
+                      id="custom_reminders"
+                      checked={formData.reminder_offsets !== null}
+                      onCheckedChange={(checked) => setFormData({ ...formData, reminder_offsets: checked ? [] : null })}
+                    />
+                  </div>
+                  {formData.reminder_offsets === null ? (
+                    <p className="text-xs text-muted-foreground">Uses your default reminder times from Settings</p>
+                  ) : (
+                    <ReminderOffsetsInput
+                      value={formData.reminder_offsets}
+                      onChange={(offsets) => setFormData({ ...formData, reminder_offsets: offsets })}
+                    />
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="phone_e164">
+                    Phone (E.164 format) {formData.preferred_channel === "WHATSAPP" ? "*" : "(Optional)"}
+                  </Label>
                   <Input
                     id="phone_e164"
                     placeholder="+1234567890"
                     value={formData.phone_e164}
                     onChange={(e) => setFormData({ ...formData, phone_e164: e.target.value })}
-                    required
+                    required={formData.preferred_channel === "WHATSAPP"}
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="email">Email (Optional)</Label>
+                  <Label htmlFor="email">
+                    Email {formData.preferred_channel === "EMAIL" ? "*" : "(Optional)"}
+                  </Label>
                   <Input
                     id="email"
                     type="email"
                     value={formData.email}
                     onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                    required={formData.preferred_channel === "EMAIL"}
                   />
                 </div>
                 <div className="space-y-2">
@@ -314,9 +454,52 @@ const Students = () => {
                     min="0"
                     value={formData.price_per_hour}
                     onChange={(e) => setFormData({ ...formData, price_per_hour: e.target.value })}
+                    disabled={!can("editRates")}
                     required
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label>Cancellation Policy Override (Optional)</Label>
+                  <div className="grid grid-cols-3 gap-2">
+                    <Input
+                      id="late_cancel_window_hours"
+                      type="number"
+                      min="0"
+                      placeholder="Window (h)"
+                      aria-label="Late-cancel window in hours"
+                      value={formData.late_cancel_window_hours}
+                      onChange={(e) => setFormData({ ...formData, late_cancel_window_hours: e.target.value })}
+                      disabled={!can("editRates")}
+                    />
+                    <Input
+                      id="late_cancel_charge_percent"
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.01"
+                      placeholder="Late %"
+                      aria-label="Late-cancel charge percent"
+                      value={formData.late_cancel_charge_percent}
+                      onChange={(e) => setFormData({ ...formData, late_cancel_charge_percent: e.target.value })}
+                      disabled={!can("editRates")}
+                    />
+                    <Input
+                      id="no_show_charge_percent"
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.01"
+                      placeholder="No-show %"
+                      aria-label="No-show charge percent"
+                      value={formData.no_show_charge_percent}
+                      onChange={(e) => setFormData({ ...formData, no_show_charge_percent: e.target.value })}
+                      disabled={!can("editRates")}
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Leave empty to use the policy from Settings
+                  </p>
+                </div>
                 <div className="flex items-center justify-between space-x-2">
                   <div className="flex items-center space-x-2">
                     <Switch
@@ -421,13 +604,15 @@ const Students = () => {
                         >
                           <Pencil className="h-4 w-4" />
                         </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleDelete(student.id)}
-                        >
-                      <Trash2 className="h-4 w-4 text-destructive" />
-                        </Button>
+                        {can("deleteStudents") && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(student.id)}
+                          >
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        )}
                       </div>
           </CardContent>
         </Card>
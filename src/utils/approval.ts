@@ -0,0 +1,37 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Tables } from '@/integrations/supabase/types';
+
+export type ApprovalStatus = Database['public']['Enums']['approval_status'];
+
+export interface ApprovalResult {
+  profile: Tables<'profiles'>;
+  /** Set when the status changed but the notification email could not be sent */
+  emailError: string | null;
+}
+
+/**
+ * Changes a user's approval status (admins only, enforced by set_approval_status)
+ * and emails the user about the change through the send-approval-email Edge
+ * Function, which looks up the recipient itself
+ */
+export async function setApprovalStatus(
+  userId: string,
+  status: ApprovalStatus,
+  reason?: string
+): Promise<ApprovalResult> {
+  const { data: profile, error } = await supabase.rpc('set_approval_status', {
+    p_user_id: userId,
+    p_status: status,
+    p_reason: reason ?? undefined,
+  });
+
+  if (error || !profile) {
+    throw new Error(error?.message || 'Approval status could not be changed');
+  }
+
+  const { error: emailError } = await supabase.functions.invoke('send-approval-email', {
+    body: { user_id: userId },
+  });
+
+  return { profile, emailError: emailError ? emailError.message : null };
+}
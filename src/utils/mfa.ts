@@ -0,0 +1,82 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface TotpEnrollment {
+  factorId: string;
+  /** SVG data URL for authenticator apps to scan */
+  qrCode: string;
+  /** The same secret, for manual entry */
+  secret: string;
+}
+
+/**
+ * The user's verified TOTP factor, if any
+ */
+export async function getVerifiedTotpFactor() {
+  const { data, error } = await supabase.auth.mfa.listFactors();
+  if (error) throw new Error(error.message);
+  return data.totp.find((factor) => factor.status === 'verified') ?? null;
+}
+
+/**
+ * Starts TOTP enrollment. Leftover unverified factors from abandoned
+ * attempts are removed first, since Supabase rejects duplicate names.
+ */
+export async function enrollTotp(): Promise<TotpEnrollment> {
+  const { data: factors } = await supabase.auth.mfa.listFactors();
+  for (const factor of factors?.all ?? []) {
+    if (factor.factor_type === 'totp' && factor.status === 'unverified') {
+      await supabase.auth.mfa.unenroll({ factorId: factor.id });
+    }
+  }
+
+  const { data, error } = await supabase.auth.mfa.enroll({
+    factorType: 'totp',
+    friendlyName: 'Authenticator app',
+  });
+  if (error) throw new Error(error.message);
+
+  return { factorId: data.id, qrCode: data.totp.qr_code, secret: data.totp.secret };
+}
+
+/**
+ * Verifies a 6-digit code, which completes enrollment or the sign-in
+ * challenge and upgrades the session to AAL2
+ */
+export async function verifyTotp(factorId: string, code: string): Promise<void> {
+  const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code });
+  if (error) throw new Error(error.message);
+}
+
+export async function disableTotp(factorId: string): Promise<void> {
+  const { error } = await supabase.auth.mfa.unenroll({ factorId });
+  if (error) throw new Error(error.message);
+
+  // The session still lists the removed factor until it is refreshed
+  await supabase.auth.refreshSession();
+}
+
+/**
+ * Replaces the user's recovery codes; the plain codes are only available now
+ */
+export async function generateRecoveryCodes(): Promise<string[]> {
+  const { data, error } = await supabase.rpc('generate_mfa_recovery_codes');
+  if (error) throw new Error(error.message);
+  return data ?? [];
+}
+
+/**
+ * Uses a recovery code in place of the authenticator. This removes the
+ * user's TOTP factor, so they should enroll again afterwards.
+ */
+export async function redeemRecoveryCode(code: string): Promise<void> {
+  const { data, error } = await supabase.functions.invoke('mfa-recovery', {
+    body: { code },
+  });
+
+  if (error || !data?.success) {
+    throw new Error(data?.error || error?.message || 'Recovery code could not be used');
+  }
+
+  // Pick up the new assurance level
+  await supabase.auth.refreshSession();
+}
@@ -0,0 +1,67 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+export type OrgMemberRole = Database['public']['Enums']['org_member_role'];
+
+export type OrganizationMember = Database['public']['Functions']['get_organization_members']['Returns'][number];
+
+export interface InviteResult {
+  inviteUrl: string;
+  /** Set when the invite was created but the email could not be sent */
+  emailError: string | null;
+}
+
+/**
+ * Members of the current user's organization (empty when not in one)
+ */
+export async function getOrganizationMembers(): Promise<OrganizationMember[]> {
+  const { data, error } = await supabase.rpc('get_organization_members');
+  if (error) throw new Error(error.message);
+  return data ?? [];
+}
+
+/**
+ * Creates a signed invite link through the create-org-invite Edge Function
+ * and emails it to the teacher
+ */
+export async function inviteTeacher(email: string, role: Exclude<OrgMemberRole, 'OWNER'>): Promise<InviteResult> {
+  const { data, error } = await supabase.functions.invoke('create-org-invite', {
+    body: { email, role, app_url: window.location.origin },
+  });
+
+  if (error || !data?.invite_url) {
+    throw new Error(data?.error || error?.message || 'Invite could not be created');
+  }
+
+  const inviteUrl: string = data.invite_url;
+  const organizationName: string = data.organization_name || 'a tutoring center';
+  const { error: emailError } = await supabase.functions.invoke('send-contact-email', {
+    body: {
+      to: email,
+      subject: `You're invited to join ${organizationName} on TutorSessions`,
+      html: `
+        <p>You have been invited to join <strong>${organizationName}</strong> on TutorSessions.</p>
+        <p><a href="${inviteUrl}">Accept the invitation</a></p>
+        <p>The link expires in 7 days. Sign up or sign in with this email address to accept it.</p>
+      `,
+      text: `You have been invited to join ${organizationName} on TutorSessions.\n\nAccept the invitation: ${inviteUrl}\n\nThe link expires in 7 days. Sign up or sign in with this email address to accept it.`,
+    },
+  });
+
+  return { inviteUrl, emailError: emailError ? emailError.message : null };
+}
+
+/**
+ * Accepts an invite for the signed-in user; returns the organization name
+ */
+export async function acceptInvite(token: string): Promise<string> {
+  const { data, error } = await supabase.functions.invoke('accept-org-invite', {
+    body: { token },
+  });
+
+  if (error || !data || data.error) {
+    throw new Error(data?.error || error?.message || 'Invite could not be accepted');
+  }
+
+  return data.organization_name;
+}
@@ -0,0 +1,145 @@
+import { addDays, addMonths, addWeeks, format, startOfDay, startOfWeek } from 'date-fns';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  /** Weekdays for WEEKLY rules, 0 = Sunday ... 6 = Saturday */
+  byWeekday: number[];
+}
+
+export interface Occurrence {
+  start: Date;
+  end: Date;
+  /** Local calendar date of the occurrence (yyyy-MM-dd), used for exceptions */
+  date: string;
+}
+
+export interface ExpandOptions {
+  rule: RecurrenceRule;
+  start: Date;
+  durationMinutes: number;
+  /** Last date (inclusive, yyyy-MM-dd) an occurrence may fall on */
+  until?: string | null;
+  /** Maximum number of occurrences, counted before exceptions are removed */
+  count?: number | null;
+  /** Dates (yyyy-MM-dd) to skip */
+  exdates?: string[];
+}
+
+// Hard cap so an open-ended pattern can never flood the sessions table
+export const MAX_OCCURRENCES = 104;
+
+export const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * Serializes a rule to the RRULE subset stored in session_series.rrule
+ */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency}`, `INTERVAL=${Math.max(1, rule.interval)}`];
+  if (rule.frequency === 'WEEKLY' && rule.byWeekday.length > 0) {
+    const days = [...rule.byWeekday].sort((a, b) => a - b).map((d) => WEEKDAY_CODES[d]);
+    parts.push(`BYDAY=${days.join(',')}`);
+  }
+  return parts.join(';');
+}
+
+/**
+ * Parses the RRULE subset written by formatRRule
+ */
+export function parseRRule(value: string): RecurrenceRule {
+  const rule: RecurrenceRule = { frequency: 'WEEKLY', interval: 1, byWeekday: [] };
+
+  for (const part of value.split(';')) {
+    const [key, raw] = part.split('=');
+    if (key === 'FREQ' && (raw === 'DAILY' || raw === 'WEEKLY' || raw === 'MONTHLY')) {
+      rule.frequency = raw;
+    } else if (key === 'INTERVAL') {
+      rule.interval = Math.max(1, parseInt(raw, 10) || 1);
+    } else if (key === 'BYDAY' && raw) {
+      rule.byWeekday = raw
+        .split(',')
+        .map((code) => WEEKDAY_CODES.indexOf(code))
+        .filter((day) => day >= 0);
+    }
+  }
+
+  return rule;
+}
+
+/**
+ * Human readable summary, e.g. "Every 2 weeks on Mon, Wed"
+ */
+export function describeRRule(value: string): string {
+  const rule = parseRRule(value);
+  const units = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month' } as const;
+  const every = rule.interval === 1
+    ? `Every ${units[rule.frequency]}`
+    : `Every ${rule.interval} ${units[rule.frequency]}s`;
+
+  if (rule.frequency !== 'WEEKLY' || rule.byWeekday.length === 0) return every;
+
+  const names = rule.byWeekday.map((d) => format(addDays(startOfWeek(new Date()), d), 'EEE'));
+  return `${every} on ${names.join(', ')}`;
+}
+
+/**
+ * Expands a recurrence pattern into concrete occurrences in the browser's
+ * local timezone, so the time of day stays fixed across DST changes.
+ */
+export function expandOccurrences({
+  rule,
+  start,
+  durationMinutes,
+  until,
+  count,
+  exdates = [],
+}: ExpandOptions): Occurrence[] {
+  const limit = Math.min(count ?? MAX_OCCURRENCES, MAX_OCCURRENCES);
+  const untilDay = until ? startOfDay(new Date(`${until}T00:00:00`)) : null;
+  const skipped = new Set(exdates);
+  const interval = Math.max(1, rule.interval);
+  const candidates: Date[] = [];
+
+  const withStartTime = (day: Date) => {
+    const d = new Date(day);
+    d.setHours(start.getHours(), start.getMinutes(), 0, 0);
+    return d;
+  };
+  const pastEnd = (d: Date) => untilDay !== null && startOfDay(d) > untilDay;
+
+  if (rule.frequency === 'WEEKLY') {
+    const weekdays = rule.byWeekday.length > 0
+      ? [...rule.byWeekday].sort((a, b) => a - b)
+      : [start.getDay()];
+    const firstWeek = startOfWeek(start);
+
+    for (let week = 0; candidates.length < limit; week += interval) {
+      const weekStart = addWeeks(firstWeek, week);
+      if (pastEnd(weekStart)) break;
+      for (const day of weekdays) {
+        const candidate = withStartTime(addDays(weekStart, day));
+        if (candidate < start) continue;
+        if (pastEnd(candidate) || candidates.length >= limit) break;
+        candidates.push(candidate);
+      }
+    }
+  } else {
+    for (let i = 0; candidates.length < limit; i++) {
+      const candidate = rule.frequency === 'DAILY'
+        ? withStartTime(addDays(start, i * interval))
+        : withStartTime(addMonths(start, i * interval));
+      if (pastEnd(candidate)) break;
+      candidates.push(candidate);
+    }
+  }
+
+  return candidates
+    .map((candidate) => ({
+      start: candidate,
+      end: new Date(candidate.getTime() + durationMinutes * 60 * 1000),
+      date: format(candidate, 'yyyy-MM-dd'),
+    }))
+    .filter((occurrence) => !skipped.has(occurrence.date));
+}
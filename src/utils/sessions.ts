@@ -0,0 +1,322 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface SessionZoomData {
+  zoom_meeting_id: string;
+  zoom_join_url: string;
+  zoom_start_url: string;
+}
+
+export type ReminderChannel = 'WHATSAPP' | 'EMAIL';
+
+export const REMINDER_CHANNELS: ReminderChannel[] = ['WHATSAPP', 'EMAIL'];
+
+/**
+ * Formats a minutes-before-start reminder offset compactly, e.g. 1440 -> "1d",
+ * 90 -> "1h 30m"
+ */
+export function formatReminderOffset(minutes: number): string {
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  const mins = minutes % 60;
+  return [days && `${days}d`, hours && `${hours}h`, mins && `${mins}m`].filter(Boolean).join(' ') || '0m';
+}
+
+/**
+ * Offsets sorted furthest-first without duplicates, as they are stored
+ */
+export function normalizeReminderOffsets(offsets: readonly number[]): number[] {
+  return [...new Set(offsets)].sort((a, b) => b - a);
+}
+
+/**
+ * Turns a reminder_jobs.last_error into something readable. WhatsApp errors are
+ * stored as the Graph API's JSON error body; anything else is returned as is.
+ */
+export function describeReminderError(lastError: string | null | undefined): string | null {
+  if (!lastError) return null;
+
+  try {
+    const parsed = JSON.parse(lastError);
+    const graphError = parsed?.error ?? parsed;
+    const message = graphError?.error_data?.details || graphError?.error_user_msg || graphError?.message;
+    if (typeof message !== 'string') return lastError;
+    return graphError.code ? `${message} (code ${graphError.code})` : message;
+  } catch {
+    return lastError;
+  }
+}
+
+/**
+ * Checks whether the given user has Zoom Server-to-Server OAuth credentials
+ */
+export async function hasZoomCredentials(userId: string): Promise<boolean> {
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('zoom_api_key, zoom_api_secret, zoom_account_id')
+    .eq('id', userId)
+    .single();
+
+  return !!(profile?.zoom_api_key && profile?.zoom_api_secret && profile?.zoom_account_id);
+}
+
+/**
+ * Creates a Zoom meeting for a session through the create-zoom-meeting Edge Function
+ */
+export async function createSessionZoomMeeting(
+  start: Date,
+  end: Date,
+  topic: string
+): Promise<SessionZoomData> {
+  const durationMinutes = Math.round((end.getTime() - start.getTime()) / (1000 * 60));
+
+  const { data: zoomMeeting, error } = await supabase.functions.invoke('create-zoom-meeting', {
+    body: {
+      start_time: start.toISOString(),
+      duration: durationMinutes,
+      topic,
+    },
+  });
+
+  if (error || !zoomMeeting) {
+    throw new Error(error?.message || 'Zoom meeting could not be created');
+  }
+
+  return {
+    zoom_meeting_id: zoomMeeting.id,
+    zoom_join_url: zoomMeeting.join_url,
+    zoom_start_url: zoomMeeting.start_url,
+  };
+}
+
+export interface SessionConflict {
+  /** 0-based index of the requested slot that overlaps this session */
+  slotIndex: number;
+  sessionId: string;
+  studentName: string;
+  scheduledStartAt: string;
+  scheduledEndAt: string;
+}
+
+export interface SessionSlot {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Postgres exclusion_violation, raised by the sessions conflict trigger
+ */
+export const SESSION_CONFLICT_ERROR_CODE = '23P01';
+
+/**
+ * Lists the current user's scheduled sessions that overlap any of the given slots
+ */
+export async function findSessionConflicts(
+  slots: SessionSlot[],
+  excludeSessionId?: string
+): Promise<SessionConflict[]> {
+  if (slots.length === 0) return [];
+
+  const { data, error } = await supabase.rpc('find_session_conflicts', {
+    p_starts: slots.map((slot) => slot.start.toISOString()),
+    p_ends: slots.map((slot) => slot.end.toISOString()),
+    p_exclude_session_id: excludeSessionId,
+  });
+
+  if (error) throw new Error(error.message);
+
+  return (data || []).map((row) => ({
+    slotIndex: row.slot_index - 1,
+    sessionId: row.session_id,
+    studentName: row.student_name,
+    scheduledStartAt: row.scheduled_start_at,
+    scheduledEndAt: row.scheduled_end_at,
+  }));
+}
+
+/**
+ * Finds the earliest conflict-free slot of the same length starting at or after `after`
+ */
+export async function findNextFreeSlot(
+  after: Date,
+  durationMinutes: number,
+  excludeSessionId?: string
+): Promise<SessionSlot | null> {
+  const { data, error } = await supabase.rpc('next_free_session_slot', {
+    p_after: after.toISOString(),
+    p_duration_minutes: durationMinutes,
+    p_exclude_session_id: excludeSessionId,
+  });
+
+  if (error || !data) return null;
+
+  const start = new Date(data);
+  return { start, end: new Date(start.getTime() + durationMinutes * 60 * 1000) };
+}
+
+export interface ReschedulableSession {
+  id: string;
+  scheduled_start_at: string;
+  zoom_meeting_id?: string | null;
+}
+
+export interface RescheduleOptions {
+  /** Send the student a notice about the new time on their preferred channel */
+  notifyStudent?: boolean;
+}
+
+/**
+ * Follow-up steps that failed after the session itself was moved
+ */
+export interface RescheduleResult {
+  zoomError: string | null;
+  noticeError: string | null;
+}
+
+/**
+ * Moves a session to a new time, patches its Zoom meeting and optionally
+ * notifies the student
+ */
+export async function rescheduleSession(
+  session: ReschedulableSession,
+  start: Date,
+  end: Date,
+  { notifyStudent = false }: RescheduleOptions = {}
+): Promise<RescheduleResult> {
+  const result: RescheduleResult = { zoomError: null, noticeError: null };
+
+  // A trigger on sessions rebuilds the pending reminders for the new time
+  const { error } = await supabase
+    .from('sessions')
+    .update({
+      scheduled_start_at: start.toISOString(),
+      scheduled_end_at: end.toISOString(),
+    })
+    .eq('id', session.id);
+
+  if (error) throw new Error(error.message);
+
+  if (session.zoom_meeting_id) {
+    const { data, error: zoomError } = await supabase.functions.invoke('update-zoom-meeting', {
+      body: {
+        meeting_id: session.zoom_meeting_id,
+        start_time: start.toISOString(),
+        duration: Math.round((end.getTime() - start.getTime()) / (1000 * 60)),
+      },
+    });
+    if (zoomError || !data) {
+      result.zoomError = zoomError?.message || 'Zoom meeting could not be updated';
+    }
+  }
+
+  if (notifyStudent) {
+    const { error: noticeError } = await supabase.functions.invoke('send-session-notice', {
+      body: {
+        session_id: session.id,
+        kind: 'RESCHEDULED',
+        previous_start_at: session.scheduled_start_at,
+      },
+    });
+    if (noticeError) result.noticeError = noticeError.message;
+  }
+
+  return result;
+}
+
+export interface SeriesUpdate {
+  /** Time of day, HH:mm */
+  startTime: string;
+  durationMinutes: number;
+  notes: string | null;
+}
+
+export interface SeriesUpdateResult {
+  /** Sessions whose Zoom meeting still has the old time */
+  zoomFailures: number;
+  zoomError: string | null;
+}
+
+/**
+ * Moves a session and every following scheduled occurrence of its series,
+ * then patches the Zoom meetings of the moved sessions
+ */
+export async function updateSeriesFollowing(
+  sessionId: string,
+  { startTime, durationMinutes, notes }: SeriesUpdate
+): Promise<SeriesUpdateResult> {
+  const result: SeriesUpdateResult = { zoomFailures: 0, zoomError: null };
+
+  const { data: seriesId, error } = await supabase.rpc('update_session_series_following', {
+    p_session_id: sessionId,
+    p_start_time: startTime,
+    p_duration_minutes: durationMinutes,
+    p_notes: notes,
+  });
+
+  if (error) throw new Error(error.message);
+
+  // The returned series holds exactly the edited occurrences
+  const { data: moved, error: movedError } = await supabase
+    .from('sessions')
+    .select('id, scheduled_start_at, zoom_meeting_id')
+    .eq('series_id', seriesId)
+    .eq('status', 'SCHEDULED')
+    .not('zoom_meeting_id', 'is', null);
+
+  if (movedError) {
+    return { zoomFailures: 0, zoomError: movedError.message };
+  }
+
+  for (const session of moved || []) {
+    const { data, error: zoomError } = await supabase.functions.invoke('update-zoom-meeting', {
+      body: {
+        meeting_id: session.zoom_meeting_id,
+        start_time: session.scheduled_start_at,
+        duration: durationMinutes,
+      },
+    });
+    if (zoomError || !data) {
+      result.zoomFailures += 1;
+      result.zoomError = zoomError?.message || 'Zoom meeting could not be updated';
+    }
+  }
+
+  return result;
+}
+
+export type CancelTarget = { sessionId: string } | { seriesId: string };
+
+export interface CancelOptions {
+  notifyStudent?: boolean;
+  /** Charge per the late-cancellation policy; only used for single sessions */
+  applyChargePolicy?: boolean;
+}
+
+export interface CancelResult {
+  canceled: number;
+  /** Zoom or notice steps that failed after the sessions were canceled */
+  warnings: string[];
+}
+
+/**
+ * Cancels a session or the remaining occurrences of a series through the
+ * cancel-session Edge Function, which also removes the Zoom meetings and
+ * stops pending reminders
+ */
+export async function cancelSessions(
+  target: CancelTarget,
+  { notifyStudent = false, applyChargePolicy = true }: CancelOptions = {}
+): Promise<CancelResult> {
+  const { data, error } = await supabase.functions.invoke('cancel-session', {
+    body: {
+      ...('sessionId' in target ? { session_id: target.sessionId } : { series_id: target.seriesId }),
+      notify_student: notifyStudent,
+      apply_charge_policy: applyChargePolicy,
+    },
+  });
+
+  if (error || !data) {
+    throw new Error(error?.message || 'Session could not be canceled');
+  }
+
+  return { canceled: data.canceled ?? 0, warnings: data.warnings ?? [] };
+}
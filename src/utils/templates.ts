@@ -0,0 +1,59 @@
+// Client copy of supabase/functions/_shared/templates.ts, used for the preview
+// in Settings; keep the two in sync.
+
+export type TemplateLanguage = 'en' | 'ar' | 'fr';
+
+export const TEMPLATE_LANGUAGES: TemplateLanguage[] = ['en', 'ar', 'fr'];
+
+export const TEMPLATE_PLACEHOLDERS = ['student_name', 'start_time', 'zoom_link', 'balance'] as const;
+
+export type TemplatePlaceholder = (typeof TEMPLATE_PLACEHOLDERS)[number];
+
+export type TemplateValues = Record<TemplatePlaceholder, string>;
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Fills {{placeholders}}, dropping lines whose placeholder has no value
+ */
+export function renderTemplate(template: string, values: Partial<TemplateValues>): string {
+  return template
+    .split('\n')
+    .filter((line) => {
+      const names = [...line.matchAll(PLACEHOLDER)].map((match) => match[1]);
+      return names.every((name) => !!values[name as TemplatePlaceholder]);
+    })
+    .map((line) => line.replace(PLACEHOLDER, (_, name) => values[name as TemplatePlaceholder] ?? ''))
+    .join('\n');
+}
+
+/**
+ * Session start in the student's language and timezone; unknown timezones
+ * fall back to UTC
+ */
+export function formatSessionTime(iso: string, language: string, timezone: string): string {
+  const options: Intl.DateTimeFormatOptions = { dateStyle: 'full', timeStyle: 'short' };
+  try {
+    return new Intl.DateTimeFormat(language, { ...options, timeZone: timezone }).format(new Date(iso));
+  } catch {
+    return new Intl.DateTimeFormat(language, { ...options, timeZone: 'UTC', timeZoneName: 'short' }).format(
+      new Date(iso)
+    );
+  }
+}
+
+export function formatBalance(amount: number, language: string): string {
+  return new Intl.NumberFormat(language, { style: 'currency', currency: 'USD' }).format(amount);
+}
+
+/**
+ * Whether a timezone name is one Intl understands, e.g. "Africa/Cairo"
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,233 @@
+// Email delivery shared by send-contact-email and the reminder sender.
+// Resend is preferred; Gmail SMTP is a fallback that Supabase Edge Functions
+// often block at the network level.
+
+const GMAIL_SMTP_USER = Deno.env.get('GMAIL_SMTP_USER') || '';
+const GMAIL_SMTP_PASS = Deno.env.get('GMAIL_SMTP_PASS') || '';
+const GMAIL_FROM_EMAIL = Deno.env.get('GMAIL_FROM_EMAIL') || GMAIL_SMTP_USER;
+
+const RESEND_API_KEY = Deno.env.get('RESEND_API_KEY') || Deno.env.get('EMAIL_API_KEY') || '';
+
+const SMTP_HOST = 'smtp.gmail.com';
+const SMTP_PORT = 587; // STARTTLS port
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  /** Resend drops repeat sends with the same key for 24 hours */
+  idempotencyKey?: string;
+}
+
+export type EmailSendResult =
+  | { ok: true; provider: 'resend' | 'smtp'; id?: string }
+  | { ok: false; error: string; retryable?: boolean };
+
+class ResendApiError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+async function sendViaResend(message: EmailMessage): Promise<string | undefined> {
+  const response = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${RESEND_API_KEY}`,
+      'Content-Type': 'application/json',
+      ...(message.idempotencyKey ? { 'Idempotency-Key': message.idempotencyKey } : {}),
+    },
+    body: JSON.stringify({
+      from: GMAIL_FROM_EMAIL || 'TutorSessions <noreply@tutorsessions.com>',
+      to: [message.to],
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new ResendApiError(`Resend API error: ${await response.text()}`, response.status);
+  }
+
+  const data = await response.json();
+  return data.id;
+}
+
+async function sendViaSmtp(message: EmailMessage): Promise<void> {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+
+  let conn: Deno.TcpConn;
+  try {
+    conn = await Deno.connect({ hostname: SMTP_HOST, port: SMTP_PORT });
+  } catch (error) {
+    throw new Error(`Failed to connect to SMTP server: ${error instanceof Error ? error.message : error}`);
+  }
+
+  // Reads a (possibly multi-line) reply; the final line is "<code> <text>"
+  const readResponse = async (connection: Deno.Conn): Promise<string> => {
+    let response = '';
+    const buffer = new Uint8Array(1024);
+    let timeoutCount = 0;
+    const maxTimeouts = 20; // 20 * 50ms = 1 second max wait
+
+    while (timeoutCount < maxTimeouts) {
+      const bytesRead = await connection.read(buffer);
+
+      if (bytesRead === null || bytesRead === 0) {
+        const lines = response.split('\r\n');
+        const lastLine = lines[lines.length - 1];
+        if (lastLine && /^\d{3} /.test(lastLine)) break;
+
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        timeoutCount++;
+        continue;
+      }
+
+      response += decoder.decode(buffer.subarray(0, bytesRead));
+
+      if (response.includes('\r\n')) {
+        const lines = response.split('\r\n');
+        const lastLine = lines[lines.length - 1];
+        if (lastLine && /^\d{3} /.test(lastLine) && (response.endsWith('\r\n') || lines.length > 1)) {
+          break;
+        }
+      }
+
+      if (response.length > 8192) break;
+      timeoutCount = 0;
+    }
+
+    if (!response.trim()) {
+      throw new Error('No response from SMTP server (timeout)');
+    }
+    return response.trim();
+  };
+
+  const sendCommand = async (connection: Deno.Conn, command: string): Promise<string> => {
+    await connection.write(encoder.encode(command + '\r\n'));
+    return await readResponse(connection);
+  };
+
+  const expect = async (connection: Deno.Conn, command: string, code: string, step: string) => {
+    const response = await sendCommand(connection, command);
+    if (!response.startsWith(code)) {
+      connection.close();
+      throw new Error(`${step} failed: ${response}`);
+    }
+  };
+
+  const greeting = await readResponse(conn);
+  if (!greeting.startsWith('220')) {
+    conn.close();
+    throw new Error(`SMTP greeting failed: ${greeting}`);
+  }
+
+  await expect(conn, `EHLO ${SMTP_HOST}`, '250', 'EHLO');
+  await expect(conn, 'STARTTLS', '220', 'STARTTLS');
+
+  let tlsConn: Deno.TlsConn;
+  try {
+    tlsConn = await Deno.startTls(conn, { hostname: SMTP_HOST });
+  } catch (error) {
+    conn.close();
+    throw new Error(
+      `Failed to establish TLS connection: ${error instanceof Error ? error.message : error}. ` +
+        'This might be due to network restrictions in Supabase Edge Functions. Consider using a service like Resend instead.'
+    );
+  }
+
+  await expect(tlsConn, `EHLO ${SMTP_HOST}`, '250', 'EHLO after TLS');
+  await expect(tlsConn, 'AUTH LOGIN', '334', 'AUTH LOGIN');
+  await expect(tlsConn, btoa(GMAIL_SMTP_USER), '334', 'Username auth');
+  await expect(tlsConn, btoa(GMAIL_SMTP_PASS), '235', 'Password auth');
+  await expect(tlsConn, `MAIL FROM:<${GMAIL_FROM_EMAIL}>`, '250', 'MAIL FROM');
+  await expect(tlsConn, `RCPT TO:<${message.to}>`, '250', 'RCPT TO');
+  await expect(tlsConn, 'DATA', '354', 'DATA');
+
+  const boundary = `----=_Part_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+  const body = [
+    `From: ${GMAIL_FROM_EMAIL}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    `MIME-Version: 1.0`,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    ``,
+    `--${boundary}`,
+    `Content-Type: text/plain; charset=UTF-8`,
+    `Content-Transfer-Encoding: 7bit`,
+    ``,
+    message.text ?? '',
+    ``,
+    `--${boundary}`,
+    `Content-Type: text/html; charset=UTF-8`,
+    `Content-Transfer-Encoding: 7bit`,
+    ``,
+    message.html,
+    ``,
+    `--${boundary}--`,
+    `.`,
+  ].join('\r\n');
+
+  await expect(tlsConn, body, '250', 'Message send');
+
+  await sendCommand(tlsConn, 'QUIT');
+  tlsConn.close();
+}
+
+/** Whether Resend or Gmail SMTP is set up */
+export function isEmailConfigured(): boolean {
+  return !!RESEND_API_KEY || !!(GMAIL_SMTP_USER && GMAIL_SMTP_PASS);
+}
+
+/**
+ * Sends an email through Resend, falling back to Gmail SMTP when Resend is
+ * not configured or fails
+ */
+export async function sendEmail(message: EmailMessage): Promise<EmailSendResult> {
+  let resendError: string | null = null;
+  let resendRetryable = false;
+
+  if (RESEND_API_KEY) {
+    try {
+      const id = await sendViaResend(message);
+      return { ok: true, provider: 'resend', id };
+    } catch (error) {
+      resendError = error instanceof Error ? error.message : String(error);
+      // Rate limits, server errors and network failures may succeed later
+      resendRetryable = !(error instanceof ResendApiError) || error.status === 429 || error.status >= 500;
+      console.error('Resend error:', resendError);
+    }
+  }
+
+  if (GMAIL_SMTP_USER && GMAIL_SMTP_PASS) {
+    try {
+      await sendViaSmtp(message);
+      return { ok: true, provider: 'smtp' };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('Gmail SMTP error:', errorMessage);
+      return {
+        ok: false,
+        error: errorMessage.includes('InvalidContentType') || errorMessage.includes('TLS')
+          ? 'SMTP connections are blocked by Supabase Edge Functions. Please use Resend instead (set RESEND_API_KEY secret).'
+          : `Gmail SMTP error: ${errorMessage}`,
+      };
+    }
+  }
+
+  if (resendError) {
+    return {
+      ok: false,
+      error: `Resend error: ${resendError}. Please check your RESEND_API_KEY.`,
+      retryable: resendRetryable,
+    };
+  }
+
+  return {
+    ok: false,
+    error: 'No email service configured. Please set either RESEND_API_KEY (recommended) or GMAIL_SMTP_USER/GMAIL_SMTP_PASS secrets.',
+  };
+}
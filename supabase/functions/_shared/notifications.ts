@@ -0,0 +1,170 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  resolveWhatsAppCredentials,
+  sendWhatsAppButtons,
+  sendWhatsAppTemplate,
+  sendWhatsAppText,
+  WhatsAppButton,
+  WhatsAppCredentials,
+  WhatsAppTemplate,
+} from './whatsapp.ts';
+import { isEmailConfigured, sendEmail } from './email.ts';
+
+// Notification providers behind one interface so senders don't care whether a
+// message goes to the Graph API, an email service or the local mock.
+// NOTIFICATION_PROVIDER=mock swaps every channel for the mock.
+
+export type NotificationChannel = 'WHATSAPP' | 'EMAIL';
+
+export interface NotificationMessage {
+  /** E.164 phone for WHATSAPP, address for EMAIL */
+  to: string;
+  text: string;
+  /** EMAIL only */
+  subject?: string;
+  /** EMAIL only; defaults to the text split into paragraphs */
+  html?: string;
+  /** WHATSAPP only; sent instead of the text, which WhatsApp refuses outside the 24h window */
+  whatsappTemplate?: WhatsAppTemplate;
+  /** WHATSAPP only; reply buttons sent with the text */
+  quickReplies?: WhatsAppButton[];
+  /** Lets providers that support it drop a repeated send */
+  idempotencyKey?: string;
+}
+
+export type NotificationResult =
+  | { ok: true; provider: string; providerMessageId?: string }
+  | { ok: false; error: string; details?: unknown; retryable?: boolean };
+
+export interface NotificationProvider {
+  readonly name: string;
+  readonly channel: NotificationChannel;
+  send(message: NotificationMessage): Promise<NotificationResult>;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** Rate limits and server errors are worth retrying; other 4xx are not */
+export function isTransientStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+export function isMockNotificationProvider(): boolean {
+  return (Deno.env.get('NOTIFICATION_PROVIDER') || '').toLowerCase() === 'mock';
+}
+
+export function createWhatsAppProvider(credentials: WhatsAppCredentials): NotificationProvider {
+  return {
+    name: 'whatsapp',
+    channel: 'WHATSAPP',
+    async send(message) {
+      let result;
+      try {
+        if (message.whatsappTemplate) {
+          result = await sendWhatsAppTemplate(credentials, message.to, message.whatsappTemplate);
+        } else if (message.quickReplies?.length) {
+          result = await sendWhatsAppButtons(credentials, message.to, message.text, message.quickReplies);
+        } else {
+          result = await sendWhatsAppText(credentials, message.to, message.text);
+        }
+      } catch (error) {
+        // Network failure before Graph answered
+        return { ok: false, error: error instanceof Error ? error.message : String(error), retryable: true };
+      }
+      return result.ok
+        ? { ok: true, provider: 'whatsapp', providerMessageId: result.messageId }
+        : {
+            ok: false,
+            error: JSON.stringify(result.error),
+            details: result.error,
+            retryable: isTransientStatus(result.status),
+          };
+    },
+  };
+}
+
+export function createEmailProvider(): NotificationProvider {
+  return {
+    name: 'email',
+    channel: 'EMAIL',
+    async send(message) {
+      const result = await sendEmail({
+        to: message.to,
+        subject: message.subject || 'Notification',
+        html: message.html ?? message.text.split('\n').map((line) => `<p>${escapeHtml(line)}</p>`).join(''),
+        text: message.text,
+        idempotencyKey: message.idempotencyKey,
+      });
+      return result.ok
+        ? { ok: true, provider: result.provider, providerMessageId: result.id }
+        : { ok: false, error: result.error, retryable: result.retryable };
+    },
+  };
+}
+
+/**
+ * Logs messages instead of sending them. Set NOTIFICATION_MOCK_FILE to also
+ * append each message as a JSON line, and NOTIFICATION_MOCK_FAIL=true (or
+ * =transient for a retryable failure) to make every send fail.
+ */
+export function createMockProvider(channel: NotificationChannel): NotificationProvider {
+  return {
+    name: 'mock',
+    channel,
+    async send(message) {
+      const id = `mock-${crypto.randomUUID()}`;
+      const entry = { id, channel, ...message, sent_at: new Date().toISOString() };
+      console.log('[mock notification]', JSON.stringify(entry));
+
+      const file = Deno.env.get('NOTIFICATION_MOCK_FILE');
+      if (file) {
+        await Deno.writeTextFile(file, JSON.stringify(entry) + '\n', { append: true });
+      }
+
+      const fail = Deno.env.get('NOTIFICATION_MOCK_FAIL');
+      if (fail === 'true' || fail === 'transient') {
+        return { ok: false, error: 'Mock provider configured to fail', retryable: fail === 'transient' };
+      }
+      return { ok: true, provider: 'mock', providerMessageId: id };
+    },
+  };
+}
+
+export function getEmailProvider(): NotificationProvider {
+  return isMockNotificationProvider() ? createMockProvider('EMAIL') : createEmailProvider();
+}
+
+/**
+ * WhatsApp provider using the user's credentials (or the env fallback);
+ * null when neither is configured
+ */
+export async function getWhatsAppProvider(
+  client: SupabaseClient,
+  userId: string | null
+): Promise<NotificationProvider | null> {
+  if (isMockNotificationProvider()) return createMockProvider('WHATSAPP');
+
+  const credentials = await resolveWhatsAppCredentials(client, userId);
+  return credentials ? createWhatsAppProvider(credentials) : null;
+}
+
+/**
+ * Provider for a channel; userId selects whose WhatsApp credentials are used.
+ * null when the channel isn't configured, see missingProviderError.
+ */
+export async function getNotificationProvider(
+  channel: NotificationChannel,
+  client: SupabaseClient,
+  userId: string | null
+): Promise<NotificationProvider | null> {
+  if (channel === 'WHATSAPP') return await getWhatsAppProvider(client, userId);
+  return isMockNotificationProvider() || isEmailConfigured() ? getEmailProvider() : null;
+}
+
+/** Why getNotificationProvider returned null for a channel */
+export function missingProviderError(channel: NotificationChannel): string {
+  return channel === 'EMAIL'
+    ? 'No email service configured (set RESEND_API_KEY or GMAIL_SMTP_USER/GMAIL_SMTP_PASS)'
+    : 'Missing WhatsApp credentials';
+}
@@ -0,0 +1,78 @@
+// Signed organization invite tokens: base64url(payload) + "." + base64url(HMAC-SHA256).
+// The invite row is the source of truth (acceptance, revocation); the
+// signature only proves the link was issued by create-org-invite.
+
+export interface InvitePayload {
+  invite_id: string;
+  organization_id: string;
+  email: string;
+  /** Expiry as epoch milliseconds */
+  exp: number;
+}
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function getInviteSecret(): string {
+  const secret = Deno.env.get('ORG_INVITE_SECRET') ?? '';
+  if (!secret) {
+    throw new Error('ORG_INVITE_SECRET is not configured');
+  }
+  return secret;
+}
+
+async function importKey(): Promise<CryptoKey> {
+  return await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(getInviteSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+export async function signInviteToken(payload: InvitePayload): Promise<string> {
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', await importKey(), encoder.encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Returns the payload of a correctly signed, unexpired token, or null
+ */
+export async function verifyInviteToken(token: string): Promise<InvitePayload | null> {
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  const key = await importKey();
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      key,
+      fromBase64Url(signature),
+      encoder.encode(body)
+    );
+    if (!valid) return null;
+
+    const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(body))) as InvitePayload;
+    if (!payload.invite_id || !payload.email || !payload.exp || payload.exp < Date.now()) {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,169 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getNotificationProvider, missingProviderError, NotificationChannel } from './notifications.ts';
+import { formatSessionTime } from './templates.ts';
+import { isConversationWindowOpen } from './whatsapp.ts';
+
+export type NoticeKind = 'RESCHEDULED' | 'CANCELED';
+
+export const NOTICE_KINDS: NoticeKind[] = ['RESCHEDULED', 'CANCELED'];
+
+interface NoticeText {
+  subject: Record<NoticeKind, string>;
+  rescheduled: string;
+  rescheduledFrom: string;
+  canceled: string;
+}
+
+// Wording per student language; {start} and {previous} are session times in
+// the student's timezone
+const NOTICE_TEXTS: Record<string, NoticeText> = {
+  en: {
+    subject: { RESCHEDULED: 'Your tutoring session has moved', CANCELED: 'Your tutoring session is cancelled' },
+    rescheduled: 'Your tutoring session has been moved to {start}.',
+    rescheduledFrom: 'Your tutoring session on {previous} has been moved to {start}.',
+    canceled: 'Your tutoring session on {start} has been cancelled.',
+  },
+  fr: {
+    subject: { RESCHEDULED: 'Votre séance a été déplacée', CANCELED: 'Votre séance est annulée' },
+    rescheduled: 'Votre séance a été déplacée au {start}.',
+    rescheduledFrom: 'Votre séance du {previous} a été déplacée au {start}.',
+    canceled: 'Votre séance du {start} a été annulée.',
+  },
+  ar: {
+    subject: { RESCHEDULED: 'تم تغيير موعد جلستك', CANCELED: 'تم إلغاء جلستك' },
+    rescheduled: 'تم نقل جلستك إلى {start}.',
+    rescheduledFrom: 'تم نقل جلستك من {previous} إلى {start}.',
+    canceled: 'تم إلغاء جلستك المقررة في {start}.',
+  },
+};
+
+const noticeTexts = (language: string | undefined) => NOTICE_TEXTS[language ?? 'en'] ?? NOTICE_TEXTS.en;
+
+interface NoticeSession {
+  scheduled_start_at: string;
+  zoom_join_url: string | null;
+  created_by: string | null;
+  students: {
+    first_name: string | null;
+    last_name: string | null;
+    phone_e164: string | null;
+    email: string | null;
+    preferred_channel: NotificationChannel;
+    language: string;
+    timezone: string;
+    whatsapp_last_inbound_at: string | null;
+  } | null;
+}
+
+export type SessionNoticeResult =
+  | { ok: true }
+  | { ok: false; status: number; error: string; details?: unknown };
+
+function buildNoticeText(kind: NoticeKind, session: NoticeSession, previousStartAt?: string): string {
+  const language = session.students?.language ?? 'en';
+  const timezone = session.students?.timezone ?? 'UTC';
+  const texts = noticeTexts(language);
+  const start = formatSessionTime(session.scheduled_start_at, language, timezone);
+  const lines: string[] = [];
+
+  if (kind === 'RESCHEDULED') {
+    lines.push(
+      previousStartAt
+        ? texts.rescheduledFrom
+            .replace('{previous}', formatSessionTime(previousStartAt, language, timezone))
+            .replace('{start}', start)
+        : texts.rescheduled.replace('{start}', start)
+    );
+    if (session.zoom_join_url) lines.push(`Zoom: ${session.zoom_join_url}`);
+  } else {
+    lines.push(texts.canceled.replace('{start}', start));
+  }
+
+  return lines.join('\n');
+}
+
+async function sendNotice(
+  client: SupabaseClient,
+  channel: NotificationChannel,
+  to: string | null | undefined,
+  ownerId: string,
+  message: { subject: string; text: string }
+): Promise<SessionNoticeResult> {
+  if (!to) {
+    return { ok: false, status: 400, error: channel === 'EMAIL' ? 'Missing student email' : 'Missing student phone' };
+  }
+
+  const provider = await getNotificationProvider(channel, client, ownerId);
+  if (!provider) {
+    return { ok: false, status: 400, error: missingProviderError(channel) };
+  }
+
+  const result = await provider.send({ to, ...message });
+  if (!result.ok) {
+    return {
+      ok: false,
+      status: 502,
+      error: channel === 'EMAIL' ? 'Email delivery failed' : 'WhatsApp API error',
+      details: result.details ?? result.error,
+    };
+  }
+
+  return { ok: true };
+}
+
+/**
+ * Sends a one-off notice about a session change to the session's student on
+ * their preferred channel. WhatsApp notices fall back to email outside the
+ * 24-hour conversation window or when WhatsApp rejects them.
+ */
+export async function sendSessionNotice(
+  client: SupabaseClient,
+  sessionId: string,
+  kind: NoticeKind,
+  fallbackUserId: string,
+  previousStartAt?: string
+): Promise<SessionNoticeResult> {
+  const { data: session, error: sessionError } = await client
+    .from('sessions')
+    .select(`
+      scheduled_start_at, zoom_join_url, created_by,
+      students (
+        first_name, last_name, phone_e164, email, preferred_channel, language, timezone,
+        whatsapp_last_inbound_at
+      )
+    `)
+    .eq('id', sessionId)
+    .maybeSingle<NoticeSession>();
+
+  if (sessionError || !session) {
+    return { ok: false, status: 404, error: sessionError?.message || 'Session not found' };
+  }
+
+  const student = session.students;
+  const ownerId = session.created_by ?? fallbackUserId;
+  const message = {
+    subject: noticeTexts(student?.language).subject[kind],
+    text: buildNoticeText(kind, session, previousStartAt),
+  };
+
+  if (student?.preferred_channel !== 'EMAIL') {
+    // Notices are free-form text, which WhatsApp only delivers within 24 hours
+    // of the student's last message; otherwise they go by email when possible
+    const windowOpen = isConversationWindowOpen(student?.whatsapp_last_inbound_at);
+    if (!windowOpen && !student?.email) {
+      return {
+        ok: false,
+        status: 400,
+        error: "The student hasn't messaged on WhatsApp in the last 24 hours and has no email address",
+      };
+    }
+
+    if (windowOpen) {
+      const whatsapp = await sendNotice(client, 'WHATSAPP', student?.phone_e164, ownerId, message);
+      // Anything WhatsApp couldn't deliver (e.g. the window closed after all) goes by email
+      if (whatsapp.ok || !student?.email) return whatsapp;
+    }
+  }
+
+  return await sendNotice(client, 'EMAIL', student?.email, ownerId, message);
+}
@@ -0,0 +1,34 @@
+// Quick-reply buttons on WhatsApp reminders. A button's payload names the
+// reply and the session, e.g. "CONFIRM:<session id>"; whatsapp-webhook parses
+// it back and hands it to record_session_reply.
+
+export type SessionReply = 'CONFIRM' | 'RESCHEDULE';
+
+export const SESSION_REPLIES: SessionReply[] = ['CONFIRM', 'RESCHEDULE'];
+
+// WhatsApp caps button titles at 20 characters
+const REPLY_TITLES: Record<string, Record<SessionReply, string>> = {
+  en: { CONFIRM: 'Confirm', RESCHEDULE: 'Need to reschedule' },
+  fr: { CONFIRM: 'Confirmer', RESCHEDULE: 'Besoin de reporter' },
+  ar: { CONFIRM: 'تأكيد', RESCHEDULE: 'تغيير الموعد' },
+};
+
+export function sessionReplyPayload(reply: SessionReply, sessionId: string): string {
+  return `${reply}:${sessionId}`;
+}
+
+export function parseSessionReplyPayload(payload: string): { reply: SessionReply; sessionId: string } | null {
+  const [reply, sessionId] = payload.split(':');
+  if (!SESSION_REPLIES.includes(reply as SessionReply) || !/^[0-9a-f-]{36}$/i.test(sessionId ?? '')) {
+    return null;
+  }
+  return { reply: reply as SessionReply, sessionId };
+}
+
+/**
+ * Buttons for a session's reminder, titled in the student's language
+ */
+export function sessionReplyButtons(sessionId: string, language: string): { id: string; title: string }[] {
+  const titles = REPLY_TITLES[language] ?? REPLY_TITLES.en;
+  return SESSION_REPLIES.map((reply) => ({ id: sessionReplyPayload(reply, sessionId), title: titles[reply] }));
+}
@@ -0,0 +1,85 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Rendering of message_templates. src/utils/templates.ts mirrors
+// renderTemplate and formatSessionTime for the preview in Settings; keep the
+// two in sync.
+
+export type TemplateKind = 'REMINDER';
+
+export interface MessageTemplate {
+  subject: string;
+  body: string;
+}
+
+export interface TemplateValues {
+  student_name: string;
+  start_time: string;
+  zoom_link: string;
+  balance: string;
+}
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Fills {{placeholders}}. A line whose placeholder has no value (e.g. Zoom:
+ * {{zoom_link}} without a meeting) is dropped instead of sent half empty.
+ */
+export function renderTemplate(template: string, values: Partial<TemplateValues>): string {
+  return template
+    .split('\n')
+    .filter((line) => {
+      const names = [...line.matchAll(PLACEHOLDER)].map((match) => match[1]);
+      return names.every((name) => !!values[name as keyof TemplateValues]);
+    })
+    .map((line) => line.replace(PLACEHOLDER, (_, name) => values[name as keyof TemplateValues] ?? ''))
+    .join('\n');
+}
+
+/**
+ * Session start in the student's language and timezone; unknown timezones
+ * fall back to UTC
+ */
+export function formatSessionTime(iso: string, language: string, timezone: string): string {
+  const options: Intl.DateTimeFormatOptions = { dateStyle: 'full', timeStyle: 'short' };
+  try {
+    return new Intl.DateTimeFormat(language, { ...options, timeZone: timezone }).format(new Date(iso));
+  } catch {
+    return new Intl.DateTimeFormat(language, { ...options, timeZone: 'UTC', timeZoneName: 'short' }).format(
+      new Date(iso)
+    );
+  }
+}
+
+export function formatBalance(amount: number, language: string): string {
+  return new Intl.NumberFormat(language, { style: 'currency', currency: 'USD' }).format(amount);
+}
+
+export function usesPlaceholder(template: MessageTemplate, name: keyof TemplateValues): boolean {
+  return new RegExp(`\\{\\{\\s*${name}\\s*\\}\\}`).test(template.subject + template.body);
+}
+
+/**
+ * The teacher's template for a language, else the built-in one, else the
+ * built-in English template
+ */
+export async function loadTemplate(
+  client: SupabaseClient,
+  ownerId: string | null,
+  kind: TemplateKind,
+  language: string
+): Promise<MessageTemplate | null> {
+  let query = client
+    .from('message_templates')
+    .select('owner_id, language, subject, body')
+    .eq('kind', kind)
+    .in('language', [...new Set([language, 'en'])]);
+  query = ownerId ? query.or(`owner_id.is.null,owner_id.eq.${ownerId}`) : query.is('owner_id', null);
+
+  const { data, error } = await query;
+  if (error || !data) return null;
+
+  const pick = (owned: boolean, lang: string) =>
+    data.find((row) => (owned ? row.owner_id === ownerId : row.owner_id === null) && row.language === lang);
+  const template = (ownerId ? pick(true, language) : undefined) ?? pick(false, language) ?? pick(false, 'en');
+  return template ? { subject: template.subject, body: template.body } : null;
+}
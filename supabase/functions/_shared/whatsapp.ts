@@ -0,0 +1,188 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const GRAPH_API_URL = 'https://graph.facebook.com/v19.0';
+
+export interface WhatsAppCredentials {
+  phoneNumberId: string;
+  token: string;
+}
+
+export type WhatsAppSendResult =
+  | { ok: true; messageId?: string }
+  | { ok: false; status: number; error: Record<string, unknown> };
+
+/**
+ * Resolve WhatsApp credentials: per-user from profiles or fall back to env
+ */
+export async function resolveWhatsAppCredentials(
+  client: SupabaseClient,
+  userId: string | null
+): Promise<WhatsAppCredentials | null> {
+  let phoneNumberId = Deno.env.get('WHATSAPP_PHONE_NUMBER_ID') || '';
+  let token = Deno.env.get('WHATSAPP_TOKEN') || '';
+
+  if (userId) {
+    const { data: profile } = await client
+      .from('profiles')
+      .select('whatsapp_phone_number_id, whatsapp_token')
+      .eq('id', userId)
+      .maybeSingle();
+    if (profile?.whatsapp_phone_number_id && profile?.whatsapp_token) {
+      phoneNumberId = profile.whatsapp_phone_number_id;
+      token = profile.whatsapp_token;
+    }
+  }
+
+  return phoneNumberId && token ? { phoneNumberId, token } : null;
+}
+
+// WhatsApp accepts free-form messages only this long after the recipient's
+// last message; outside it only approved templates are delivered
+const CONVERSATION_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export function isConversationWindowOpen(lastInboundAt: string | null | undefined): boolean {
+  return !!lastInboundAt && Date.now() - new Date(lastInboundAt).getTime() < CONVERSATION_WINDOW_MS;
+}
+
+export interface WhatsAppTemplate {
+  /** Name of a template approved in WhatsApp Manager */
+  name: string;
+  /** Language code the template was approved in, e.g. en_US */
+  language: string;
+  /** Values for the body's {{1}}, {{2}}, ... in order */
+  parameters: string[];
+  /** Payloads for the template's quick-reply buttons, in order */
+  buttonPayloads?: string[];
+}
+
+export interface WhatsAppButton {
+  /** Returned in the webhook when tapped */
+  id: string;
+  /** At most 20 characters */
+  title: string;
+}
+
+async function postMessage(
+  credentials: WhatsAppCredentials,
+  payload: Record<string, unknown>
+): Promise<WhatsAppSendResult> {
+  const resp = await fetch(`${GRAPH_API_URL}/${credentials.phoneNumberId}/messages`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${credentials.token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ messaging_product: 'whatsapp', ...payload }),
+  });
+
+  if (resp.ok) {
+    // The id Meta's status callbacks refer to
+    const data = await resp.json().catch(() => null);
+    return { ok: true, messageId: data?.messages?.[0]?.id };
+  }
+
+  const errText = await resp.text();
+  try {
+    return { ok: false, status: resp.status, error: JSON.parse(errText) };
+  } catch {
+    return { ok: false, status: resp.status, error: { message: errText, status: resp.status } };
+  }
+}
+
+/**
+ * Sends a plain text WhatsApp message through the Graph API. WhatsApp only
+ * delivers these within 24 hours of the recipient's last message.
+ */
+export async function sendWhatsAppText(
+  credentials: WhatsAppCredentials,
+  toPhone: string,
+  body: string
+): Promise<WhatsAppSendResult> {
+  return postMessage(credentials, {
+    to: toPhone.replace(/\s+/g, ''),
+    type: 'text',
+    text: { body },
+  });
+}
+
+/**
+ * Sends text with up to three reply buttons. Like plain text, only delivered
+ * within the 24-hour window.
+ */
+export async function sendWhatsAppButtons(
+  credentials: WhatsAppCredentials,
+  toPhone: string,
+  body: string,
+  buttons: WhatsAppButton[]
+): Promise<WhatsAppSendResult> {
+  return postMessage(credentials, {
+    to: toPhone.replace(/\s+/g, ''),
+    type: 'interactive',
+    interactive: {
+      type: 'button',
+      body: { text: body },
+      action: {
+        buttons: buttons.map((button) => ({ type: 'reply', reply: button })),
+      },
+    },
+  });
+}
+
+/**
+ * Sends an approved template message, which WhatsApp delivers at any time
+ */
+export async function sendWhatsAppTemplate(
+  credentials: WhatsAppCredentials,
+  toPhone: string,
+  template: WhatsAppTemplate
+): Promise<WhatsAppSendResult> {
+  return postMessage(credentials, {
+    to: toPhone.replace(/\s+/g, ''),
+    type: 'template',
+    template: {
+      name: template.name,
+      language: { code: template.language },
+      components: [
+        ...(template.parameters.length
+          ? [
+              {
+                type: 'body',
+                // Graph rejects empty parameters
+                parameters: template.parameters.map((text) => ({ type: 'text', text: text || '-' })),
+              },
+            ]
+          : []),
+        ...(template.buttonPayloads ?? []).map((payload, index) => ({
+          type: 'button',
+          sub_type: 'quick_reply',
+          index: String(index),
+          parameters: [{ type: 'payload', payload }],
+        })),
+      ],
+    },
+  });
+}
+
+/**
+ * Checks Meta's X-Hub-Signature-256 header ("sha256=<hex HMAC of the raw
+ * body>") against the app secret
+ */
+export async function verifyWebhookSignature(
+  rawBody: string,
+  header: string | null,
+  appSecret: string
+): Promise<boolean> {
+  const hex = header?.startsWith('sha256=') ? header.slice('sha256='.length) : '';
+  if (!/^[0-9a-f]{64}$/i.test(hex)) return false;
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(appSecret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['verify']
+  );
+  const signature = new Uint8Array(hex.match(/../g)!.map((byte) => parseInt(byte, 16)));
+  return await crypto.subtle.verify('HMAC', key, signature, encoder.encode(rawBody));
+}
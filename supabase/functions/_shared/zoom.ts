@@ -0,0 +1,73 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export const ZOOM_API_URL = 'https://api.zoom.us/v2';
+const ZOOM_TOKEN_URL = 'https://zoom.us/oauth/token';
+
+/**
+ * Get OAuth access token from Zoom using Server-to-Server OAuth
+ */
+export async function getZoomAccessToken(
+  clientId: string,
+  clientSecret: string,
+  accountId: string
+): Promise<string> {
+  // Create Basic Auth header (Client ID:Client Secret base64 encoded)
+  const credentials = btoa(`${clientId}:${clientSecret}`);
+  
+  const response = await fetch(ZOOM_TOKEN_URL, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Basic ${credentials}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams({
+      grant_type: 'account_credentials',
+      account_id: accountId,
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: 'Unknown error' }));
+    throw new Error(`Failed to get Zoom access token: ${error.error || error.message || response.statusText}`);
+  }
+
+  const data = await response.json();
+  return data.access_token;
+}
+
+/**
+ * Access token for the user's own Zoom credentials, or null when Zoom isn't connected
+ */
+export async function getUserZoomAccessToken(
+  client: SupabaseClient,
+  userId: string
+): Promise<string | null> {
+  const { data: profile } = await client
+    .from('profiles')
+    .select('zoom_api_key, zoom_api_secret, zoom_account_id')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (!profile?.zoom_api_key || !profile?.zoom_api_secret || !profile?.zoom_account_id) {
+    return null;
+  }
+
+  return getZoomAccessToken(profile.zoom_api_key, profile.zoom_api_secret, profile.zoom_account_id);
+}
+
+/**
+ * Deletes a meeting; a meeting that no longer exists counts as deleted
+ */
+export async function deleteZoomMeeting(accessToken: string, meetingId: string): Promise<void> {
+  const response = await fetch(`${ZOOM_API_URL}/meetings/${encodeURIComponent(meetingId)}`, {
+    method: 'DELETE',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+    },
+  });
+
+  if (!response.ok && response.status !== 404) {
+    const error = await response.json().catch(() => ({ message: 'Unknown error' }));
+    throw new Error(error.message || `Zoom API error: ${response.status}`);
+  }
+}
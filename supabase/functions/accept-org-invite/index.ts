@@ -0,0 +1,131 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { verifyInviteToken } from '../_shared/org-invite.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+/**
+ * Accepts a signed organization invite for the signed-in user: adds them to
+ * the organization and approves their account, so invited teachers skip the
+ * pending-approval step. The invite must be addressed to the user's email.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY') ?? '';
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const authHeader = req.headers.get('Authorization');
+
+    const supabaseClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: {
+        headers: {
+          Authorization: authHeader || '',
+        },
+      },
+      auth: {
+        persistSession: false,
+      },
+    });
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabaseClient.auth.getUser();
+
+    if (authError || !user) {
+      return json({ error: 'Unauthorized', details: authError?.message }, 401);
+    }
+
+    const { token } = await req.json();
+    const payload = typeof token === 'string' ? await verifyInviteToken(token) : null;
+
+    if (!payload) {
+      return json({ error: 'This invite link is invalid or has expired' }, 400);
+    }
+
+    if (!user.email || user.email.toLowerCase() !== payload.email.toLowerCase()) {
+      return json({ error: `This invite was sent to ${payload.email}. Sign in with that email to accept it.` }, 403);
+    }
+
+    // Membership and approval are outside the invitee's own RLS permissions
+    const adminClient = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        persistSession: false,
+      },
+    });
+
+    const { data: invite } = await adminClient
+      .from('organization_invites')
+      .select('id, organization_id, role, accepted_at, accepted_by, revoked_at, expires_at, organizations(name)')
+      .eq('id', payload.invite_id)
+      .maybeSingle();
+
+    if (!invite || invite.revoked_at || new Date(invite.expires_at).getTime() < Date.now()) {
+      return json({ error: 'This invite link is invalid or has expired' }, 400);
+    }
+
+    const organization = invite.organizations as { name: string } | null;
+
+    // Accepting twice (e.g. reopening the link) is fine
+    if (invite.accepted_at) {
+      if (invite.accepted_by === user.id) {
+        return json({ organization_id: invite.organization_id, organization_name: organization?.name ?? '' });
+      }
+      return json({ error: 'This invite has already been used' }, 400);
+    }
+
+    const { data: existing } = await adminClient
+      .from('organization_members')
+      .select('organization_id')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (existing && existing.organization_id !== invite.organization_id) {
+      return json({ error: 'You already belong to another organization' }, 409);
+    }
+
+    if (!existing) {
+      const { error: memberError } = await adminClient
+        .from('organization_members')
+        .insert({ organization_id: invite.organization_id, user_id: user.id, role: invite.role });
+
+      if (memberError) {
+        return json({ error: memberError.message }, 500);
+      }
+    }
+
+    await adminClient
+      .from('organization_invites')
+      .update({ accepted_at: new Date().toISOString(), accepted_by: user.id })
+      .eq('id', invite.id);
+
+    // Only pending accounts are approved; a suspension by an admin still stands
+    const { error: approvalError } = await adminClient
+      .from('profiles')
+      .update({ approval_status: 'APPROVED' })
+      .eq('id', user.id)
+      .eq('approval_status', 'PENDING');
+
+    if (approvalError) {
+      return json({ error: approvalError.message }, 500);
+    }
+
+    return json({ organization_id: invite.organization_id, organization_name: organization?.name ?? '' });
+  } catch (error) {
+    return json({ error: error instanceof Error ? error.message : 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,129 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { deleteZoomMeeting, getUserZoomAccessToken } from '../_shared/zoom.ts';
+import { sendSessionNotice } from '../_shared/session-notice.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+interface CanceledSession {
+  id: string;
+  zoom_meeting_id: string | null;
+  created_by: string | null;
+}
+
+/**
+ * Cancels a session (session_id) or the remaining occurrences of a series
+ * (series_id). The database work is done by the cancel_session /
+ * cancel_session_series RPCs (a single session may get a late-cancellation
+ * charge there); afterwards the Zoom meetings are deleted and,
+ * for a single session, the student can be notified.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY') ?? '';
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const authHeader = req.headers.get('Authorization');
+
+    const supabaseClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: {
+        headers: {
+          Authorization: authHeader || '',
+        },
+      },
+      auth: {
+        persistSession: false,
+      },
+    });
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabaseClient.auth.getUser();
+
+    if (authError || !user) {
+      return json({ error: 'Unauthorized', details: authError?.message }, 401);
+    }
+
+    const { session_id, series_id, notify_student, apply_charge_policy = true } = await req.json();
+
+    if (!session_id && !series_id) {
+      return json({ error: 'Missing required field: session_id or series_id' }, 400);
+    }
+
+    const { data, error } = session_id
+      ? await supabaseClient.rpc('cancel_session', {
+          p_session_id: session_id,
+          p_apply_policy: apply_charge_policy !== false,
+        })
+      : await supabaseClient.rpc('cancel_session_series', { p_series_id: series_id });
+
+    if (error) {
+      return json({ error: error.message }, 400);
+    }
+
+    const canceled: CanceledSession[] = Array.isArray(data) ? data : [data];
+    const warnings: string[] = [];
+
+    // Meetings and WhatsApp numbers belong to the session's teacher, who may
+    // not be the caller (an assistant or colleague), and profiles RLS hides
+    // the teacher's credentials from them. The RPCs above checked access.
+    const adminClient = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        persistSession: false,
+      },
+    });
+
+    // The sessions are already canceled; Zoom and notice failures are reported, not fatal
+    const meetingIds = canceled.map((s) => s.zoom_meeting_id).filter((id): id is string => !!id);
+    if (meetingIds.length > 0) {
+      // Every session here belongs to the same student, so the same teacher
+      const ownerId = canceled[0].created_by ?? user.id;
+
+      let accessToken: string | null = null;
+      try {
+        accessToken = await getUserZoomAccessToken(adminClient, ownerId);
+        if (!accessToken) {
+          warnings.push('Zoom is not connected, so the Zoom meeting was not deleted');
+        }
+      } catch (zoomError) {
+        warnings.push(zoomError instanceof Error ? zoomError.message : 'Zoom meeting could not be deleted');
+      }
+
+      // One failed meeting must not leave the rest of a series' meetings alive
+      if (accessToken) {
+        for (const meetingId of meetingIds) {
+          try {
+            await deleteZoomMeeting(accessToken, meetingId);
+          } catch (zoomError) {
+            const reason = zoomError instanceof Error ? zoomError.message : 'unknown error';
+            warnings.push(`Zoom meeting ${meetingId} could not be deleted: ${reason}`);
+          }
+        }
+      }
+    }
+
+    if (session_id && notify_student) {
+      const notice = await sendSessionNotice(adminClient, session_id, 'CANCELED', user.id);
+      if (!notice.ok) warnings.push(notice.error);
+    }
+
+    return json({ canceled: canceled.length, warnings });
+  } catch (error) {
+    return json({ error: error instanceof Error ? error.message : 'Internal server error' }, 500);
+  }
+});
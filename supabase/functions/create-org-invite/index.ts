@@ -0,0 +1,108 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { signInviteToken } from '../_shared/org-invite.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+/**
+ * Invites a teacher to the caller's organization. The invite row is created
+ * with the caller's client, so RLS limits this to organization owners and
+ * admins. Returns a signed link to /accept-invite; emailing it is up to the
+ * caller.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY') ?? '';
+    const authHeader = req.headers.get('Authorization');
+
+    const supabaseClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: {
+        headers: {
+          Authorization: authHeader || '',
+        },
+      },
+      auth: {
+        persistSession: false,
+      },
+    });
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabaseClient.auth.getUser();
+
+    if (authError || !user) {
+      return json({ error: 'Unauthorized', details: authError?.message }, 401);
+    }
+
+    const { email, role = 'TEACHER', app_url } = await req.json();
+    const normalizedEmail = typeof email === 'string' ? email.trim().toLowerCase() : '';
+
+    if (!normalizedEmail || !normalizedEmail.includes('@')) {
+      return json({ error: 'A valid email is required' }, 400);
+    }
+
+    if (role !== 'TEACHER' && role !== 'ADMIN') {
+      return json({ error: 'Role must be TEACHER or ADMIN' }, 400);
+    }
+
+    const { data: membership } = await supabaseClient
+      .from('organization_members')
+      .select('organization_id, organizations(name)')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!membership) {
+      return json({ error: 'You do not belong to an organization' }, 400);
+    }
+
+    const { data: invite, error: inviteError } = await supabaseClient
+      .from('organization_invites')
+      .insert({
+        organization_id: membership.organization_id,
+        email: normalizedEmail,
+        role,
+        invited_by: user.id,
+      })
+      .select('id, organization_id, email, expires_at')
+      .single();
+
+    if (inviteError || !invite) {
+      return json({ error: inviteError?.message || 'Invite could not be created' }, 403);
+    }
+
+    const token = await signInviteToken({
+      invite_id: invite.id,
+      organization_id: invite.organization_id,
+      email: invite.email,
+      exp: new Date(invite.expires_at).getTime(),
+    });
+
+    const origin = app_url || req.headers.get('origin') || '';
+    const organization = membership.organizations as { name: string } | null;
+
+    return json({
+      invite_id: invite.id,
+      organization_name: organization?.name ?? '',
+      expires_at: invite.expires_at,
+      invite_url: `${origin}/accept-invite?token=${encodeURIComponent(token)}`,
+    });
+  } catch (error) {
+    return json({ error: error instanceof Error ? error.message : 'Internal server error' }, 500);
+  }
+});
@@ -1,8 +1,6 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-
-const ZOOM_API_URL = 'https://api.zoom.us/v2';
-const ZOOM_TOKEN_URL = 'https://zoom.us/oauth/token';
+import { getZoomAccessToken, ZOOM_API_URL } from '../_shared/zoom.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -10,38 +8,6 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 };
 
-/**
- * Get OAuth access token from Zoom using Server-to-Server OAuth
- */
-async function getZoomAccessToken(
-  clientId: string,
-  clientSecret: string,
-  accountId: string
-): Promise<string> {
-  // Create Basic Auth header (Client ID:Client Secret base64 encoded)
-  const credentials = btoa(`${clientId}:${clientSecret}`);
-  
-  const response = await fetch(ZOOM_TOKEN_URL, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Basic ${credentials}`,
-      'Content-Type': 'application/x-www-form-urlencoded',
-    },
-    body: new URLSearchParams({
-      grant_type: 'account_credentials',
-      account_id: accountId,
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ message: 'Unknown error' }));
-    throw new Error(`Failed to get Zoom access token: ${error.error || error.message || response.statusText}`);
-  }
-
-  const data = await response.json();
-  return data.access_token;
-}
-
 serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -0,0 +1,97 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+/**
+ * Signs a user in with a recovery code when they have lost their
+ * authenticator. The caller has passed the password step (AAL1); a valid,
+ * unused code removes their TOTP factors so the session no longer needs
+ * AAL2. They are expected to enroll again from Settings.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY') ?? '';
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const authHeader = req.headers.get('Authorization');
+
+    const supabaseClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: {
+        headers: {
+          Authorization: authHeader || '',
+        },
+      },
+      auth: {
+        persistSession: false,
+      },
+    });
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabaseClient.auth.getUser();
+
+    if (authError || !user) {
+      return json({ error: 'Unauthorized', details: authError?.message }, 401);
+    }
+
+    const { code } = await req.json();
+    if (typeof code !== 'string' || !code.trim()) {
+      return json({ error: 'A recovery code is required' }, 400);
+    }
+
+    const { data: consumed, error: consumeError } = await supabaseClient.rpc('consume_mfa_recovery_code', {
+      p_code: code,
+    });
+
+    if (consumeError) {
+      // PT429: too many wrong codes, see consume_mfa_recovery_code
+      return json({ error: consumeError.message }, consumeError.code === 'PT429' ? 429 : 500);
+    }
+
+    if (!consumed) {
+      return json({ error: 'This recovery code is invalid or has already been used' }, 400);
+    }
+
+    // Removing factors needs the Auth admin API
+    const adminClient = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        persistSession: false,
+      },
+    });
+
+    const { data: factors, error: factorsError } = await adminClient.auth.admin.mfa.listFactors({ userId: user.id });
+    if (factorsError) {
+      return json({ error: factorsError.message }, 500);
+    }
+
+    for (const factor of factors?.factors ?? []) {
+      const { error: deleteError } = await adminClient.auth.admin.mfa.deleteFactor({ id: factor.id, userId: user.id });
+      if (deleteError) {
+        return json({ error: deleteError.message }, 500);
+      }
+    }
+
+    // Remaining codes belong to the removed factor
+    await adminClient.from('mfa_recovery_codes').delete().eq('user_id', user.id);
+
+    return json({ success: true });
+  } catch (error) {
+    return json({ error: error instanceof Error ? error.message : 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,134 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getEmailProvider } from '../_shared/notifications.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const STATUS_EMAIL: Record<string, { subject: string; message: string }> = {
+  PENDING: {
+    subject: 'Your TutorSessions account is pending review',
+    message: 'Your account is waiting for administrator approval again. We will email you once it has been reviewed.',
+  },
+  APPROVED: {
+    subject: 'Your TutorSessions account has been approved',
+    message: 'Your account has been approved. You can now sign in and start using TutorSessions.',
+  },
+  REJECTED: {
+    subject: 'Your TutorSessions account request was not approved',
+    message: 'Your account request was reviewed and not approved.',
+  },
+  SUSPENDED: {
+    subject: 'Your TutorSessions account has been suspended',
+    message: 'Your account has been suspended and you can no longer access your data.',
+  },
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Emails a user their current approval status after an admin changed it.
+ * Only admins may call this, and the recipient, status and reason are read
+ * from the user's profile rather than taken from the request.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY') ?? '';
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const authHeader = req.headers.get('Authorization');
+
+    const supabaseClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: {
+        headers: {
+          Authorization: authHeader || '',
+        },
+      },
+      auth: {
+        persistSession: false,
+      },
+    });
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabaseClient.auth.getUser();
+
+    if (authError || !user) {
+      return json({ error: 'Unauthorized', details: authError?.message }, 401);
+    }
+
+    const { data: isAdmin, error: roleError } = await supabaseClient.rpc('has_role', {
+      p_user_id: user.id,
+      p_role: 'admin',
+    });
+
+    if (roleError) {
+      return json({ error: roleError.message }, 500);
+    }
+
+    if (!isAdmin) {
+      return json({ error: 'Only admins can send approval emails' }, 403);
+    }
+
+    const { user_id } = await req.json();
+    if (typeof user_id !== 'string' || !user_id) {
+      return json({ error: 'Missing required field: user_id' }, 400);
+    }
+
+    const adminClient = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        persistSession: false,
+      },
+    });
+
+    const { data: profile, error: profileError } = await adminClient
+      .from('profiles')
+      .select('email, full_name, approval_status, approval_reason')
+      .eq('id', user_id)
+      .maybeSingle();
+
+    if (profileError || !profile) {
+      return json({ error: profileError?.message || 'User not found' }, 404);
+    }
+
+    if (!profile.email) {
+      return json({ error: 'User has no email address' }, 400);
+    }
+
+    const { subject, message } = STATUS_EMAIL[profile.approval_status];
+    const name = profile.full_name || profile.email;
+    const result = await getEmailProvider().send({
+      to: profile.email,
+      subject,
+      html: `
+        <p>Hi ${escapeHtml(name)},</p>
+        <p>${message}</p>
+        ${profile.approval_reason ? `<p><strong>Reason:</strong> ${escapeHtml(profile.approval_reason)}</p>` : ''}
+      `,
+      text: `Hi ${name},\n\n${message}${profile.approval_reason ? `\n\nReason: ${profile.approval_reason}` : ''}`,
+    });
+
+    if (!result.ok) {
+      return json({ error: result.error }, 502);
+    }
+
+    return json({ success: true });
+  } catch (error) {
+    return json({ error: error instanceof Error ? error.message : 'Internal server error' }, 500);
+  }
+});
@@ -2,19 +2,100 @@
 /* eslint-disable */
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getNotificationProvider, missingProviderError } from "../_shared/notifications.ts";
+import {
+  formatBalance,
+  formatSessionTime,
+  loadTemplate,
+  renderTemplate,
+  usesPlaceholder,
+} from "../_shared/templates.ts";
+import { sessionReplyButtons } from "../_shared/session-replies.ts";
+import { isConversationWindowOpen } from "../_shared/whatsapp.ts";
 
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
 const SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
 
-const DEFAULT_WHATSAPP_TOKEN = Deno.env.get("WHATSAPP_TOKEN") || "";
-const DEFAULT_WHATSAPP_PHONE_NUMBER_ID = Deno.env.get("WHATSAPP_PHONE_NUMBER_ID") || "";
-
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
   "Access-Control-Allow-Methods": "POST, OPTIONS",
 };
 
+// Jobs claimed per run, and how long a claim holds before another run may retry it
+const CLAIM_LIMIT = 50;
+const CLAIM_LEASE_SECONDS = 300;
+
+// Transient failures are retried after RETRY_BASE_SECONDS, doubling each time
+const MAX_ATTEMPTS = Number(Deno.env.get("REMINDER_MAX_ATTEMPTS") || 5);
+const RETRY_BASE_SECONDS = Number(Deno.env.get("REMINDER_RETRY_BASE_SECONDS") || 60);
+const RETRY_MAX_SECONDS = 60 * 60;
+
+type DeliveryResult =
+  | { ok: true; providerMessageId?: string }
+  | { ok: false; error: string; retryable?: boolean };
+
+function retryDelaySeconds(attempt: number): number {
+  const delay = Math.min(RETRY_BASE_SECONDS * 2 ** (attempt - 1), RETRY_MAX_SECONDS);
+  // Jitter so jobs that failed together don't retry together
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+async function deliver(admin, job, sess, student, message): Promise<DeliveryResult> {
+  const channel = job.channel;
+  if (channel !== "WHATSAPP" && channel !== "EMAIL") {
+    return { ok: false, error: `Unsupported channel: ${channel}` };
+  }
+
+  const to = channel === "EMAIL" ? student.email : student.phone_e164;
+  if (!to) {
+    return { ok: false, error: channel === "EMAIL" ? "Missing student email" : "Missing student phone" };
+  }
+
+  const provider = await getNotificationProvider(channel, admin, sess?.created_by ?? null);
+  if (!provider) {
+    return { ok: false, error: missingProviderError(channel) };
+  }
+
+  const escapeHtml = (value: string) =>
+    value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+  const result = await provider.send({
+    ...message,
+    to,
+    idempotencyKey: job.idempotency_key,
+    html: message.text
+      .split("\n")
+      .map((line) =>
+        `<p>${escapeHtml(line).replace(/https?:\/\/\S+/g, (url) => `<a href="${url}">${url}</a>`)}</p>`
+      )
+      .join(""),
+  });
+  return result.ok
+    ? { ok: true, providerMessageId: result.providerMessageId }
+    : { ok: false, error: result.error, retryable: result.retryable };
+}
+
+/**
+ * Settles a claimed job. Only touches it while still PROCESSING, so a run whose
+ * lease expired can't overwrite the outcome of the run that took over.
+ */
+async function finishJob(admin, jobId: string, fields: Record<string, unknown>) {
+  await admin
+    .from("reminder_jobs")
+    .update({ ...fields, locked_until: null })
+    .eq("id", jobId)
+    .eq("status", "PROCESSING");
+}
+
+/**
+ * Sends due reminder_jobs on their channel (WHATSAPP or EMAIL). The function
+ * keeps its original name because the scheduler invokes it by that name.
+ * With NOTIFICATION_PROVIDER=mock nothing leaves the function. Jobs are
+ * claimed through claim_reminder_jobs so overlapping runs never share a job.
+ * The text comes from message_templates in the student's language; WhatsApp
+ * reminders outside the 24-hour window use the teacher's approved template.
+ */
 serve(async (req) => {
   console.log("Function invoked:", req.method, new Date().toISOString());
   
@@ -34,39 +115,75 @@ serve(async (req) => {
     console.log("Creating Supabase client...");
     const admin = createClient(SUPABASE_URL, SERVICE_ROLE_KEY);
 
-    const now = new Date().toISOString();
-    console.log("Querying reminder_jobs for jobs scheduled before:", now);
+    console.log("Claiming due reminder_jobs...");
+    const { data: claimed, error: claimError } = await admin.rpc("claim_reminder_jobs", {
+      p_limit: CLAIM_LIMIT,
+      p_lease_seconds: CLAIM_LEASE_SECONDS,
+    });
+
+    if (claimError) {
+      console.error("Error claiming reminder_jobs:", claimError);
+      return new Response(JSON.stringify({ error: claimError.message }), {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    console.log(`Claimed ${claimed?.length || 0} reminder jobs`);
+
+    if (!claimed || claimed.length === 0) {
+      return new Response(JSON.stringify({ processed: 0 }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
 
     const { data: jobs, error: jobsError } = await admin
       .from("reminder_jobs")
       .select(`
-        id, session_id, scheduled_for,
+        id, session_id, scheduled_for, channel, idempotency_key, attempt_count, error_history,
         sessions (
-          id, scheduled_start_at, zoom_join_url, created_by,
+          id, status, scheduled_start_at, zoom_join_url, created_by,
           students (
-            first_name, last_name, phone_e164
+            id, first_name, last_name, phone_e164, email, language, timezone, whatsapp_last_inbound_at
           )
         )
       `)
-      .eq("channel", "WHATSAPP")
-      .eq("status", "PENDING")
-      .lte("scheduled_for", now);
+      .in("id", claimed.map((job) => job.id));
 
+    // Claimed jobs stay PROCESSING and are retried once their lease expires
     if (jobsError) {
-      console.error("Error querying reminder_jobs:", jobsError);
+      console.error("Error loading claimed reminder_jobs:", jobsError);
       return new Response(JSON.stringify({ error: jobsError.message }), {
         status: 500,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
 
-    console.log(`Found ${jobs?.length || 0} pending reminder jobs`);
+    // Templates are per teacher and language, so most runs only need a few
+    const templates = new Map();
+    const templateFor = async (ownerId, language) => {
+      const key = `${ownerId}:${language}`;
+      if (!templates.has(key)) {
+        templates.set(key, await loadTemplate(admin, ownerId, "REMINDER", language));
+      }
+      return templates.get(key);
+    };
 
-    if (!jobs || jobs.length === 0) {
-      return new Response(JSON.stringify({ processed: 0 }), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
+    const whatsappTemplates = new Map();
+    const whatsappTemplateFor = async (ownerId) => {
+      if (!ownerId) return null;
+      if (!whatsappTemplates.has(ownerId)) {
+        const { data } = await admin
+          .from("profiles")
+          .select(
+            "whatsapp_template_name, whatsapp_template_language, whatsapp_template_params, whatsapp_template_quick_replies"
+          )
+          .eq("id", ownerId)
+          .maybeSingle();
+        whatsappTemplates.set(ownerId, data?.whatsapp_template_name ? data : null);
+      }
+      return whatsappTemplates.get(ownerId);
+    };
 
     for (const job of jobs) {
       console.log(`Processing job ${job.id} for session ${job.session_id}`);
@@ -74,105 +191,114 @@ serve(async (req) => {
       
       if (!sess) {
         console.error(`Session not found for job ${job.id}`);
-        await admin
-          .from("reminder_jobs")
-          .update({ status: "FAILED", last_error: "Session not found" })
-          .eq("id", job.id);
+        await finishJob(admin, job.id, { status: "FAILED", last_error: "Session not found" });
+        continue;
+      }
+
+      // Safety net for sessions that were canceled without going through cancel-session
+      if (sess.status !== "SCHEDULED") {
+        console.log(`Session ${sess.id} is ${sess.status}, canceling job ${job.id}`);
+        await finishJob(admin, job.id, { status: "CANCELED" });
         continue;
       }
 
       const student = sess.students;
       if (!student) {
         console.error(`Student not found for session ${sess.id}`);
-        await admin
-          .from("reminder_jobs")
-          .update({ status: "FAILED", last_error: "Student not found" })
-          .eq("id", job.id);
+        await finishJob(admin, job.id, { status: "FAILED", last_error: "Student not found" });
         continue;
       }
 
-      const toPhone = student.phone_e164;
-
-      if (!toPhone) {
-        console.error(`Missing phone for student in job ${job.id}`);
-        await admin
-          .from("reminder_jobs")
-          .update({ status: "FAILED", last_error: "Missing student phone" })
-          .eq("id", job.id);
+      const language = student.language || "en";
+      const template = await templateFor(sess.created_by ?? null, language);
+      if (!template) {
+        console.error(`No reminder template for language ${language}`);
+        await finishJob(admin, job.id, { status: "FAILED", last_error: `No reminder template for ${language}` });
         continue;
       }
 
-      const studentName = `${student.first_name ?? ""} ${student.last_name ?? ""}`.trim() || "Student";
-      const startLocal = new Date(sess.scheduled_start_at).toLocaleString();
-      const text = [
-        `Reminder: Your tutoring session starts at ${startLocal}.`,
-        `Student: ${studentName}`,
-        sess.zoom_join_url ? `Zoom: ${sess.zoom_join_url}` : "",
-      ]
-        .filter(Boolean)
-        .join("\n");
-
-      // Resolve WhatsApp credentials: per-user from profiles or fall back to env
-      let phoneNumberId = DEFAULT_WHATSAPP_PHONE_NUMBER_ID;
-      let token = DEFAULT_WHATSAPP_TOKEN;
-
-      if (sess?.created_by) {
-        const { data: profile } = await admin
-          .from("profiles")
-          .select("whatsapp_phone_number_id, whatsapp_token")
-          .eq("id", sess.created_by)
-          .maybeSingle();
-        if (profile?.whatsapp_phone_number_id && profile?.whatsapp_token) {
-          phoneNumberId = profile.whatsapp_phone_number_id;
-          token = profile.whatsapp_token;
-        }
-      }
+      // Outside the conversation window only an approved template gets through.
+      // Without one configured the text is still tried, as before.
+      const windowOpen = isConversationWindowOpen(student.whatsapp_last_inbound_at);
+      const whatsappSettings =
+        job.channel === "WHATSAPP" && !windowOpen ? await whatsappTemplateFor(sess.created_by ?? null) : null;
 
-      if (!phoneNumberId || !token) {
-        console.error(`Missing WhatsApp credentials for job ${job.id}`);
-        await admin
-          .from("reminder_jobs")
-          .update({ status: "FAILED", last_error: "Missing WhatsApp credentials" })
-          .eq("id", job.id);
-        continue;
+      const values = {
+        student_name: `${student.first_name ?? ""} ${student.last_name ?? ""}`.trim() || "Student",
+        start_time: formatSessionTime(sess.scheduled_start_at, language, student.timezone || "UTC"),
+        zoom_link: sess.zoom_join_url ?? "",
+        balance: "",
+      };
+      if (usesPlaceholder(template, "balance") || whatsappSettings?.whatsapp_template_params.includes("balance")) {
+        // Summed here because get_student_balance only answers for signed-in users
+        const { data: entries } = await admin.from("ledger_entries").select("amount").eq("student_id", student.id);
+        const balance = (entries || []).reduce((sum, entry) => sum + Number(entry.amount), 0);
+        values.balance = formatBalance(balance, language);
       }
+      const subject = renderTemplate(template.subject, values);
+      const text = renderTemplate(template.body, values);
+      // Confirm / Need to reschedule, answered through whatsapp-webhook
+      const quickReplies = job.channel === "WHATSAPP" ? sessionReplyButtons(sess.id, language) : undefined;
+      const whatsappTemplate = whatsappSettings
+        ? {
+            name: whatsappSettings.whatsapp_template_name,
+            language: whatsappSettings.whatsapp_template_language || language,
+            parameters: whatsappSettings.whatsapp_template_params.map((name) => values[name]),
+            buttonPayloads: whatsappSettings.whatsapp_template_quick_replies
+              ? quickReplies.map((button) => button.id)
+              : undefined,
+          }
+        : undefined;
 
-      console.log(`Sending WhatsApp message for job ${job.id} to ${toPhone}`);
-      const graphUrl = `https://graph.facebook.com/v19.0/${phoneNumberId}/messages`;
-
-      const resp = await fetch(graphUrl, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${token}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          messaging_product: "whatsapp",
-          to: toPhone.replace(/\s+/g, ""),
-          type: "text",
-          text: { body: text },
-        }),
-      });
+      console.log(`Sending ${job.channel} reminder for job ${job.id}`);
+      const result = await deliver(admin, job, sess, student, { subject, text, whatsappTemplate, quickReplies });
 
-      if (resp.ok) {
-        console.log(`WhatsApp message sent successfully for job ${job.id}`);
-        await admin.from("reminder_jobs").update({ status: "SENT", last_error: null }).eq("id", job.id);
-        // Reflect success on session (last attempt status)
-        await admin.from("sessions").update({ whatsapp_notification_status: "SENT", whatsapp_last_error: null }).eq("id", sess.id);
+      let status = "SENT";
+      if (result.ok) {
+        console.log(`${job.channel} reminder sent successfully for job ${job.id}`);
+        await finishJob(admin, job.id, {
+          status,
+          last_error: null,
+          next_attempt_at: null,
+          // Matched by whatsapp-webhook to record delivered/read
+          provider_message_id: result.providerMessageId ?? null,
+          delivery_status: job.channel === "WHATSAPP" ? "SENT" : null,
+          delivery_updated_at: new Date().toISOString(),
+        });
       } else {
-        const errText = await resp.text();
-        let err;
-        try {
-          err = JSON.parse(errText);
-        } catch {
-          err = { message: errText, status: resp.status };
+        console.error(`${job.channel} delivery error for job ${job.id} (attempt ${job.attempt_count}):`, result.error);
+        const errorHistory = [
+          ...(job.error_history || []),
+          { attempt: job.attempt_count, at: new Date().toISOString(), error: result.error },
+        ];
+
+        if (result.retryable && job.attempt_count < MAX_ATTEMPTS) {
+          status = "PENDING";
+          const nextAttemptAt = new Date(Date.now() + retryDelaySeconds(job.attempt_count) * 1000).toISOString();
+          console.log(`Retrying job ${job.id} at ${nextAttemptAt}`);
+          await finishJob(admin, job.id, {
+            status,
+            last_error: result.error,
+            error_history: errorHistory,
+            next_attempt_at: nextAttemptAt,
+          });
+        } else {
+          // Out of attempts goes to the dead letter; permanent errors stay FAILED
+          status = result.retryable ? "DEAD" : "FAILED";
+          await finishJob(admin, job.id, { status, last_error: result.error, error_history: errorHistory });
         }
-        console.error(`WhatsApp API error for job ${job.id}:`, err);
+      }
+
+      // Reflect the last settled WhatsApp attempt on the session
+      if (job.channel === "WHATSAPP" && status !== "PENDING") {
         await admin
-          .from("reminder_jobs")
-          .update({ status: "FAILED", last_error: JSON.stringify(err) })
-          .eq("id", job.id);
-        await admin.from("sessions").update({ whatsapp_notification_status: "FAILED", whatsapp_last_error: JSON.stringify(err) }).eq("id", sess.id);
+          .from("sessions")
+          .update({
+            whatsapp_notification_status: result.ok ? "SENT" : "FAILED",
+            whatsapp_last_error: result.ok ? null : result.error,
+            ...(result.ok ? { whatsapp_invite_message_id: result.providerMessageId ?? null } : {}),
+          })
+          .eq("id", sess.id);
       }
     }
 
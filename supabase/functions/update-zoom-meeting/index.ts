@@ -0,0 +1,133 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getZoomAccessToken, ZOOM_API_URL } from '../_shared/zoom.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY') ?? '';
+    const authHeader = req.headers.get('Authorization');
+
+    const supabaseClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: {
+        headers: {
+          Authorization: authHeader || '',
+        },
+      },
+      auth: {
+        persistSession: false,
+      },
+    });
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabaseClient.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({
+          error: 'Unauthorized',
+          details: authError?.message || 'User not found. Please ensure you are logged in.',
+        }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const { data: profile, error: profileError } = await supabaseClient
+      .from('profiles')
+      .select('zoom_api_key, zoom_api_secret, zoom_account_id')
+      .eq('id', user.id)
+      .single();
+
+    if (profileError || !profile?.zoom_api_key || !profile?.zoom_api_secret || !profile?.zoom_account_id) {
+      return new Response(
+        JSON.stringify({
+          error: 'Zoom credentials not found. Please connect Zoom in Settings.',
+          details: 'Missing Client ID, Client Secret, or Account ID'
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const { meeting_id, start_time, duration } = await req.json();
+
+    if (!meeting_id || !start_time || !duration) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required fields: meeting_id, start_time, duration' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const accessToken = await getZoomAccessToken(
+      profile.zoom_api_key,
+      profile.zoom_api_secret,
+      profile.zoom_account_id
+    );
+
+    // Move the existing meeting so its join link stays the same
+    const zoomResponse = await fetch(`${ZOOM_API_URL}/meetings/${encodeURIComponent(meeting_id)}`, {
+      method: 'PATCH',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        start_time: new Date(start_time).toISOString(),
+        duration: duration,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      }),
+    });
+
+    // Zoom answers a successful update with 204 No Content
+    if (!zoomResponse.ok) {
+      const errorData = await zoomResponse.json().catch(() => ({ message: 'Unknown error' }));
+
+      return new Response(
+        JSON.stringify({
+          error: errorData.message || `Zoom API error: ${zoomResponse.status}`,
+          details: errorData,
+        }),
+        {
+          status: zoomResponse.status,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ id: String(meeting_id) }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Internal server error' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
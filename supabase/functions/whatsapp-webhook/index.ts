@@ -0,0 +1,194 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { verifyWebhookSignature } from '../_shared/whatsapp.ts';
+import { parseSessionReplyPayload } from '../_shared/session-replies.ts';
+import { deleteZoomMeeting, getUserZoomAccessToken } from '../_shared/zoom.ts';
+import { sendSessionNotice } from '../_shared/session-notice.ts';
+
+// Meta's status values and the delivery_status each one records
+const DELIVERY_STATUSES: Record<string, string> = {
+  sent: 'SENT',
+  delivered: 'DELIVERED',
+  read: 'READ',
+  failed: 'FAILED',
+};
+
+interface StatusCallback {
+  id: string;
+  status: string;
+  errors?: { code?: number; title?: string; message?: string; error_data?: { details?: string } }[];
+}
+
+interface InboundMessage {
+  from: string;
+  type?: string;
+  /** Reply button on an interactive message */
+  interactive?: { type?: string; button_reply?: { id: string } };
+  /** Quick-reply button on a template message */
+  button?: { payload?: string };
+}
+
+interface ChangeValue {
+  metadata?: { phone_number_id?: string };
+  statuses?: StatusCallback[];
+  messages?: InboundMessage[];
+}
+
+/**
+ * Receives WhatsApp Cloud API webhooks. GET answers Meta's verification
+ * handshake (WHATSAPP_VERIFY_TOKEN). POST must be signed with the app secret
+ * (WHATSAPP_APP_SECRET); status callbacks update the matching reminder_jobs
+ * and session, and messages from students open their 24-hour window for
+ * plain-text reminders. Taps on a reminder's Confirm / Need to reschedule
+ * buttons are recorded by record_session_reply.
+ */
+serve(async (req) => {
+  const url = new URL(req.url);
+
+  if (req.method === 'GET') {
+    const verifyToken = Deno.env.get('WHATSAPP_VERIFY_TOKEN') ?? '';
+    if (
+      verifyToken &&
+      url.searchParams.get('hub.mode') === 'subscribe' &&
+      url.searchParams.get('hub.verify_token') === verifyToken
+    ) {
+      return new Response(url.searchParams.get('hub.challenge') ?? '', { status: 200 });
+    }
+    return new Response('Forbidden', { status: 403 });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  const appSecret = Deno.env.get('WHATSAPP_APP_SECRET') ?? '';
+  if (!appSecret) {
+    console.error('WHATSAPP_APP_SECRET is not set; rejecting webhook');
+    return new Response('Webhook not configured', { status: 500 });
+  }
+
+  const rawBody = await req.text();
+  if (!(await verifyWebhookSignature(rawBody, req.headers.get('X-Hub-Signature-256'), appSecret))) {
+    return new Response('Invalid signature', { status: 401 });
+  }
+
+  let payload: { entry?: { changes?: { value?: ChangeValue }[] }[] };
+  try {
+    payload = JSON.parse(rawBody);
+  } catch {
+    return new Response('Invalid JSON', { status: 400 });
+  }
+
+  const admin = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '', {
+    auth: {
+      persistSession: false,
+    },
+  });
+
+  const values = (payload.entry ?? []).flatMap((entry) => (entry.changes ?? []).map((change) => change.value ?? {}));
+
+  for (const value of values) {
+    for (const callback of value.statuses ?? []) {
+      const status = DELIVERY_STATUSES[callback.status];
+      if (!status) continue;
+
+      const error = callback.errors?.length ? JSON.stringify({ error: callback.errors[0] }) : null;
+      const { error: rpcError } = await admin.rpc('apply_whatsapp_delivery_status', {
+        p_message_id: callback.id,
+        p_status: status,
+        p_error: error,
+      });
+      if (rpcError) {
+        console.error(`Error applying ${status} for message ${callback.id}:`, rpcError);
+      }
+    }
+
+    if (value.messages?.length && value.metadata?.phone_number_id) {
+      await recordInboundMessages(admin, value.metadata.phone_number_id, value.messages);
+    }
+
+    for (const message of value.messages ?? []) {
+      const payload =
+        message.type === 'interactive' ? message.interactive?.button_reply?.id : message.button?.payload;
+      const reply = payload ? parseSessionReplyPayload(payload) : null;
+      if (reply) {
+        await recordSessionReply(admin, reply.sessionId, message.from, reply.reply);
+      }
+    }
+  }
+
+  // Meta retries anything but a 200, so processing errors are only logged
+  return new Response('ok', { status: 200 });
+});
+
+/**
+ * Stamps whatsapp_last_inbound_at on the students who wrote in. Only the
+ * students of teachers using this phone number are matched; the shared number
+ * from the environment matches everyone's students.
+ */
+async function recordInboundMessages(
+  admin: ReturnType<typeof createClient>,
+  phoneNumberId: string,
+  messages: InboundMessage[]
+) {
+  const phones = [...new Set(messages.map((message) => `+${message.from.replace(/\D/g, '')}`))];
+
+  let query = admin
+    .from('students')
+    .update({ whatsapp_last_inbound_at: new Date().toISOString() })
+    .in('phone_e164', phones);
+
+  if (phoneNumberId !== Deno.env.get('WHATSAPP_PHONE_NUMBER_ID')) {
+    const { data: owners } = await admin.from('profiles').select('id').eq('whatsapp_phone_number_id', phoneNumberId);
+    if (!owners?.length) return;
+    query = query.in('owner_id', owners.map((owner) => owner.id));
+  }
+
+  const { error } = await query;
+  if (error) {
+    console.error('Error recording inbound WhatsApp messages:', error);
+  }
+}
+
+/**
+ * Stores a button reply. A late cancel has already gone through cancel_session;
+ * as in cancel-session, the Zoom meeting is then deleted and the student told.
+ */
+async function recordSessionReply(
+  admin: ReturnType<typeof createClient>,
+  sessionId: string,
+  from: string,
+  reply: string
+) {
+  const { data: kind, error } = await admin.rpc('record_session_reply', {
+    p_session_id: sessionId,
+    p_phone: from,
+    p_reply: reply,
+  });
+  if (error) {
+    console.error(`Error recording ${reply} for session ${sessionId}:`, error);
+    return;
+  }
+  if (kind !== 'LATE_CANCEL') return;
+
+  const { data: session } = await admin
+    .from('sessions')
+    .select('created_by, zoom_meeting_id')
+    .eq('id', sessionId)
+    .maybeSingle();
+  if (!session?.created_by) return;
+
+  if (session.zoom_meeting_id) {
+    try {
+      const accessToken = await getUserZoomAccessToken(admin, session.created_by);
+      if (accessToken) await deleteZoomMeeting(accessToken, session.zoom_meeting_id);
+    } catch (zoomError) {
+      console.error(`Zoom meeting for session ${sessionId} could not be deleted:`, zoomError);
+    }
+  }
+
+  const notice = await sendSessionNotice(admin, sessionId, 'CANCELED', session.created_by);
+  if (!notice.ok) {
+    console.error(`Cancellation notice for session ${sessionId} failed:`, notice.error);
+  }
+}
@@ -0,0 +1,216 @@
+-- Recurring session series
+-- A series stores the recurrence pattern; the generated occurrences live in
+-- public.sessions and point back to their series through series_id.
+CREATE TABLE public.session_series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id UUID NOT NULL REFERENCES public.students(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES auth.users(id),
+  rrule TEXT NOT NULL, -- RRULE subset, e.g. 'FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,WE'
+  dtstart TIMESTAMP WITH TIME ZONE NOT NULL,
+  duration_minutes INTEGER NOT NULL CHECK (duration_minutes > 0),
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  until_date DATE,
+  occurrence_count INTEGER CHECK (occurrence_count > 0),
+  exdates DATE[] NOT NULL DEFAULT '{}', -- skipped occurrence dates (in the series timezone)
+  notes TEXT,
+  whatsapp_reminder_options TEXT,
+  canceled_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT session_series_has_end CHECK (until_date IS NOT NULL OR occurrence_count IS NOT NULL)
+);
+
+ALTER TABLE public.sessions
+ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES public.session_series(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_sessions_series_id ON public.sessions (series_id);
+
+ALTER TABLE public.session_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers can view all session series"
+  ON public.session_series FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Teachers can create session series"
+  ON public.session_series FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Teachers can update session series"
+  ON public.session_series FOR UPDATE
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Teachers can delete session series"
+  ON public.session_series FOR DELETE
+  TO authenticated
+  USING (true);
+
+-- Pending reminders of canceled occurrences are removed when a series is canceled
+CREATE POLICY "Teachers can delete reminder jobs"
+  ON public.reminder_jobs FOR DELETE
+  TO authenticated
+  USING (true);
+
+CREATE TRIGGER update_session_series_updated_at
+  BEFORE UPDATE ON public.session_series
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Edit "this and following": moves every scheduled occurrence from the given
+-- session onwards to a new time of day / duration, shifts their pending
+-- reminders by the same amount and splits the series at that occurrence.
+-- Returns the id of the series that now owns the edited occurrences.
+CREATE OR REPLACE FUNCTION public.update_session_series_following(
+  p_session_id UUID,
+  p_start_time TIME,
+  p_duration_minutes INTEGER,
+  p_notes TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_session public.sessions%ROWTYPE;
+  v_series public.session_series%ROWTYPE;
+  v_from_date DATE;
+  v_earlier INTEGER;
+  v_remaining INTEGER;
+  v_target_series_id UUID;
+BEGIN
+  IF p_duration_minutes IS NULL OR p_duration_minutes <= 0 THEN
+    RAISE EXCEPTION 'Duration must be greater than zero';
+  END IF;
+
+  SELECT * INTO v_session FROM public.sessions WHERE id = p_session_id;
+  IF NOT FOUND OR v_session.series_id IS NULL THEN
+    RAISE EXCEPTION 'Session % is not part of a series', p_session_id;
+  END IF;
+
+  SELECT * INTO v_series
+  FROM public.session_series
+  WHERE id = v_session.series_id
+  FOR UPDATE;
+
+  v_from_date := (v_session.scheduled_start_at AT TIME ZONE v_series.timezone)::date;
+
+  SELECT count(*) INTO v_earlier
+  FROM public.sessions
+  WHERE series_id = v_series.id
+    AND scheduled_start_at < v_session.scheduled_start_at;
+
+  SELECT count(*) INTO v_remaining
+  FROM public.sessions
+  WHERE series_id = v_series.id
+    AND scheduled_start_at >= v_session.scheduled_start_at;
+
+  IF v_earlier = 0 THEN
+    -- Editing from the first occurrence: the whole series changes in place
+    UPDATE public.session_series
+    SET dtstart = (v_from_date + p_start_time) AT TIME ZONE v_series.timezone,
+        duration_minutes = p_duration_minutes,
+        notes = p_notes
+    WHERE id = v_series.id;
+    v_target_series_id := v_series.id;
+  ELSE
+    INSERT INTO public.session_series (
+      student_id, created_by, rrule, dtstart, duration_minutes, timezone,
+      until_date, occurrence_count, exdates, notes, whatsapp_reminder_options
+    )
+    VALUES (
+      v_series.student_id,
+      v_series.created_by,
+      v_series.rrule,
+      (v_from_date + p_start_time) AT TIME ZONE v_series.timezone,
+      p_duration_minutes,
+      v_series.timezone,
+      v_series.until_date,
+      CASE WHEN v_series.occurrence_count IS NULL THEN NULL ELSE v_remaining END,
+      ARRAY(SELECT d FROM unnest(v_series.exdates) AS d WHERE d >= v_from_date),
+      p_notes,
+      v_series.whatsapp_reminder_options
+    )
+    RETURNING id INTO v_target_series_id;
+
+    -- Close the original series on the day before the edited occurrence
+    UPDATE public.session_series
+    SET until_date = CASE WHEN occurrence_count IS NULL THEN v_from_date - 1 ELSE until_date END,
+        occurrence_count = CASE WHEN occurrence_count IS NULL THEN NULL ELSE v_earlier END,
+        exdates = ARRAY(SELECT d FROM unnest(exdates) AS d WHERE d < v_from_date)
+    WHERE id = v_series.id;
+  END IF;
+
+  -- Shift pending reminders by the same delta as their session
+  UPDATE public.reminder_jobs r
+  SET scheduled_for = r.scheduled_for + (
+    (((s.scheduled_start_at AT TIME ZONE v_series.timezone)::date + p_start_time) AT TIME ZONE v_series.timezone)
+    - s.scheduled_start_at
+  )
+  FROM public.sessions s
+  WHERE r.session_id = s.id
+    AND r.status = 'PENDING'
+    AND s.series_id = v_series.id
+    AND s.status = 'SCHEDULED'
+    AND s.scheduled_start_at >= v_session.scheduled_start_at;
+
+  UPDATE public.sessions
+  SET scheduled_start_at = ((scheduled_start_at AT TIME ZONE v_series.timezone)::date + p_start_time) AT TIME ZONE v_series.timezone,
+      scheduled_end_at = (((scheduled_start_at AT TIME ZONE v_series.timezone)::date + p_start_time) AT TIME ZONE v_series.timezone)
+        + make_interval(mins => p_duration_minutes),
+      notes = p_notes
+  WHERE series_id = v_series.id
+    AND status = 'SCHEDULED'
+    AND scheduled_start_at >= v_session.scheduled_start_at;
+
+  UPDATE public.sessions
+  SET series_id = v_target_series_id
+  WHERE series_id = v_series.id
+    AND scheduled_start_at >= v_session.scheduled_start_at;
+
+  RETURN v_target_series_id;
+END;
+$$;
+
+-- Cancel a series: every scheduled occurrence starting at or after p_from is
+-- canceled and its pending reminders are dropped. Returns the number of
+-- canceled occurrences.
+CREATE OR REPLACE FUNCTION public.cancel_session_series(
+  p_series_id UUID,
+  p_from TIMESTAMP WITH TIME ZONE DEFAULT now()
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_canceled INTEGER;
+BEGIN
+  PERFORM 1 FROM public.session_series WHERE id = p_series_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Series % not found', p_series_id;
+  END IF;
+
+  DELETE FROM public.reminder_jobs r
+  USING public.sessions s
+  WHERE r.session_id = s.id
+    AND r.status = 'PENDING'
+    AND s.series_id = p_series_id
+    AND s.status = 'SCHEDULED'
+    AND s.scheduled_start_at >= p_from;
+
+  UPDATE public.sessions
+  SET status = 'CANCELED'
+  WHERE series_id = p_series_id
+    AND status = 'SCHEDULED'
+    AND scheduled_start_at >= p_from;
+  GET DIAGNOSTICS v_canceled = ROW_COUNT;
+
+  UPDATE public.session_series
+  SET canceled_at = now()
+  WHERE id = p_series_id;
+
+  RETURN v_canceled;
+END;
+$$;
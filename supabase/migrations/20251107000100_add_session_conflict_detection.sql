@@ -0,0 +1,125 @@
+-- Scheduling conflict detection
+-- A teacher (sessions.created_by) can't have two SCHEDULED sessions that
+-- overlap in time. Enforced by a trigger rather than an exclusion constraint
+-- so existing overlapping rows don't block the migration; a per-teacher
+-- advisory lock keeps concurrent inserts from racing past the check.
+CREATE INDEX IF NOT EXISTS idx_sessions_created_by_scheduled
+  ON public.sessions (created_by, scheduled_start_at, scheduled_end_at)
+  WHERE status = 'SCHEDULED';
+
+CREATE OR REPLACE FUNCTION public.check_session_conflict()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_conflict public.sessions%ROWTYPE;
+BEGIN
+  IF NEW.status <> 'SCHEDULED' OR NEW.created_by IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('sessions:' || NEW.created_by::text));
+
+  SELECT * INTO v_conflict
+  FROM public.sessions
+  WHERE created_by = NEW.created_by
+    AND status = 'SCHEDULED'
+    AND id <> NEW.id
+    AND scheduled_start_at < NEW.scheduled_end_at
+    AND scheduled_end_at > NEW.scheduled_start_at
+  ORDER BY scheduled_start_at
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Session overlaps with another scheduled session (%)', v_conflict.id
+      USING ERRCODE = 'exclusion_violation',
+            DETAIL = format('%s - %s', v_conflict.scheduled_start_at, v_conflict.scheduled_end_at);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_sessions_conflict
+  BEFORE INSERT OR UPDATE OF scheduled_start_at, scheduled_end_at, status, created_by
+  ON public.sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_session_conflict();
+
+-- Lists the current user's scheduled sessions that overlap any of the given
+-- slots. p_starts and p_ends are parallel arrays; slot_index is the 1-based
+-- position of the slot that conflicts.
+CREATE OR REPLACE FUNCTION public.find_session_conflicts(
+  p_starts TIMESTAMP WITH TIME ZONE[],
+  p_ends TIMESTAMP WITH TIME ZONE[],
+  p_exclude_session_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  slot_index INTEGER,
+  session_id UUID,
+  student_id UUID,
+  student_name TEXT,
+  scheduled_start_at TIMESTAMP WITH TIME ZONE,
+  scheduled_end_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    slot.idx::INTEGER,
+    s.id,
+    s.student_id,
+    concat_ws(' ', st.first_name, st.last_name),
+    s.scheduled_start_at,
+    s.scheduled_end_at
+  FROM unnest(p_starts, p_ends) WITH ORDINALITY AS slot(starts_at, ends_at, idx)
+  JOIN public.sessions s
+    ON s.scheduled_start_at < slot.ends_at
+   AND s.scheduled_end_at > slot.starts_at
+  JOIN public.students st ON st.id = s.student_id
+  WHERE s.created_by = auth.uid()
+    AND s.status = 'SCHEDULED'
+    AND s.id IS DISTINCT FROM p_exclude_session_id
+  ORDER BY slot.idx, s.scheduled_start_at;
+$$;
+
+-- Earliest start at or after p_after where a session of p_duration_minutes
+-- fits without overlapping the current user's scheduled sessions.
+CREATE OR REPLACE FUNCTION public.next_free_session_slot(
+  p_after TIMESTAMP WITH TIME ZONE,
+  p_duration_minutes INTEGER,
+  p_exclude_session_id UUID DEFAULT NULL
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_candidate TIMESTAMP WITH TIME ZONE := p_after;
+  v_blocking_end TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF p_duration_minutes IS NULL OR p_duration_minutes <= 0 THEN
+    RAISE EXCEPTION 'Duration must be greater than zero';
+  END IF;
+
+  -- Each step jumps past the latest overlapping session, so this terminates
+  -- once the candidate is beyond every scheduled session
+  LOOP
+    SELECT max(scheduled_end_at) INTO v_blocking_end
+    FROM public.sessions
+    WHERE created_by = auth.uid()
+      AND status = 'SCHEDULED'
+      AND id IS DISTINCT FROM p_exclude_session_id
+      AND scheduled_start_at < v_candidate + make_interval(mins => p_duration_minutes)
+      AND scheduled_end_at > v_candidate;
+
+    EXIT WHEN v_blocking_end IS NULL;
+    v_candidate := v_blocking_end;
+  END LOOP;
+
+  RETURN v_candidate;
+END;
+$$;
@@ -0,0 +1,3 @@
+-- Reminders of a cancelled session are kept for history but must never be sent.
+-- Added on its own because a new enum value can't be used in the same transaction.
+ALTER TYPE public.reminder_status ADD VALUE IF NOT EXISTS 'CANCELED';
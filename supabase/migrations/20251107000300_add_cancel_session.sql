@@ -0,0 +1,78 @@
+-- Cancel a single scheduled session and stop its pending reminders.
+-- Zoom cleanup and the optional student notice happen in the cancel-session
+-- Edge Function, which calls this first.
+CREATE OR REPLACE FUNCTION public.cancel_session(p_session_id UUID)
+RETURNS public.sessions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_session public.sessions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_session
+  FROM public.sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session % not found', p_session_id;
+  END IF;
+
+  IF v_session.status <> 'SCHEDULED' THEN
+    RAISE EXCEPTION 'Only scheduled sessions can be canceled (session is %)', v_session.status;
+  END IF;
+
+  UPDATE public.reminder_jobs
+  SET status = 'CANCELED'
+  WHERE session_id = p_session_id
+    AND status = 'PENDING';
+
+  UPDATE public.sessions
+  SET status = 'CANCELED'
+  WHERE id = p_session_id
+  RETURNING * INTO v_session;
+
+  RETURN v_session;
+END;
+$$;
+
+-- cancel_session_series now keeps the reminders (as CANCELED) and returns the
+-- canceled occurrences so their Zoom meetings can be removed as well
+DROP FUNCTION IF EXISTS public.cancel_session_series(UUID, TIMESTAMP WITH TIME ZONE);
+
+CREATE FUNCTION public.cancel_session_series(
+  p_series_id UUID,
+  p_from TIMESTAMP WITH TIME ZONE DEFAULT now()
+)
+RETURNS SETOF public.sessions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM 1 FROM public.session_series WHERE id = p_series_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Series % not found', p_series_id;
+  END IF;
+
+  UPDATE public.reminder_jobs r
+  SET status = 'CANCELED'
+  FROM public.sessions s
+  WHERE r.session_id = s.id
+    AND r.status = 'PENDING'
+    AND s.series_id = p_series_id
+    AND s.status = 'SCHEDULED'
+    AND s.scheduled_start_at >= p_from;
+
+  UPDATE public.session_series
+  SET canceled_at = now()
+  WHERE id = p_series_id;
+
+  RETURN QUERY
+  UPDATE public.sessions
+  SET status = 'CANCELED'
+  WHERE series_id = p_series_id
+    AND status = 'SCHEDULED'
+    AND scheduled_start_at >= p_from
+  RETURNING *;
+END;
+$$;
@@ -0,0 +1,212 @@
+-- Late-cancellation and no-show charging policy
+-- Teachers set the policy on their profile; a student can override any part
+-- of it (NULL on the student means "use the teacher's value").
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS late_cancel_window_hours INTEGER NOT NULL DEFAULT 24 CHECK (late_cancel_window_hours >= 0),
+ADD COLUMN IF NOT EXISTS late_cancel_charge_percent NUMERIC(5,2) NOT NULL DEFAULT 0 CHECK (late_cancel_charge_percent BETWEEN 0 AND 100),
+ADD COLUMN IF NOT EXISTS no_show_charge_percent NUMERIC(5,2) NOT NULL DEFAULT 0 CHECK (no_show_charge_percent BETWEEN 0 AND 100);
+
+ALTER TABLE public.students
+ADD COLUMN IF NOT EXISTS late_cancel_window_hours INTEGER CHECK (late_cancel_window_hours >= 0),
+ADD COLUMN IF NOT EXISTS late_cancel_charge_percent NUMERIC(5,2) CHECK (late_cancel_charge_percent BETWEEN 0 AND 100),
+ADD COLUMN IF NOT EXISTS no_show_charge_percent NUMERIC(5,2) CHECK (no_show_charge_percent BETWEEN 0 AND 100);
+
+ALTER TABLE public.sessions
+ADD COLUMN IF NOT EXISTS canceled_at TIMESTAMP WITH TIME ZONE;
+
+-- Charges a canceled or no-show session according to the student's / teacher's
+-- policy. Returns the new ledger entry id, or NULL when the policy doesn't
+-- apply (cancelled early enough, 0%, or the session was already charged).
+CREATE OR REPLACE FUNCTION public.apply_session_charge_policy(p_session_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_session public.sessions%ROWTYPE;
+  v_student public.students%ROWTYPE;
+  v_profile public.profiles%ROWTYPE;
+  v_window_hours INTEGER;
+  v_percent NUMERIC;
+  v_label TEXT;
+  v_session_price NUMERIC;
+  v_entry_id UUID;
+BEGIN
+  SELECT * INTO v_session FROM public.sessions WHERE id = p_session_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session % not found', p_session_id;
+  END IF;
+
+  SELECT * INTO v_student FROM public.students WHERE id = v_session.student_id;
+  SELECT * INTO v_profile FROM public.profiles WHERE id = COALESCE(v_session.created_by, auth.uid());
+
+  IF v_session.status = 'NO_SHOW' THEN
+    v_percent := COALESCE(v_student.no_show_charge_percent, v_profile.no_show_charge_percent, 0);
+    v_label := 'no-show';
+  ELSIF v_session.status = 'CANCELED' THEN
+    v_window_hours := COALESCE(v_student.late_cancel_window_hours, v_profile.late_cancel_window_hours, 24);
+    IF COALESCE(v_session.canceled_at, now())
+       < v_session.scheduled_start_at - make_interval(hours => v_window_hours) THEN
+      RETURN NULL;
+    END IF;
+    v_percent := COALESCE(v_student.late_cancel_charge_percent, v_profile.late_cancel_charge_percent, 0);
+    v_label := 'late cancellation';
+  ELSE
+    RETURN NULL;
+  END IF;
+
+  IF v_percent <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  -- Same reference format as completed sessions, so a session is only ever charged once
+  PERFORM 1
+  FROM public.ledger_entries
+  WHERE student_id = v_session.student_id
+    AND type = 'SESSION_CHARGE'
+    AND reference LIKE '%Session ' || p_session_id || '%';
+  IF FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  v_session_price := EXTRACT(EPOCH FROM (v_session.scheduled_end_at - v_session.scheduled_start_at)) / 3600
+    * v_student.price_per_hour;
+
+  INSERT INTO public.ledger_entries (student_id, type, amount, reference, created_by)
+  VALUES (
+    v_session.student_id,
+    'SESSION_CHARGE',
+    -round(v_session_price * v_percent / 100, 2),
+    format('Session %s on %s (%s, %s%%)', p_session_id, to_char(v_session.scheduled_start_at, 'YYYY-MM-DD'), v_label, v_percent),
+    auth.uid()
+  )
+  RETURNING id INTO v_entry_id;
+
+  RETURN v_entry_id;
+END;
+$$;
+
+-- cancel_session gains p_apply_policy so a teacher-initiated cancellation can
+-- skip the late-cancellation charge
+DROP FUNCTION IF EXISTS public.cancel_session(UUID);
+
+CREATE FUNCTION public.cancel_session(
+  p_session_id UUID,
+  p_apply_policy BOOLEAN DEFAULT true
+)
+RETURNS public.sessions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_session public.sessions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_session
+  FROM public.sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session % not found', p_session_id;
+  END IF;
+
+  IF v_session.status <> 'SCHEDULED' THEN
+    RAISE EXCEPTION 'Only scheduled sessions can be canceled (session is %)', v_session.status;
+  END IF;
+
+  UPDATE public.reminder_jobs
+  SET status = 'CANCELED'
+  WHERE session_id = p_session_id
+    AND status = 'PENDING';
+
+  UPDATE public.sessions
+  SET status = 'CANCELED',
+      canceled_at = now()
+  WHERE id = p_session_id
+  RETURNING * INTO v_session;
+
+  IF p_apply_policy THEN
+    PERFORM public.apply_session_charge_policy(p_session_id);
+  END IF;
+
+  RETURN v_session;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_session_series(
+  p_series_id UUID,
+  p_from TIMESTAMP WITH TIME ZONE DEFAULT now()
+)
+RETURNS SETOF public.sessions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM 1 FROM public.session_series WHERE id = p_series_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Series % not found', p_series_id;
+  END IF;
+
+  UPDATE public.reminder_jobs r
+  SET status = 'CANCELED'
+  FROM public.sessions s
+  WHERE r.session_id = s.id
+    AND r.status = 'PENDING'
+    AND s.series_id = p_series_id
+    AND s.status = 'SCHEDULED'
+    AND s.scheduled_start_at >= p_from;
+
+  UPDATE public.session_series
+  SET canceled_at = now()
+  WHERE id = p_series_id;
+
+  RETURN QUERY
+  UPDATE public.sessions
+  SET status = 'CANCELED',
+      canceled_at = now()
+  WHERE series_id = p_series_id
+    AND status = 'SCHEDULED'
+    AND scheduled_start_at >= p_from
+  RETURNING *;
+END;
+$$;
+
+-- Marks a session that has started as a no-show and applies the no-show charge.
+-- Returns the ledger entry id, or NULL when nothing was charged.
+CREATE OR REPLACE FUNCTION public.mark_session_no_show(p_session_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_session public.sessions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_session
+  FROM public.sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session % not found', p_session_id;
+  END IF;
+
+  IF v_session.status <> 'SCHEDULED' THEN
+    RAISE EXCEPTION 'Only scheduled sessions can be marked as no-show (session is %)', v_session.status;
+  END IF;
+
+  IF v_session.scheduled_start_at > now() THEN
+    RAISE EXCEPTION 'A session can only be marked as no-show once it has started';
+  END IF;
+
+  UPDATE public.reminder_jobs
+  SET status = 'CANCELED'
+  WHERE session_id = p_session_id
+    AND status = 'PENDING';
+
+  UPDATE public.sessions
+  SET status = 'NO_SHOW'
+  WHERE id = p_session_id;
+
+  RETURN public.apply_session_charge_policy(p_session_id);
+END;
+$$;
@@ -0,0 +1,90 @@
+-- Completes a session and charges it in one transaction.
+-- The session row is locked first, so concurrent calls (two tabs, double
+-- clicks) serialize: the first one completes and charges, the rest see a
+-- COMPLETED session and return the existing charge. Returns the id of the
+-- session's SESSION_CHARGE ledger entry.
+CREATE OR REPLACE FUNCTION public.complete_session(
+  p_session_id UUID,
+  p_actual_start TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_actual_end TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_session public.sessions%ROWTYPE;
+  v_price_per_hour NUMERIC;
+  v_entry_id UUID;
+BEGIN
+  SELECT * INTO v_session
+  FROM public.sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session % not found', p_session_id;
+  END IF;
+
+  IF v_session.status NOT IN ('SCHEDULED', 'COMPLETED') THEN
+    RAISE EXCEPTION 'Only scheduled sessions can be completed (session is %)', v_session.status;
+  END IF;
+
+  IF p_actual_start IS NOT NULL AND p_actual_end IS NOT NULL AND p_actual_end < p_actual_start THEN
+    RAISE EXCEPTION 'Actual end must be after actual start';
+  END IF;
+
+  SELECT id INTO v_entry_id
+  FROM public.ledger_entries
+  WHERE student_id = v_session.student_id
+    AND type = 'SESSION_CHARGE'
+    AND reference LIKE '%Session ' || p_session_id || '%'
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF v_session.status = 'COMPLETED' AND v_entry_id IS NOT NULL THEN
+    RETURN v_entry_id;
+  END IF;
+
+  IF v_session.status = 'SCHEDULED' THEN
+    UPDATE public.reminder_jobs
+    SET status = 'CANCELED'
+    WHERE session_id = p_session_id
+      AND status = 'PENDING';
+
+    UPDATE public.sessions
+    SET status = 'COMPLETED',
+        actual_start_at = COALESCE(p_actual_start, now()),
+        actual_end_at = COALESCE(p_actual_end, now())
+    WHERE id = p_session_id;
+  END IF;
+
+  IF v_entry_id IS NOT NULL THEN
+    RETURN v_entry_id;
+  END IF;
+
+  SELECT price_per_hour INTO v_price_per_hour
+  FROM public.students
+  WHERE id = v_session.student_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Student % not found', v_session.student_id;
+  END IF;
+
+  -- Charged on the scheduled duration (negative amount = charge)
+  INSERT INTO public.ledger_entries (student_id, type, amount, reference, created_by)
+  VALUES (
+    v_session.student_id,
+    'SESSION_CHARGE',
+    -round(
+      EXTRACT(EPOCH FROM (v_session.scheduled_end_at - v_session.scheduled_start_at)) / 3600 * v_price_per_hour,
+      2
+    ),
+    format('Session %s on %s', p_session_id, to_char(v_session.scheduled_start_at, 'YYYY-MM-DD')),
+    auth.uid()
+  )
+  RETURNING id INTO v_entry_id;
+
+  RETURN v_entry_id;
+END;
+$$;
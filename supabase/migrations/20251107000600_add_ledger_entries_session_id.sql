@@ -0,0 +1,172 @@
+-- Link ledger entries to sessions with a real foreign key
+-- Session charges used to be matched through the free-text reference
+-- ("Session <uuid> on <date>"), which stops working once the reference is edited.
+ALTER TABLE public.ledger_entries
+ADD COLUMN IF NOT EXISTS session_id UUID REFERENCES public.sessions(id) ON DELETE SET NULL;
+
+-- Backfill from existing references. If a session was charged more than once,
+-- only the oldest charge is linked so the unique index below can be created.
+UPDATE public.ledger_entries le
+SET session_id = matched.session_id
+FROM (
+  SELECT DISTINCT ON (s.id) le2.id AS entry_id, s.id AS session_id
+  FROM public.ledger_entries le2
+  JOIN public.sessions s
+    ON s.id::text = substring(le2.reference FROM 'Session ([0-9a-fA-F-]{36})')
+  WHERE le2.type = 'SESSION_CHARGE'
+    AND le2.session_id IS NULL
+  ORDER BY s.id, le2.created_at
+) matched
+WHERE le.id = matched.entry_id;
+
+-- A session can have at most one SESSION_CHARGE
+CREATE UNIQUE INDEX IF NOT EXISTS ledger_entries_session_charge_unique
+  ON public.ledger_entries (session_id)
+  WHERE type = 'SESSION_CHARGE' AND session_id IS NOT NULL;
+
+-- Charge lookups and inserts now go through session_id
+CREATE OR REPLACE FUNCTION public.complete_session(
+  p_session_id UUID,
+  p_actual_start TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_actual_end TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_session public.sessions%ROWTYPE;
+  v_price_per_hour NUMERIC;
+  v_entry_id UUID;
+BEGIN
+  SELECT * INTO v_session
+  FROM public.sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session % not found', p_session_id;
+  END IF;
+
+  IF v_session.status NOT IN ('SCHEDULED', 'COMPLETED') THEN
+    RAISE EXCEPTION 'Only scheduled sessions can be completed (session is %)', v_session.status;
+  END IF;
+
+  IF p_actual_start IS NOT NULL AND p_actual_end IS NOT NULL AND p_actual_end < p_actual_start THEN
+    RAISE EXCEPTION 'Actual end must be after actual start';
+  END IF;
+
+  SELECT id INTO v_entry_id
+  FROM public.ledger_entries
+  WHERE session_id = p_session_id
+    AND type = 'SESSION_CHARGE';
+
+  IF v_session.status = 'COMPLETED' AND v_entry_id IS NOT NULL THEN
+    RETURN v_entry_id;
+  END IF;
+
+  IF v_session.status = 'SCHEDULED' THEN
+    UPDATE public.reminder_jobs
+    SET status = 'CANCELED'
+    WHERE session_id = p_session_id
+      AND status = 'PENDING';
+
+    UPDATE public.sessions
+    SET status = 'COMPLETED',
+        actual_start_at = COALESCE(p_actual_start, now()),
+        actual_end_at = COALESCE(p_actual_end, now())
+    WHERE id = p_session_id;
+  END IF;
+
+  IF v_entry_id IS NOT NULL THEN
+    RETURN v_entry_id;
+  END IF;
+
+  SELECT price_per_hour INTO v_price_per_hour
+  FROM public.students
+  WHERE id = v_session.student_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Student % not found', v_session.student_id;
+  END IF;
+
+  -- Charged on the scheduled duration (negative amount = charge)
+  INSERT INTO public.ledger_entries (student_id, session_id, type, amount, reference, created_by)
+  VALUES (
+    v_session.student_id,
+    p_session_id,
+    'SESSION_CHARGE',
+    -round(
+      EXTRACT(EPOCH FROM (v_session.scheduled_end_at - v_session.scheduled_start_at)) / 3600 * v_price_per_hour,
+      2
+    ),
+    format('Session %s on %s', p_session_id, to_char(v_session.scheduled_start_at, 'YYYY-MM-DD')),
+    auth.uid()
+  )
+  RETURNING id INTO v_entry_id;
+
+  RETURN v_entry_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_session_charge_policy(p_session_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_session public.sessions%ROWTYPE;
+  v_student public.students%ROWTYPE;
+  v_profile public.profiles%ROWTYPE;
+  v_window_hours INTEGER;
+  v_percent NUMERIC;
+  v_label TEXT;
+  v_session_price NUMERIC;
+  v_entry_id UUID;
+BEGIN
+  SELECT * INTO v_session FROM public.sessions WHERE id = p_session_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session % not found', p_session_id;
+  END IF;
+
+  SELECT * INTO v_student FROM public.students WHERE id = v_session.student_id;
+  SELECT * INTO v_profile FROM public.profiles WHERE id = COALESCE(v_session.created_by, auth.uid());
+
+  IF v_session.status = 'NO_SHOW' THEN
+    v_percent := COALESCE(v_student.no_show_charge_percent, v_profile.no_show_charge_percent, 0);
+    v_label := 'no-show';
+  ELSIF v_session.status = 'CANCELED' THEN
+    v_window_hours := COALESCE(v_student.late_cancel_window_hours, v_profile.late_cancel_window_hours, 24);
+    IF COALESCE(v_session.canceled_at, now())
+       < v_session.scheduled_start_at - make_interval(hours => v_window_hours) THEN
+      RETURN NULL;
+    END IF;
+    v_percent := COALESCE(v_student.late_cancel_charge_percent, v_profile.late_cancel_charge_percent, 0);
+    v_label := 'late cancellation';
+  ELSE
+    RETURN NULL;
+  END IF;
+
+  IF v_percent <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  v_session_price := EXTRACT(EPOCH FROM (v_session.scheduled_end_at - v_session.scheduled_start_at)) / 3600
+    * v_student.price_per_hour;
+
+  -- A session is only ever charged once
+  INSERT INTO public.ledger_entries (student_id, session_id, type, amount, reference, created_by)
+  VALUES (
+    v_session.student_id,
+    p_session_id,
+    'SESSION_CHARGE',
+    -round(v_session_price * v_percent / 100, 2),
+    format('Session %s on %s (%s, %s%%)', p_session_id, to_char(v_session.scheduled_start_at, 'YYYY-MM-DD'), v_label, v_percent),
+    auth.uid()
+  )
+  ON CONFLICT (session_id) WHERE type = 'SESSION_CHARGE' AND session_id IS NOT NULL DO NOTHING
+  RETURNING id INTO v_entry_id;
+
+  RETURN v_entry_id;
+END;
+$$;
@@ -0,0 +1,139 @@
+-- Per-teacher billing rule: what duration a completed session is charged for
+DO $$ BEGIN
+  CREATE TYPE billing_rule AS ENUM ('SCHEDULED', 'ACTUAL', 'ACTUAL_ROUND_15', 'ACTUAL_ROUND_30');
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS billing_rule billing_rule NOT NULL DEFAULT 'SCHEDULED';
+
+-- Charge (positive amount) for a session under its teacher's billing rule.
+-- Actual times default to the schedule; used by complete_session and by the
+-- completion dialog to preview the charge.
+CREATE OR REPLACE FUNCTION public.calculate_session_charge(
+  p_session_id UUID,
+  p_actual_start TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_actual_end TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_session public.sessions%ROWTYPE;
+  v_rule billing_rule;
+  v_price_per_hour NUMERIC;
+  v_minutes NUMERIC;
+BEGIN
+  SELECT * INTO v_session FROM public.sessions WHERE id = p_session_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session % not found', p_session_id;
+  END IF;
+
+  SELECT price_per_hour INTO v_price_per_hour FROM public.students WHERE id = v_session.student_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Student % not found', v_session.student_id;
+  END IF;
+
+  SELECT billing_rule INTO v_rule
+  FROM public.profiles
+  WHERE id = COALESCE(v_session.created_by, auth.uid());
+
+  IF COALESCE(v_rule, 'SCHEDULED') = 'SCHEDULED' THEN
+    v_minutes := EXTRACT(EPOCH FROM (v_session.scheduled_end_at - v_session.scheduled_start_at)) / 60;
+  ELSE
+    v_minutes := EXTRACT(EPOCH FROM (
+      COALESCE(p_actual_end, v_session.scheduled_end_at) - COALESCE(p_actual_start, v_session.scheduled_start_at)
+    )) / 60;
+    IF v_minutes < 0 THEN
+      RAISE EXCEPTION 'Actual end must be after actual start';
+    END IF;
+    IF v_rule = 'ACTUAL_ROUND_15' THEN
+      v_minutes := ceil(v_minutes / 15) * 15;
+    ELSIF v_rule = 'ACTUAL_ROUND_30' THEN
+      v_minutes := ceil(v_minutes / 30) * 30;
+    END IF;
+  END IF;
+
+  RETURN round(v_minutes / 60 * v_price_per_hour, 2);
+END;
+$$;
+
+-- Actual times now default to the schedule instead of now(), and the charge
+-- follows the billing rule
+CREATE OR REPLACE FUNCTION public.complete_session(
+  p_session_id UUID,
+  p_actual_start TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_actual_end TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_session public.sessions%ROWTYPE;
+  v_actual_start TIMESTAMP WITH TIME ZONE;
+  v_actual_end TIMESTAMP WITH TIME ZONE;
+  v_entry_id UUID;
+BEGIN
+  SELECT * INTO v_session
+  FROM public.sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session % not found', p_session_id;
+  END IF;
+
+  IF v_session.status NOT IN ('SCHEDULED', 'COMPLETED') THEN
+    RAISE EXCEPTION 'Only scheduled sessions can be completed (session is %)', v_session.status;
+  END IF;
+
+  v_actual_start := COALESCE(p_actual_start, v_session.actual_start_at, v_session.scheduled_start_at);
+  v_actual_end := COALESCE(p_actual_end, v_session.actual_end_at, v_session.scheduled_end_at);
+
+  IF v_actual_end < v_actual_start THEN
+    RAISE EXCEPTION 'Actual end must be after actual start';
+  END IF;
+
+  SELECT id INTO v_entry_id
+  FROM public.ledger_entries
+  WHERE session_id = p_session_id
+    AND type = 'SESSION_CHARGE';
+
+  IF v_session.status = 'COMPLETED' AND v_entry_id IS NOT NULL THEN
+    RETURN v_entry_id;
+  END IF;
+
+  IF v_session.status = 'SCHEDULED' THEN
+    UPDATE public.reminder_jobs
+    SET status = 'CANCELED'
+    WHERE session_id = p_session_id
+      AND status = 'PENDING';
+
+    UPDATE public.sessions
+    SET status = 'COMPLETED',
+        actual_start_at = v_actual_start,
+        actual_end_at = v_actual_end
+    WHERE id = p_session_id;
+  END IF;
+
+  IF v_entry_id IS NOT NULL THEN
+    RETURN v_entry_id;
+  END IF;
+
+  -- Negative amount = charge
+  INSERT INTO public.ledger_entries (student_id, session_id, type, amount, reference, created_by)
+  VALUES (
+    v_session.student_id,
+    p_session_id,
+    'SESSION_CHARGE',
+    -public.calculate_session_charge(p_session_id, v_actual_start, v_actual_end),
+    format('Session %s on %s', p_session_id, to_char(v_session.scheduled_start_at, 'YYYY-MM-DD')),
+    auth.uid()
+  )
+  RETURNING id INTO v_entry_id;
+
+  RETURN v_entry_id;
+END;
+$$;
@@ -0,0 +1,221 @@
+-- Per-teacher data isolation
+-- Students belong to a teacher (owner_id); sessions, series, ledger entries and
+-- reminder jobs are scoped through their student. All access checks go through
+-- can_access_owner() so sharing rules only need to change in one place.
+ALTER TABLE public.students
+ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid();
+
+CREATE INDEX IF NOT EXISTS idx_students_owner_id ON public.students (owner_id);
+
+-- Backfill: the teacher who created most of the student's sessions, otherwise
+-- most of its ledger entries
+UPDATE public.students st
+SET owner_id = owners.owner_id
+FROM (
+  SELECT DISTINCT ON (student_id) student_id, created_by AS owner_id
+  FROM (
+    SELECT student_id, created_by, 1 AS source FROM public.sessions WHERE created_by IS NOT NULL
+    UNION ALL
+    SELECT student_id, created_by, 2 AS source FROM public.ledger_entries WHERE created_by IS NOT NULL
+  ) refs
+  GROUP BY student_id, created_by, source
+  ORDER BY student_id, source, count(*) DESC
+) owners
+WHERE st.id = owners.student_id
+  AND st.owner_id IS NULL;
+
+-- Single-teacher instances: anything still unassigned belongs to the only profile
+UPDATE public.students
+SET owner_id = (SELECT id FROM public.profiles LIMIT 1)
+WHERE owner_id IS NULL
+  AND (SELECT count(*) FROM public.profiles) = 1;
+
+CREATE OR REPLACE FUNCTION public.can_access_owner(p_owner_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_owner_id IS NOT NULL AND p_owner_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_access_student(p_student_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.students
+    WHERE id = p_student_id
+      AND public.can_access_owner(owner_id)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_access_session(p_session_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.sessions
+    WHERE id = p_session_id
+      AND public.can_access_student(student_id)
+  );
+$$;
+
+-- students
+DROP POLICY IF EXISTS "Teachers can view all students" ON public.students;
+DROP POLICY IF EXISTS "Teachers can create students" ON public.students;
+DROP POLICY IF EXISTS "Teachers can update students" ON public.students;
+DROP POLICY IF EXISTS "Teachers can delete students" ON public.students;
+
+CREATE POLICY "Teachers can view own students"
+  ON public.students FOR SELECT
+  TO authenticated
+  USING (public.can_access_owner(owner_id));
+
+CREATE POLICY "Teachers can create own students"
+  ON public.students FOR INSERT
+  TO authenticated
+  WITH CHECK (public.can_access_owner(owner_id));
+
+CREATE POLICY "Teachers can update own students"
+  ON public.students FOR UPDATE
+  TO authenticated
+  USING (public.can_access_owner(owner_id))
+  WITH CHECK (public.can_access_owner(owner_id));
+
+CREATE POLICY "Teachers can delete own students"
+  ON public.students FOR DELETE
+  TO authenticated
+  USING (public.can_access_owner(owner_id));
+
+-- sessions
+DROP POLICY IF EXISTS "Teachers can view all sessions" ON public.sessions;
+DROP POLICY IF EXISTS "Teachers can create sessions" ON public.sessions;
+DROP POLICY IF EXISTS "Teachers can update sessions" ON public.sessions;
+DROP POLICY IF EXISTS "Teachers can delete sessions" ON public.sessions;
+
+CREATE POLICY "Teachers can view own sessions"
+  ON public.sessions FOR SELECT
+  TO authenticated
+  USING (public.can_access_student(student_id));
+
+CREATE POLICY "Teachers can create own sessions"
+  ON public.sessions FOR INSERT
+  TO authenticated
+  WITH CHECK (public.can_access_student(student_id));
+
+CREATE POLICY "Teachers can update own sessions"
+  ON public.sessions FOR UPDATE
+  TO authenticated
+  USING (public.can_access_student(student_id))
+  WITH CHECK (public.can_access_student(student_id));
+
+CREATE POLICY "Teachers can delete own sessions"
+  ON public.sessions FOR DELETE
+  TO authenticated
+  USING (public.can_access_student(student_id));
+
+-- session_series
+DROP POLICY IF EXISTS "Teachers can view all session series" ON public.session_series;
+DROP POLICY IF EXISTS "Teachers can create session series" ON public.session_series;
+DROP POLICY IF EXISTS "Teachers can update session series" ON public.session_series;
+DROP POLICY IF EXISTS "Teachers can delete session series" ON public.session_series;
+
+CREATE POLICY "Teachers can view own session series"
+  ON public.session_series FOR SELECT
+  TO authenticated
+  USING (public.can_access_student(student_id));
+
+CREATE POLICY "Teachers can create own session series"
+  ON public.session_series FOR INSERT
+  TO authenticated
+  WITH CHECK (public.can_access_student(student_id));
+
+CREATE POLICY "Teachers can update own session series"
+  ON public.session_series FOR UPDATE
+  TO authenticated
+  USING (public.can_access_student(student_id))
+  WITH CHECK (public.can_access_student(student_id));
+
+CREATE POLICY "Teachers can delete own session series"
+  ON public.session_series FOR DELETE
+  TO authenticated
+  USING (public.can_access_student(student_id));
+
+-- ledger_entries
+DROP POLICY IF EXISTS "Teachers can view all ledger entries" ON public.ledger_entries;
+DROP POLICY IF EXISTS "Teachers can create ledger entries" ON public.ledger_entries;
+DROP POLICY IF EXISTS "Teachers can update ledger entries" ON public.ledger_entries;
+
+CREATE POLICY "Teachers can view own ledger entries"
+  ON public.ledger_entries FOR SELECT
+  TO authenticated
+  USING (public.can_access_student(student_id));
+
+CREATE POLICY "Teachers can create own ledger entries"
+  ON public.ledger_entries FOR INSERT
+  TO authenticated
+  WITH CHECK (public.can_access_student(student_id));
+
+CREATE POLICY "Teachers can update own ledger entries"
+  ON public.ledger_entries FOR UPDATE
+  TO authenticated
+  USING (public.can_access_student(student_id))
+  WITH CHECK (public.can_access_student(student_id));
+
+-- reminder_jobs
+DROP POLICY IF EXISTS "Teachers can view all reminder jobs" ON public.reminder_jobs;
+DROP POLICY IF EXISTS "Teachers can create reminder jobs" ON public.reminder_jobs;
+DROP POLICY IF EXISTS "Teachers can update reminder jobs" ON public.reminder_jobs;
+DROP POLICY IF EXISTS "Teachers can delete reminder jobs" ON public.reminder_jobs;
+
+CREATE POLICY "Teachers can view own reminder jobs"
+  ON public.reminder_jobs FOR SELECT
+  TO authenticated
+  USING (public.can_access_session(session_id));
+
+CREATE POLICY "Teachers can create own reminder jobs"
+  ON public.reminder_jobs FOR INSERT
+  TO authenticated
+  WITH CHECK (public.can_access_session(session_id));
+
+CREATE POLICY "Teachers can update own reminder jobs"
+  ON public.reminder_jobs FOR UPDATE
+  TO authenticated
+  USING (public.can_access_session(session_id))
+  WITH CHECK (public.can_access_session(session_id));
+
+CREATE POLICY "Teachers can delete own reminder jobs"
+  ON public.reminder_jobs FOR DELETE
+  TO authenticated
+  USING (public.can_access_session(session_id));
+
+-- get_student_balance is SECURITY DEFINER, so it has to check access itself
+CREATE OR REPLACE FUNCTION public.get_student_balance(student_uuid UUID)
+RETURNS DECIMAL(10,2)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  balance DECIMAL(10,2);
+BEGIN
+  IF NOT public.can_access_student(student_uuid) THEN
+    RETURN 0;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO balance
+  FROM public.ledger_entries
+  WHERE student_id = student_uuid;
+
+  RETURN balance;
+END;
+$$;
@@ -0,0 +1,154 @@
+-- Admin role and in-app account approval
+-- Roles live in their own table (never on profiles) so users cannot grant
+-- themselves a role by updating their own profile.
+DO $$ BEGIN
+  CREATE TYPE app_role AS ENUM ('admin');
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+CREATE TABLE IF NOT EXISTS public.user_roles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role app_role NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, role)
+);
+
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own roles"
+  ON public.user_roles FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- SECURITY DEFINER so policies can call it without recursing into user_roles RLS
+CREATE OR REPLACE FUNCTION public.has_role(p_user_id UUID, p_role app_role)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = p_user_id
+      AND role = p_role
+  );
+$$;
+
+-- Approval lifecycle. is_approved is kept in sync for existing readers.
+DO $$ BEGIN
+  CREATE TYPE approval_status AS ENUM ('PENDING', 'APPROVED', 'REJECTED', 'SUSPENDED');
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS approval_status approval_status NOT NULL DEFAULT 'PENDING',
+ADD COLUMN IF NOT EXISTS approval_reason TEXT,
+ADD COLUMN IF NOT EXISTS approval_changed_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS approval_changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+UPDATE public.profiles
+SET approval_status = 'APPROVED'
+WHERE is_approved = true
+  AND approval_status = 'PENDING';
+
+CREATE INDEX IF NOT EXISTS idx_profiles_approval_status ON public.profiles (approval_status);
+
+-- Only admins (or the service role / SQL editor, where auth.uid() is null) may
+-- change approval fields; users can still update the rest of their profile
+CREATE OR REPLACE FUNCTION public.guard_profile_approval()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Legacy writers (APPROVE_USERS.sql) only touch is_approved
+  IF NEW.is_approved IS DISTINCT FROM OLD.is_approved
+     AND NEW.approval_status IS NOT DISTINCT FROM OLD.approval_status THEN
+    NEW.approval_status := CASE WHEN NEW.is_approved THEN 'APPROVED' ELSE 'PENDING' END;
+  END IF;
+
+  IF NEW.approval_status IS DISTINCT FROM OLD.approval_status
+     OR NEW.approval_reason IS DISTINCT FROM OLD.approval_reason THEN
+    IF auth.uid() IS NOT NULL AND NOT public.has_role(auth.uid(), 'admin') THEN
+      RAISE EXCEPTION 'Only admins can change account approval'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    NEW.approval_changed_at := now();
+    NEW.approval_changed_by := auth.uid();
+  END IF;
+
+  NEW.is_approved := NEW.approval_status = 'APPROVED';
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_profile_approval ON public.profiles;
+CREATE TRIGGER guard_profile_approval
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_profile_approval();
+
+CREATE POLICY "Admins can view all profiles"
+  ON public.profiles FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update all profiles"
+  ON public.profiles FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Sets a user's approval status; the reason is shown to the user on the
+-- pending approval page. Returns the updated profile.
+CREATE OR REPLACE FUNCTION public.set_approval_status(
+  p_user_id UUID,
+  p_status approval_status,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS public.profiles
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_profile public.profiles%ROWTYPE;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can change account approval'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_user_id = auth.uid() AND p_status <> 'APPROVED' THEN
+    RAISE EXCEPTION 'You cannot revoke your own approval';
+  END IF;
+
+  UPDATE public.profiles
+  SET approval_status = p_status,
+      approval_reason = NULLIF(btrim(p_reason), '')
+  WHERE id = p_user_id
+  RETURNING * INTO v_profile;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile % not found', p_user_id;
+  END IF;
+
+  RETURN v_profile;
+END;
+$$;
+
+-- Suspended or unapproved teachers lose access to their data, not just the UI
+CREATE OR REPLACE FUNCTION public.can_access_owner(p_owner_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_owner_id IS NOT NULL
+    AND p_owner_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE id = auth.uid()
+        AND approval_status = 'APPROVED'
+    );
+$$;
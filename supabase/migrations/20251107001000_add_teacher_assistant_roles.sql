@@ -0,0 +1,4 @@
+-- Teacher and assistant roles. Added on its own because a new enum value
+-- can't be used in the same transaction.
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'teacher';
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'assistant';
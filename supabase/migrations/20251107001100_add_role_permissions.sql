@@ -0,0 +1,280 @@
+-- Role-based access
+-- A user's role is their single row in user_roles; users without one are
+-- teachers. Assistants work for one teacher (user_roles.owner_id): they can
+-- see that teacher's students, schedule sessions and record payments, but
+-- cannot add or delete students, change rates or charge sessions.
+ALTER TABLE public.user_roles
+ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE;
+
+ALTER TABLE public.user_roles
+ADD CONSTRAINT user_roles_assistant_owner_check
+  CHECK ((role = 'assistant') = (owner_id IS NOT NULL));
+
+CREATE INDEX IF NOT EXISTS idx_user_roles_owner_id ON public.user_roles (owner_id);
+
+CREATE POLICY "Admins can view all roles"
+  ON public.user_roles FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.get_user_role(p_user_id UUID)
+RETURNS app_role
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT role FROM public.user_roles
+      WHERE user_id = p_user_id
+      ORDER BY CASE role WHEN 'admin' THEN 1 WHEN 'assistant' THEN 2 ELSE 3 END
+      LIMIT 1
+    ),
+    'teacher'::app_role
+  );
+$$;
+
+-- Replaces the user's role; assistants need the teacher they work for
+CREATE OR REPLACE FUNCTION public.set_user_role(
+  p_user_id UUID,
+  p_role app_role,
+  p_owner_id UUID DEFAULT NULL
+)
+RETURNS public.user_roles
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_role public.user_roles%ROWTYPE;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can change roles'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_user_id = auth.uid() AND p_role <> 'admin' THEN
+    RAISE EXCEPTION 'You cannot remove your own admin role';
+  END IF;
+
+  IF p_role = 'assistant' AND (p_owner_id IS NULL OR p_owner_id = p_user_id) THEN
+    RAISE EXCEPTION 'Assistants must be assigned to another teacher';
+  END IF;
+
+  DELETE FROM public.user_roles WHERE user_id = p_user_id;
+
+  INSERT INTO public.user_roles (user_id, role, owner_id)
+  VALUES (p_user_id, p_role, CASE WHEN p_role = 'assistant' THEN p_owner_id END)
+  RETURNING * INTO v_role;
+
+  RETURN v_role;
+END;
+$$;
+
+-- Read and schedule access: the owner and their assistants
+CREATE OR REPLACE FUNCTION public.can_access_owner(p_owner_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_owner_id IS NOT NULL
+    AND EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE id = auth.uid()
+        AND approval_status = 'APPROVED'
+    )
+    AND (
+      p_owner_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM public.user_roles
+        WHERE user_id = auth.uid()
+          AND role = 'assistant'
+          AND owner_id = p_owner_id
+      )
+    );
+$$;
+
+-- Full control: the owner only
+CREATE OR REPLACE FUNCTION public.can_manage_owner(p_owner_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.can_access_owner(p_owner_id)
+    AND p_owner_id = auth.uid()
+    AND public.get_user_role(auth.uid()) <> 'assistant';
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_manage_student(p_student_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.students
+    WHERE id = p_student_id
+      AND public.can_manage_owner(owner_id)
+  );
+$$;
+
+-- students: assistants may update contact details but not add, delete or reprice
+DROP POLICY IF EXISTS "Teachers can create own students" ON public.students;
+DROP POLICY IF EXISTS "Teachers can delete own students" ON public.students;
+
+CREATE POLICY "Teachers can create own students"
+  ON public.students FOR INSERT
+  TO authenticated
+  WITH CHECK (public.can_manage_owner(owner_id));
+
+CREATE POLICY "Teachers can delete own students"
+  ON public.students FOR DELETE
+  TO authenticated
+  USING (public.can_manage_owner(owner_id));
+
+CREATE OR REPLACE FUNCTION public.guard_student_rates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF (NEW.price_per_hour IS DISTINCT FROM OLD.price_per_hour
+      OR NEW.late_cancel_window_hours IS DISTINCT FROM OLD.late_cancel_window_hours
+      OR NEW.late_cancel_charge_percent IS DISTINCT FROM OLD.late_cancel_charge_percent
+      OR NEW.no_show_charge_percent IS DISTINCT FROM OLD.no_show_charge_percent
+      OR NEW.owner_id IS DISTINCT FROM OLD.owner_id)
+     AND auth.uid() IS NOT NULL
+     AND NOT public.can_manage_owner(OLD.owner_id) THEN
+    RAISE EXCEPTION 'Only the teacher can change rates and charge policies'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_student_rates ON public.students;
+CREATE TRIGGER guard_student_rates
+  BEFORE UPDATE ON public.students
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_student_rates();
+
+-- ledger_entries: assistants may only record payments
+DROP POLICY IF EXISTS "Teachers can create own ledger entries" ON public.ledger_entries;
+DROP POLICY IF EXISTS "Teachers can update own ledger entries" ON public.ledger_entries;
+
+CREATE POLICY "Teachers can create own ledger entries"
+  ON public.ledger_entries FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.can_manage_student(student_id)
+    OR (type = 'PAYMENT_CONFIRMATION' AND public.can_access_student(student_id))
+  );
+
+CREATE POLICY "Teachers can update own ledger entries"
+  ON public.ledger_entries FOR UPDATE
+  TO authenticated
+  USING (public.can_manage_student(student_id))
+  WITH CHECK (public.can_manage_student(student_id));
+
+-- sessions.created_by is the teacher a session belongs to (billing rule,
+-- charge policy and conflict checks all key on it), so sessions scheduled by
+-- an assistant are attributed to the student's owner. Named to fire before
+-- check_sessions_conflict.
+CREATE OR REPLACE FUNCTION public.assign_session_teacher()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.created_by := COALESCE(
+    (SELECT owner_id FROM public.students WHERE id = NEW.student_id),
+    NEW.created_by
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS assign_session_teacher ON public.sessions;
+CREATE TRIGGER assign_session_teacher
+  BEFORE INSERT ON public.sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_session_teacher();
+
+-- Conflict lookups cover the calendars the current user schedules for
+CREATE OR REPLACE FUNCTION public.find_session_conflicts(
+  p_starts TIMESTAMP WITH TIME ZONE[],
+  p_ends TIMESTAMP WITH TIME ZONE[],
+  p_exclude_session_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  slot_index INTEGER,
+  session_id UUID,
+  student_id UUID,
+  student_name TEXT,
+  scheduled_start_at TIMESTAMP WITH TIME ZONE,
+  scheduled_end_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    slot.idx::INTEGER,
+    s.id,
+    s.student_id,
+    concat_ws(' ', st.first_name, st.last_name),
+    s.scheduled_start_at,
+    s.scheduled_end_at
+  FROM unnest(p_starts, p_ends) WITH ORDINALITY AS slot(starts_at, ends_at, idx)
+  JOIN public.sessions s
+    ON s.scheduled_start_at < slot.ends_at
+   AND s.scheduled_end_at > slot.starts_at
+  JOIN public.students st ON st.id = s.student_id
+  WHERE public.can_access_owner(s.created_by)
+    AND s.status = 'SCHEDULED'
+    AND s.id IS DISTINCT FROM p_exclude_session_id
+  ORDER BY slot.idx, s.scheduled_start_at;
+$$;
+
+CREATE OR REPLACE FUNCTION public.next_free_session_slot(
+  p_after TIMESTAMP WITH TIME ZONE,
+  p_duration_minutes INTEGER,
+  p_exclude_session_id UUID DEFAULT NULL
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_candidate TIMESTAMP WITH TIME ZONE := p_after;
+  v_blocking_end TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF p_duration_minutes IS NULL OR p_duration_minutes <= 0 THEN
+    RAISE EXCEPTION 'Duration must be greater than zero';
+  END IF;
+
+  LOOP
+    SELECT max(scheduled_end_at) INTO v_blocking_end
+    FROM public.sessions
+    WHERE public.can_access_owner(created_by)
+      AND status = 'SCHEDULED'
+      AND id IS DISTINCT FROM p_exclude_session_id
+      AND scheduled_start_at < v_candidate + make_interval(mins => p_duration_minutes)
+      AND scheduled_end_at > v_candidate;
+
+    EXIT WHEN v_blocking_end IS NULL;
+    v_candidate := v_blocking_end;
+  END LOOP;
+
+  RETURN v_candidate;
+END;
+$$;
@@ -0,0 +1,320 @@
+-- Tutoring center organizations
+-- Teachers in the same organization share students, sessions and ledger.
+-- New teachers join through a signed invite link (create-org-invite /
+-- accept-org-invite Edge Functions), which also approves their account.
+DO $$ BEGIN
+  CREATE TYPE org_member_role AS ENUM ('OWNER', 'ADMIN', 'TEACHER');
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+CREATE TABLE IF NOT EXISTS public.organizations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- A teacher belongs to at most one organization
+CREATE TABLE IF NOT EXISTS public.organization_members (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE UNIQUE,
+  role org_member_role NOT NULL DEFAULT 'TEACHER',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_members_organization_id
+  ON public.organization_members (organization_id);
+
+CREATE TABLE IF NOT EXISTS public.organization_invites (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role org_member_role NOT NULL DEFAULT 'TEACHER' CHECK (role <> 'OWNER'),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + interval '7 days',
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_invites_organization_id
+  ON public.organization_invites (organization_id);
+
+CREATE TRIGGER update_organizations_updated_at
+  BEFORE UPDATE ON public.organizations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.get_organization_id(p_user_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT organization_id FROM public.organization_members WHERE user_id = p_user_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_organization_admin(p_organization_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = p_organization_id
+      AND user_id = auth.uid()
+      AND role IN ('OWNER', 'ADMIN')
+  );
+$$;
+
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organization"
+  ON public.organizations FOR SELECT
+  TO authenticated
+  USING (id = public.get_organization_id(auth.uid()));
+
+CREATE POLICY "Organization admins can update their organization"
+  ON public.organizations FOR UPDATE
+  TO authenticated
+  USING (public.is_organization_admin(id));
+
+CREATE POLICY "Members can view their organization's members"
+  ON public.organization_members FOR SELECT
+  TO authenticated
+  USING (organization_id = public.get_organization_id(auth.uid()));
+
+CREATE POLICY "Organization admins can update members"
+  ON public.organization_members FOR UPDATE
+  TO authenticated
+  USING (public.is_organization_admin(organization_id) AND role <> 'OWNER')
+  WITH CHECK (public.is_organization_admin(organization_id) AND role <> 'OWNER');
+
+CREATE POLICY "Organization admins can remove members"
+  ON public.organization_members FOR DELETE
+  TO authenticated
+  USING (public.is_organization_admin(organization_id) AND role <> 'OWNER');
+
+CREATE POLICY "Organization admins can view invites"
+  ON public.organization_invites FOR SELECT
+  TO authenticated
+  USING (public.is_organization_admin(organization_id));
+
+CREATE POLICY "Organization admins can create invites"
+  ON public.organization_invites FOR INSERT
+  TO authenticated
+  WITH CHECK (public.is_organization_admin(organization_id));
+
+CREATE POLICY "Organization admins can revoke invites"
+  ON public.organization_invites FOR UPDATE
+  TO authenticated
+  USING (public.is_organization_admin(organization_id));
+
+-- Creates an organization owned by the current user
+CREATE OR REPLACE FUNCTION public.create_organization(p_name TEXT)
+RETURNS public.organizations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org public.organizations%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NULLIF(btrim(p_name), '') IS NULL THEN
+    RAISE EXCEPTION 'Organization name is required';
+  END IF;
+
+  IF public.get_organization_id(auth.uid()) IS NOT NULL THEN
+    RAISE EXCEPTION 'You already belong to an organization';
+  END IF;
+
+  INSERT INTO public.organizations (name, created_by)
+  VALUES (btrim(p_name), auth.uid())
+  RETURNING * INTO v_org;
+
+  INSERT INTO public.organization_members (organization_id, user_id, role)
+  VALUES (v_org.id, auth.uid(), 'OWNER');
+
+  RETURN v_org;
+END;
+$$;
+
+-- Members with names for the organization screens and the dashboard teacher
+-- filter; profiles themselves stay private (they hold integration secrets)
+CREATE OR REPLACE FUNCTION public.get_organization_members()
+RETURNS TABLE (
+  user_id UUID,
+  role org_member_role,
+  full_name TEXT,
+  email TEXT,
+  joined_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.user_id, m.role, p.full_name, p.email, m.created_at
+  FROM public.organization_members m
+  LEFT JOIN public.profiles p ON p.id = m.user_id
+  WHERE m.organization_id = public.get_organization_id(auth.uid())
+  ORDER BY m.role, p.full_name;
+$$;
+
+-- Data access now also covers teachers in the same organization
+CREATE OR REPLACE FUNCTION public.can_access_owner(p_owner_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_owner_id IS NOT NULL
+    AND EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE id = auth.uid()
+        AND approval_status = 'APPROVED'
+    )
+    AND (
+      p_owner_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM public.user_roles
+        WHERE user_id = auth.uid()
+          AND role = 'assistant'
+          AND owner_id = p_owner_id
+      )
+      OR public.get_organization_id(auth.uid()) = public.get_organization_id(p_owner_id)
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_manage_owner(p_owner_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.can_access_owner(p_owner_id)
+    AND public.get_user_role(auth.uid()) <> 'assistant'
+    AND (
+      p_owner_id = auth.uid()
+      OR public.get_organization_id(auth.uid()) = public.get_organization_id(p_owner_id)
+    );
+$$;
+
+-- Only sessions scheduled by assistants are reassigned to the student's
+-- owner; organization teachers keep sessions on their own calendar
+CREATE OR REPLACE FUNCTION public.assign_session_teacher()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.get_user_role(COALESCE(NEW.created_by, auth.uid())) = 'assistant' THEN
+    NEW.created_by := COALESCE(
+      (SELECT owner_id FROM public.students WHERE id = NEW.student_id),
+      NEW.created_by
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Conflicts are per teacher; in an organization the current user sees
+-- everyone's sessions, so only check their own calendar (or, for assistants,
+-- their teacher's)
+CREATE OR REPLACE FUNCTION public.scheduling_owner_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT owner_id FROM public.user_roles WHERE user_id = auth.uid() AND role = 'assistant'),
+    auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.find_session_conflicts(
+  p_starts TIMESTAMP WITH TIME ZONE[],
+  p_ends TIMESTAMP WITH TIME ZONE[],
+  p_exclude_session_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  slot_index INTEGER,
+  session_id UUID,
+  student_id UUID,
+  student_name TEXT,
+  scheduled_start_at TIMESTAMP WITH TIME ZONE,
+  scheduled_end_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    slot.idx::INTEGER,
+    s.id,
+    s.student_id,
+    concat_ws(' ', st.first_name, st.last_name),
+    s.scheduled_start_at,
+    s.scheduled_end_at
+  FROM unnest(p_starts, p_ends) WITH ORDINALITY AS slot(starts_at, ends_at, idx)
+  JOIN public.sessions s
+    ON s.scheduled_start_at < slot.ends_at
+   AND s.scheduled_end_at > slot.starts_at
+  JOIN public.students st ON st.id = s.student_id
+  WHERE s.created_by = public.scheduling_owner_id()
+    AND s.status = 'SCHEDULED'
+    AND s.id IS DISTINCT FROM p_exclude_session_id
+  ORDER BY slot.idx, s.scheduled_start_at;
+$$;
+
+CREATE OR REPLACE FUNCTION public.next_free_session_slot(
+  p_after TIMESTAMP WITH TIME ZONE,
+  p_duration_minutes INTEGER,
+  p_exclude_session_id UUID DEFAULT NULL
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_candidate TIMESTAMP WITH TIME ZONE := p_after;
+  v_blocking_end TIMESTAMP WITH TIME ZONE;
+  v_owner_id UUID := public.scheduling_owner_id();
+BEGIN
+  IF p_duration_minutes IS NULL OR p_duration_minutes <= 0 THEN
+    RAISE EXCEPTION 'Duration must be greater than zero';
+  END IF;
+
+  LOOP
+    SELECT max(scheduled_end_at) INTO v_blocking_end
+    FROM public.sessions
+    WHERE created_by = v_owner_id
+      AND status = 'SCHEDULED'
+      AND id IS DISTINCT FROM p_exclude_session_id
+      AND scheduled_start_at < v_candidate + make_interval(mins => p_duration_minutes)
+      AND scheduled_end_at > v_candidate;
+
+    EXIT WHEN v_blocking_end IS NULL;
+    v_candidate := v_blocking_end;
+  END LOOP;
+
+  RETURN v_candidate;
+END;
+$$;
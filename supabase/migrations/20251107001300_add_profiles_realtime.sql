@@ -0,0 +1,4 @@
+-- Broadcast profile changes so approval decisions reach the signed-in user
+-- immediately. Realtime applies the profiles RLS policies, so users only
+-- receive their own row (admins also receive the rows they can view).
+ALTER PUBLICATION supabase_realtime ADD TABLE public.profiles;
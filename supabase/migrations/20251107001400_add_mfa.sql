@@ -0,0 +1,144 @@
+-- Two-factor authentication (TOTP)
+-- Factors themselves are managed by Supabase Auth (auth.mfa_*). This adds
+-- one-time recovery codes, an organization-level "require MFA" setting and
+-- enforces AAL2 in the data access helpers for users who need it.
+
+ALTER TABLE public.organizations
+  ADD COLUMN IF NOT EXISTS require_mfa BOOLEAN NOT NULL DEFAULT false;
+
+-- Recovery codes are stored hashed; the plain codes are only ever returned
+-- once, by generate_mfa_recovery_codes()
+CREATE TABLE IF NOT EXISTS public.mfa_recovery_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, code_hash)
+);
+
+ALTER TABLE public.mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+-- No direct access: users only see how many unused codes remain
+DROP POLICY IF EXISTS "Users can view own recovery codes" ON public.mfa_recovery_codes;
+CREATE POLICY "Users can view own recovery codes"
+  ON public.mfa_recovery_codes FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Whether the current session satisfies the user's MFA obligations: users
+-- with a verified factor must have completed the challenge (AAL2), and
+-- members of an organization that requires MFA must have enrolled
+CREATE OR REPLACE FUNCTION public.mfa_requirement_met()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(auth.jwt() ->> 'aal', 'aal1') = 'aal2'
+    OR (
+      NOT EXISTS (
+        SELECT 1 FROM auth.mfa_factors
+        WHERE user_id = auth.uid()
+          AND status = 'verified'
+      )
+      AND NOT EXISTS (
+        SELECT 1
+        FROM public.organization_members om
+        JOIN public.organizations o ON o.id = om.organization_id
+        WHERE om.user_id = auth.uid()
+          AND o.require_mfa
+      )
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_access_owner(p_owner_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_owner_id IS NOT NULL
+    AND EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE id = auth.uid()
+        AND approval_status = 'APPROVED'
+    )
+    AND public.mfa_requirement_met()
+    AND (
+      p_owner_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM public.user_roles
+        WHERE user_id = auth.uid()
+          AND role = 'assistant'
+          AND owner_id = p_owner_id
+      )
+      OR public.get_organization_id(auth.uid()) = public.get_organization_id(p_owner_id)
+    );
+$$;
+
+-- Replaces the user's recovery codes with ten new ones. Requires a session
+-- that has passed the TOTP challenge.
+CREATE OR REPLACE FUNCTION public.generate_mfa_recovery_codes()
+RETURNS TEXT[]
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_codes TEXT[] := ARRAY[]::TEXT[];
+  v_code TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF coalesce(auth.jwt() ->> 'aal', 'aal1') <> 'aal2' THEN
+    RAISE EXCEPTION 'Verify your authenticator code before generating recovery codes';
+  END IF;
+
+  DELETE FROM public.mfa_recovery_codes WHERE user_id = auth.uid();
+
+  FOR i IN 1..10 LOOP
+    v_code := encode(extensions.gen_random_bytes(5), 'hex');
+    v_code := substr(v_code, 1, 5) || '-' || substr(v_code, 6, 5);
+    v_codes := v_codes || v_code;
+
+    INSERT INTO public.mfa_recovery_codes (user_id, code_hash)
+    VALUES (auth.uid(), encode(extensions.digest(v_code, 'sha256'), 'hex'));
+  END LOOP;
+
+  RETURN v_codes;
+END;
+$$;
+
+-- Marks a recovery code as used. Called by the mfa-recovery Edge Function,
+-- which then removes the user's factors so they can sign in and re-enroll.
+CREATE OR REPLACE FUNCTION public.consume_mfa_recovery_code(p_code TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.mfa_recovery_codes
+  SET used_at = now()
+  WHERE user_id = auth.uid()
+    AND used_at IS NULL
+    AND code_hash = encode(extensions.digest(lower(trim(p_code)), 'sha256'), 'hex')
+  RETURNING id INTO v_id;
+
+  RETURN v_id IS NOT NULL;
+END;
+$$;
+
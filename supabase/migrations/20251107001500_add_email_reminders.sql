@@ -0,0 +1,30 @@
+-- Email as a second reminder channel
+-- reminder_jobs.channel already exists (TEXT, default 'WHATSAPP'); this
+-- restricts it to the supported channels, stores which channels each
+-- session's reminders go out on, and each student's preferred channel.
+
+ALTER TABLE public.reminder_jobs
+  DROP CONSTRAINT IF EXISTS reminder_jobs_channel_check;
+ALTER TABLE public.reminder_jobs
+  ADD CONSTRAINT reminder_jobs_channel_check CHECK (channel IN ('WHATSAPP', 'EMAIL'));
+
+ALTER TABLE public.students
+  ADD COLUMN IF NOT EXISTS preferred_channel TEXT NOT NULL DEFAULT 'WHATSAPP';
+ALTER TABLE public.students
+  DROP CONSTRAINT IF EXISTS students_preferred_channel_check;
+ALTER TABLE public.students
+  ADD CONSTRAINT students_preferred_channel_check CHECK (preferred_channel IN ('WHATSAPP', 'EMAIL'));
+
+-- Students who can only be reached by email
+UPDATE public.students
+SET preferred_channel = 'EMAIL'
+WHERE phone_e164 IS NULL
+  AND email IS NOT NULL;
+
+-- Channels are kept on the session so rescheduling recreates the same reminders
+ALTER TABLE public.sessions
+  ADD COLUMN IF NOT EXISTS reminder_channels TEXT[] NOT NULL DEFAULT ARRAY['WHATSAPP'];
+ALTER TABLE public.sessions
+  DROP CONSTRAINT IF EXISTS sessions_reminder_channels_check;
+ALTER TABLE public.sessions
+  ADD CONSTRAINT sessions_reminder_channels_check CHECK (reminder_channels <@ ARRAY['WHATSAPP', 'EMAIL']);
@@ -0,0 +1,3 @@
+-- Jobs a sender has claimed but not finished yet.
+-- Added on its own because a new enum value can't be used in the same transaction.
+ALTER TYPE public.reminder_status ADD VALUE IF NOT EXISTS 'PROCESSING';
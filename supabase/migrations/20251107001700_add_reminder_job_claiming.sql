@@ -0,0 +1,48 @@
+-- Exactly-once reminder dispatch
+-- Senders claim due jobs atomically instead of reading every PENDING row, so
+-- overlapping cron runs or retried requests can't pick up the same job. A
+-- claim is a lease: jobs left in PROCESSING by a crashed sender become
+-- claimable again once locked_until passes.
+
+ALTER TABLE public.reminder_jobs
+  ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS idempotency_key TEXT NOT NULL DEFAULT gen_random_uuid()::text;
+
+-- Passed to providers that deduplicate (Resend) so a job re-sent after an
+-- expired lease is still delivered once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reminder_jobs_idempotency_key
+  ON public.reminder_jobs (idempotency_key);
+
+CREATE INDEX IF NOT EXISTS idx_reminder_jobs_claimable
+  ON public.reminder_jobs (scheduled_for)
+  WHERE status IN ('PENDING', 'PROCESSING');
+
+CREATE OR REPLACE FUNCTION public.claim_reminder_jobs(
+  p_limit INTEGER DEFAULT 50,
+  p_lease_seconds INTEGER DEFAULT 300
+)
+RETURNS SETOF public.reminder_jobs
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.reminder_jobs r
+  SET status = 'PROCESSING',
+      locked_until = now() + make_interval(secs => p_lease_seconds)
+  FROM (
+    SELECT id
+    FROM public.reminder_jobs
+    WHERE scheduled_for <= now()
+      AND (
+        status = 'PENDING'
+        OR (status = 'PROCESSING' AND locked_until < now())
+      )
+    ORDER BY scheduled_for
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  ) due
+  WHERE r.id = due.id
+  RETURNING r.*;
+END;
+$$;
@@ -0,0 +1,3 @@
+-- Dead letter for reminders that ran out of retry attempts.
+-- Added on its own because a new enum value can't be used in the same transaction.
+ALTER TYPE public.reminder_status ADD VALUE IF NOT EXISTS 'DEAD';
@@ -0,0 +1,83 @@
+-- Retry with backoff for failed reminders
+-- Transient provider errors (429, 5xx, network) put the job back to PENDING
+-- with a later next_attempt_at; once the sender's max attempts is reached the
+-- job goes to DEAD. Permanent errors still end in FAILED. Every failed attempt
+-- is appended to error_history, last_error keeps the latest one.
+
+ALTER TABLE public.reminder_jobs
+  ADD COLUMN IF NOT EXISTS attempt_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS error_history JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+DROP INDEX IF EXISTS public.idx_reminder_jobs_claimable;
+CREATE INDEX IF NOT EXISTS idx_reminder_jobs_claimable
+  ON public.reminder_jobs (COALESCE(next_attempt_at, scheduled_for))
+  WHERE status IN ('PENDING', 'PROCESSING');
+
+-- Same as before, but waits for next_attempt_at and counts the attempt
+CREATE OR REPLACE FUNCTION public.claim_reminder_jobs(
+  p_limit INTEGER DEFAULT 50,
+  p_lease_seconds INTEGER DEFAULT 300
+)
+RETURNS SETOF public.reminder_jobs
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.reminder_jobs r
+  SET status = 'PROCESSING',
+      locked_until = now() + make_interval(secs => p_lease_seconds),
+      attempt_count = r.attempt_count + 1
+  FROM (
+    SELECT id
+    FROM public.reminder_jobs
+    WHERE COALESCE(next_attempt_at, scheduled_for) <= now()
+      AND (
+        status = 'PENDING'
+        OR (status = 'PROCESSING' AND locked_until < now())
+      )
+    ORDER BY COALESCE(next_attempt_at, scheduled_for)
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  ) due
+  WHERE r.id = due.id
+  RETURNING r.*;
+END;
+$$;
+
+-- Puts a session's FAILED and DEAD reminders back in the queue with a fresh
+-- set of attempts. Returns how many were re-queued.
+CREATE OR REPLACE FUNCTION public.requeue_reminder_jobs(p_session_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_session public.sessions;
+  v_count INTEGER;
+BEGIN
+  SELECT * INTO v_session
+  FROM public.sessions
+  WHERE id = p_session_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found';
+  END IF;
+
+  IF v_session.status <> 'SCHEDULED' THEN
+    RAISE EXCEPTION 'Only reminders of scheduled sessions can be retried';
+  END IF;
+
+  UPDATE public.reminder_jobs
+  SET status = 'PENDING',
+      attempt_count = 0,
+      next_attempt_at = now(),
+      locked_until = NULL
+  WHERE session_id = p_session_id
+    AND status IN ('FAILED', 'DEAD');
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
@@ -0,0 +1,198 @@
+-- Reminder offsets as data
+-- Reminders are lists of minutes before the session start (e.g. {1440,120,10}
+-- for 24h, 2h and 10m). The teacher sets a default on their profile, a student
+-- can override it, and a session can override both; NULL means "inherit" and
+-- an empty array means "no reminders".
+-- reminder_jobs are now built by a trigger on sessions, so every path that
+-- creates, moves or cancels a session (the app, series edits, RPCs) enqueues
+-- the same reminders.
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS reminder_offsets INTEGER[] NOT NULL DEFAULT '{30}';
+
+ALTER TABLE public.students
+  ADD COLUMN IF NOT EXISTS reminder_offsets INTEGER[];
+
+ALTER TABLE public.sessions
+  ADD COLUMN IF NOT EXISTS reminder_offsets INTEGER[];
+
+-- Between one minute and 30 days before the start
+ALTER TABLE public.profiles
+  DROP CONSTRAINT IF EXISTS profiles_reminder_offsets_check;
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_reminder_offsets_check
+  CHECK (0 < ALL (reminder_offsets) AND 43200 >= ALL (reminder_offsets));
+
+ALTER TABLE public.students
+  DROP CONSTRAINT IF EXISTS students_reminder_offsets_check;
+ALTER TABLE public.students
+  ADD CONSTRAINT students_reminder_offsets_check
+  CHECK (0 < ALL (reminder_offsets) AND 43200 >= ALL (reminder_offsets));
+
+ALTER TABLE public.sessions
+  DROP CONSTRAINT IF EXISTS sessions_reminder_offsets_check;
+ALTER TABLE public.sessions
+  ADD CONSTRAINT sessions_reminder_offsets_check
+  CHECK (0 < ALL (reminder_offsets) AND 43200 >= ALL (reminder_offsets));
+
+-- Existing sessions keep the reminders they were created with (none if unset)
+UPDATE public.sessions
+SET reminder_offsets = CASE whatsapp_reminder_options
+  WHEN '5' THEN '{5}'::INTEGER[]
+  WHEN '15' THEN '{15}'::INTEGER[]
+  WHEN '30' THEN '{30}'::INTEGER[]
+  WHEN '30_5' THEN '{30,5}'::INTEGER[]
+  ELSE '{}'::INTEGER[]
+END;
+
+COMMENT ON COLUMN public.sessions.whatsapp_reminder_options IS
+  'Deprecated: replaced by reminder_offsets';
+
+-- Session override, then student override, then the teacher's default
+CREATE OR REPLACE FUNCTION public.effective_reminder_offsets(p_session_id UUID)
+RETURNS INTEGER[]
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(s.reminder_offsets, st.reminder_offsets, p.reminder_offsets, '{}')
+  FROM public.sessions s
+  JOIN public.students st ON st.id = s.student_id
+  LEFT JOIN public.profiles p ON p.id = COALESCE(s.created_by, st.owner_id)
+  WHERE s.id = p_session_id;
+$$;
+
+-- Replaces a session's pending reminders with one job per offset and channel.
+-- Reminders whose time has already passed are skipped. Sessions that are no
+-- longer scheduled only get their pending reminders canceled.
+CREATE OR REPLACE FUNCTION public.enqueue_session_reminders(p_session_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_session public.sessions;
+  v_count INTEGER;
+BEGIN
+  SELECT * INTO v_session
+  FROM public.sessions
+  WHERE id = p_session_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found';
+  END IF;
+
+  IF v_session.status <> 'SCHEDULED' THEN
+    UPDATE public.reminder_jobs
+    SET status = 'CANCELED'
+    WHERE session_id = p_session_id
+      AND status = 'PENDING';
+    RETURN 0;
+  END IF;
+
+  DELETE FROM public.reminder_jobs
+  WHERE session_id = p_session_id
+    AND status = 'PENDING';
+
+  INSERT INTO public.reminder_jobs (session_id, scheduled_for, channel, status)
+  SELECT p_session_id,
+         v_session.scheduled_start_at - make_interval(mins => offsets.minutes),
+         channels.channel,
+         'PENDING'
+  FROM unnest(public.effective_reminder_offsets(p_session_id)) AS offsets(minutes)
+  CROSS JOIN unnest(v_session.reminder_channels) AS channels(channel)
+  WHERE v_session.scheduled_start_at - make_interval(mins => offsets.minutes) > now();
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  IF 'WHATSAPP' = ANY (v_session.reminder_channels) AND v_count > 0 THEN
+    UPDATE public.sessions
+    SET whatsapp_notification_status = 'PENDING'
+    WHERE id = p_session_id;
+  END IF;
+
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_session_reminders()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.enqueue_session_reminders(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_session_reminders_on_insert ON public.sessions;
+CREATE TRIGGER sync_session_reminders_on_insert
+  AFTER INSERT ON public.sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_session_reminders();
+
+-- whatsapp_notification_status isn't in the column list, so the status update
+-- in enqueue_session_reminders doesn't fire this again
+DROP TRIGGER IF EXISTS sync_session_reminders_on_update ON public.sessions;
+CREATE TRIGGER sync_session_reminders_on_update
+  AFTER UPDATE OF scheduled_start_at, status, reminder_offsets, reminder_channels, student_id
+  ON public.sessions
+  FOR EACH ROW
+  WHEN (
+    OLD.scheduled_start_at IS DISTINCT FROM NEW.scheduled_start_at
+    OR OLD.status IS DISTINCT FROM NEW.status
+    OR OLD.reminder_offsets IS DISTINCT FROM NEW.reminder_offsets
+    OR OLD.reminder_channels IS DISTINCT FROM NEW.reminder_channels
+    OR OLD.student_id IS DISTINCT FROM NEW.student_id
+  )
+  EXECUTE FUNCTION public.sync_session_reminders();
+
+-- Upcoming sessions that inherit their offsets follow changes to the default
+CREATE OR REPLACE FUNCTION public.sync_student_reminders()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.enqueue_session_reminders(s.id)
+  FROM public.sessions s
+  WHERE s.student_id = NEW.id
+    AND s.status = 'SCHEDULED'
+    AND s.scheduled_start_at > now()
+    AND s.reminder_offsets IS NULL;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_student_reminders ON public.students;
+CREATE TRIGGER sync_student_reminders
+  AFTER UPDATE OF reminder_offsets ON public.students
+  FOR EACH ROW
+  WHEN (OLD.reminder_offsets IS DISTINCT FROM NEW.reminder_offsets)
+  EXECUTE FUNCTION public.sync_student_reminders();
+
+CREATE OR REPLACE FUNCTION public.sync_profile_reminders()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.enqueue_session_reminders(s.id)
+  FROM public.sessions s
+  JOIN public.students st ON st.id = s.student_id
+  WHERE COALESCE(s.created_by, st.owner_id) = NEW.id
+    AND s.status = 'SCHEDULED'
+    AND s.scheduled_start_at > now()
+    AND s.reminder_offsets IS NULL
+    AND st.reminder_offsets IS NULL;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_profile_reminders ON public.profiles;
+CREATE TRIGGER sync_profile_reminders
+  AFTER UPDATE OF reminder_offsets ON public.profiles
+  FOR EACH ROW
+  WHEN (OLD.reminder_offsets IS DISTINCT FROM NEW.reminder_offsets)
+  EXECUTE FUNCTION public.sync_profile_reminders();
@@ -0,0 +1,74 @@
+-- Localized reminder messages
+-- Reminder text comes from message_templates in the student's language, with
+-- {{student_name}}, {{start_time}}, {{zoom_link}} and {{balance}} filled in.
+-- Rows without an owner are the built-in defaults; a teacher's own row for a
+-- language replaces the default for their students. start_time is rendered in
+-- the student's timezone.
+
+ALTER TABLE public.students
+  ADD COLUMN IF NOT EXISTS language TEXT NOT NULL DEFAULT 'en',
+  ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'UTC';
+
+ALTER TABLE public.students
+  DROP CONSTRAINT IF EXISTS students_language_check;
+ALTER TABLE public.students
+  ADD CONSTRAINT students_language_check CHECK (language IN ('en', 'ar', 'fr'));
+
+CREATE TABLE IF NOT EXISTS public.message_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  kind TEXT NOT NULL DEFAULT 'REMINDER' CHECK (kind IN ('REMINDER')),
+  language TEXT NOT NULL CHECK (language IN ('en', 'ar', 'fr')),
+  subject TEXT NOT NULL, -- used for email
+  body TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT message_templates_owner_kind_language_key UNIQUE NULLS NOT DISTINCT (owner_id, kind, language)
+);
+
+ALTER TABLE public.message_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view default and own message templates"
+  ON public.message_templates FOR SELECT
+  TO authenticated
+  USING (owner_id IS NULL OR public.can_access_owner(owner_id));
+
+CREATE POLICY "Teachers can create own message templates"
+  ON public.message_templates FOR INSERT
+  TO authenticated
+  WITH CHECK (owner_id IS NOT NULL AND public.can_manage_owner(owner_id));
+
+CREATE POLICY "Teachers can update own message templates"
+  ON public.message_templates FOR UPDATE
+  TO authenticated
+  USING (owner_id IS NOT NULL AND public.can_manage_owner(owner_id))
+  WITH CHECK (owner_id IS NOT NULL AND public.can_manage_owner(owner_id));
+
+CREATE POLICY "Teachers can delete own message templates"
+  ON public.message_templates FOR DELETE
+  TO authenticated
+  USING (owner_id IS NOT NULL AND public.can_manage_owner(owner_id));
+
+CREATE TRIGGER update_message_templates_updated_at
+  BEFORE UPDATE ON public.message_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.message_templates (owner_id, kind, language, subject, body)
+VALUES
+  (
+    NULL, 'REMINDER', 'en',
+    'Reminder: tutoring session on {{start_time}}',
+    E'Reminder: your tutoring session starts on {{start_time}}.\nStudent: {{student_name}}\nZoom: {{zoom_link}}'
+  ),
+  (
+    NULL, 'REMINDER', 'fr',
+    'Rappel : séance de tutorat le {{start_time}}',
+    E'Rappel : votre séance de tutorat commence le {{start_time}}.\nÉlève : {{student_name}}\nZoom : {{zoom_link}}'
+  ),
+  (
+    NULL, 'REMINDER', 'ar',
+    'تذكير: جلسة دراسية في {{start_time}}',
+    E'تذكير: تبدأ جلستك الدراسية في {{start_time}}.\nالطالب: {{student_name}}\nZoom: {{zoom_link}}'
+  )
+ON CONFLICT (owner_id, kind, language) DO NOTHING;
@@ -0,0 +1,21 @@
+-- WhatsApp approved templates
+-- WhatsApp only delivers free-form text within 24 hours of the student's last
+-- message, so reminders go out as the teacher's approved template otherwise.
+-- whatsapp_template_params lists the placeholders that fill the template's
+-- {{1}}, {{2}}, ... in order.
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS whatsapp_template_name TEXT,
+  ADD COLUMN IF NOT EXISTS whatsapp_template_language TEXT,
+  ADD COLUMN IF NOT EXISTS whatsapp_template_params TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.profiles
+  DROP CONSTRAINT IF EXISTS profiles_whatsapp_template_params_check;
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_whatsapp_template_params_check
+  CHECK (whatsapp_template_params <@ ARRAY['student_name', 'start_time', 'zoom_link', 'balance']::TEXT[]);
+
+-- When the student last wrote to the teacher's WhatsApp number; opens the
+-- 24-hour window for plain text
+ALTER TABLE public.students
+  ADD COLUMN IF NOT EXISTS whatsapp_last_inbound_at TIMESTAMP WITH TIME ZONE;
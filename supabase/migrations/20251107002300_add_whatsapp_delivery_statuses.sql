@@ -0,0 +1,4 @@
+-- Delivery receipts from the WhatsApp webhook.
+-- Added on their own because new enum values can't be used in the same transaction.
+ALTER TYPE public.whatsapp_reminder_status ADD VALUE IF NOT EXISTS 'DELIVERED';
+ALTER TYPE public.whatsapp_reminder_status ADD VALUE IF NOT EXISTS 'READ';
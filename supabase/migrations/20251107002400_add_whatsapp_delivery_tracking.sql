@@ -0,0 +1,72 @@
+-- WhatsApp delivery tracking
+-- The sender stores the Graph message id on the job (and on the session as
+-- whatsapp_invite_message_id); the whatsapp-webhook function matches Meta's
+-- status callbacks to it. delivery_status only moves forward
+-- (SENT -> DELIVERED -> READ); FAILED also fails the job.
+
+ALTER TABLE public.reminder_jobs
+  ADD COLUMN IF NOT EXISTS provider_message_id TEXT,
+  ADD COLUMN IF NOT EXISTS delivery_status TEXT CHECK (delivery_status IN ('SENT', 'DELIVERED', 'READ', 'FAILED')),
+  ADD COLUMN IF NOT EXISTS delivery_updated_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_reminder_jobs_provider_message_id
+  ON public.reminder_jobs (provider_message_id)
+  WHERE provider_message_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_sessions_whatsapp_invite_message_id
+  ON public.sessions (whatsapp_invite_message_id)
+  WHERE whatsapp_invite_message_id IS NOT NULL;
+
+-- Orders delivery statuses; FAILED ranks with DELIVERED so it can only
+-- replace SENT. Anything else (NULL, NONE, PENDING) ranks lowest.
+CREATE OR REPLACE FUNCTION public.whatsapp_delivery_rank(p_status TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_status
+    WHEN 'SENT' THEN 1
+    WHEN 'DELIVERED' THEN 2
+    WHEN 'FAILED' THEN 2
+    WHEN 'READ' THEN 3
+    ELSE 0
+  END;
+$$;
+
+-- Applies one status callback. Meta doesn't guarantee order, so a status only
+-- replaces a lower-ranked one. Returns how many jobs changed.
+CREATE OR REPLACE FUNCTION public.apply_whatsapp_delivery_status(
+  p_message_id TEXT,
+  p_status TEXT,
+  p_error TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  IF p_status NOT IN ('SENT', 'DELIVERED', 'READ', 'FAILED') THEN
+    RAISE EXCEPTION 'Unknown delivery status %', p_status;
+  END IF;
+
+  UPDATE public.reminder_jobs
+  SET delivery_status = p_status,
+      delivery_updated_at = now(),
+      status = CASE WHEN p_status = 'FAILED' THEN 'FAILED'::public.reminder_status ELSE status END,
+      last_error = CASE WHEN p_status = 'FAILED' THEN p_error ELSE last_error END
+  WHERE provider_message_id = p_message_id
+    AND public.whatsapp_delivery_rank(delivery_status) < public.whatsapp_delivery_rank(p_status);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  UPDATE public.sessions
+  SET whatsapp_notification_status = p_status::public.whatsapp_reminder_status,
+      whatsapp_last_error = CASE WHEN p_status = 'FAILED' THEN p_error ELSE whatsapp_last_error END
+  WHERE whatsapp_invite_message_id = p_message_id
+    AND public.whatsapp_delivery_rank(whatsapp_notification_status::TEXT) < public.whatsapp_delivery_rank(p_status);
+
+  RETURN v_count;
+END;
+$$;
@@ -0,0 +1,139 @@
+-- Confirm / reschedule replies to WhatsApp reminders
+-- Reminders carry two quick-reply buttons. whatsapp-webhook passes a tapped
+-- button to record_session_reply, which stores the answer on the session and
+-- notifies the teacher. Asking to reschedule inside the late-cancel window
+-- cancels the session through cancel_session, charge policy included.
+
+ALTER TABLE public.sessions
+  ADD COLUMN IF NOT EXISTS confirmation_status TEXT CHECK (confirmation_status IN ('CONFIRMED', 'RESCHEDULE_REQUESTED')),
+  ADD COLUMN IF NOT EXISTS confirmation_updated_at TIMESTAMP WITH TIME ZONE;
+
+-- Approved templates only get buttons when they were approved with two
+-- quick replies (Confirm, Need to reschedule)
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS whatsapp_template_quick_replies BOOLEAN NOT NULL DEFAULT false;
+
+-- An answer is about a particular start time
+CREATE OR REPLACE FUNCTION public.reset_session_confirmation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.confirmation_status := NULL;
+  NEW.confirmation_updated_at := NULL;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reset_session_confirmation_on_reschedule ON public.sessions;
+CREATE TRIGGER reset_session_confirmation_on_reschedule
+  BEFORE UPDATE OF scheduled_start_at ON public.sessions
+  FOR EACH ROW
+  WHEN (OLD.scheduled_start_at IS DISTINCT FROM NEW.scheduled_start_at)
+  EXECUTE FUNCTION public.reset_session_confirmation();
+
+-- In-app notifications for a teacher (and their assistants)
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  session_id UUID REFERENCES public.sessions(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('SESSION_CONFIRMED', 'RESCHEDULE_REQUESTED', 'LATE_CANCEL')),
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_owner_created
+  ON public.notifications (owner_id, created_at DESC);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their teacher's notifications"
+  ON public.notifications FOR SELECT
+  TO authenticated
+  USING (public.can_access_owner(owner_id));
+
+CREATE POLICY "Users can mark their teacher's notifications read"
+  ON public.notifications FOR UPDATE
+  TO authenticated
+  USING (public.can_access_owner(owner_id))
+  WITH CHECK (public.can_access_owner(owner_id));
+
+-- The bell updates as replies come in; realtime applies the RLS above
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+-- Records a student's reply to a reminder. p_phone must be the session's
+-- student, so a reply can only answer the sender's own session. Returns the
+-- notification kind, or NULL when the reply was ignored (unknown session,
+-- no longer scheduled, already started, or the same answer again).
+CREATE OR REPLACE FUNCTION public.record_session_reply(
+  p_session_id UUID,
+  p_phone TEXT,
+  p_reply TEXT
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_session public.sessions%ROWTYPE;
+  v_student public.students%ROWTYPE;
+  v_owner_id UUID;
+  v_window_hours INTEGER;
+  v_status TEXT;
+  v_kind TEXT;
+BEGIN
+  IF p_reply NOT IN ('CONFIRM', 'RESCHEDULE') THEN
+    RAISE EXCEPTION 'Unknown reply %', p_reply;
+  END IF;
+
+  SELECT * INTO v_session
+  FROM public.sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_session.status <> 'SCHEDULED' OR v_session.scheduled_start_at <= now() THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_student FROM public.students WHERE id = v_session.student_id;
+  IF v_student.phone_e164 IS NULL
+     OR regexp_replace(v_student.phone_e164, '\D', '', 'g') <> regexp_replace(p_phone, '\D', '', 'g') THEN
+    RETURN NULL;
+  END IF;
+
+  v_status := CASE p_reply WHEN 'CONFIRM' THEN 'CONFIRMED' ELSE 'RESCHEDULE_REQUESTED' END;
+  IF v_session.confirmation_status IS NOT DISTINCT FROM v_status THEN
+    RETURN NULL;
+  END IF;
+
+  v_owner_id := COALESCE(v_session.created_by, v_student.owner_id);
+
+  IF p_reply = 'CONFIRM' THEN
+    v_kind := 'SESSION_CONFIRMED';
+  ELSE
+    SELECT COALESCE(v_student.late_cancel_window_hours, p.late_cancel_window_hours, 24) INTO v_window_hours
+    FROM public.profiles p
+    WHERE p.id = v_owner_id;
+
+    IF now() >= v_session.scheduled_start_at - make_interval(hours => COALESCE(v_window_hours, 24)) THEN
+      PERFORM public.cancel_session(p_session_id, true);
+      v_kind := 'LATE_CANCEL';
+    ELSE
+      v_kind := 'RESCHEDULE_REQUESTED';
+    END IF;
+  END IF;
+
+  UPDATE public.sessions
+  SET confirmation_status = v_status,
+      confirmation_updated_at = now()
+  WHERE id = p_session_id;
+
+  IF v_owner_id IS NOT NULL THEN
+    INSERT INTO public.notifications (owner_id, session_id, kind)
+    VALUES (v_owner_id, p_session_id, v_kind);
+  END IF;
+
+  RETURN v_kind;
+END;
+$$;
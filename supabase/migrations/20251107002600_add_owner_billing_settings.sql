@@ -0,0 +1,161 @@
+-- Billing settings of a session's teacher, readable by everyone who can work
+-- on the teacher's sessions. calculate_session_charge and
+-- apply_session_charge_policy run as the caller, and profiles RLS only shows a
+-- user their own row, so when an assistant or organization colleague completed
+-- or cancelled a teacher's session the teacher's billing rule and charge
+-- policy came back empty and the defaults were charged instead.
+
+-- Only the billing fields, and only for callers with access to the owner.
+-- Without a signed-in user (service role) every owner is readable.
+CREATE OR REPLACE FUNCTION public.get_owner_billing_settings(p_owner_id UUID)
+RETURNS TABLE (
+  billing_rule billing_rule,
+  late_cancel_window_hours INTEGER,
+  late_cancel_charge_percent NUMERIC,
+  no_show_charge_percent NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.billing_rule, p.late_cancel_window_hours, p.late_cancel_charge_percent, p.no_show_charge_percent
+  FROM public.profiles p
+  WHERE p.id = p_owner_id
+    AND (auth.uid() IS NULL OR public.can_access_owner(p_owner_id));
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_owner_billing_settings(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_owner_billing_settings(UUID) TO authenticated, service_role;
+
+-- Same as before, but reads the billing rule through get_owner_billing_settings
+-- and fails instead of charging the default when it can't
+CREATE OR REPLACE FUNCTION public.calculate_session_charge(
+  p_session_id UUID,
+  p_actual_start TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_actual_end TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_session public.sessions%ROWTYPE;
+  v_owner_id UUID;
+  v_rule billing_rule;
+  v_price_per_hour NUMERIC;
+  v_minutes NUMERIC;
+BEGIN
+  SELECT * INTO v_session FROM public.sessions WHERE id = p_session_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session % not found', p_session_id;
+  END IF;
+
+  SELECT price_per_hour INTO v_price_per_hour FROM public.students WHERE id = v_session.student_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Student % not found', v_session.student_id;
+  END IF;
+
+  v_owner_id := COALESCE(v_session.created_by, auth.uid());
+  IF v_owner_id IS NOT NULL THEN
+    SELECT s.billing_rule INTO v_rule FROM public.get_owner_billing_settings(v_owner_id) s;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Billing settings of teacher % are not available', v_owner_id;
+    END IF;
+  END IF;
+
+  IF COALESCE(v_rule, 'SCHEDULED') = 'SCHEDULED' THEN
+    v_minutes := EXTRACT(EPOCH FROM (v_session.scheduled_end_at - v_session.scheduled_start_at)) / 60;
+  ELSE
+    v_minutes := EXTRACT(EPOCH FROM (
+      COALESCE(p_actual_end, v_session.scheduled_end_at) - COALESCE(p_actual_start, v_session.scheduled_start_at)
+    )) / 60;
+    IF v_minutes < 0 THEN
+      RAISE EXCEPTION 'Actual end must be after actual start';
+    END IF;
+    IF v_rule = 'ACTUAL_ROUND_15' THEN
+      v_minutes := ceil(v_minutes / 15) * 15;
+    ELSIF v_rule = 'ACTUAL_ROUND_30' THEN
+      v_minutes := ceil(v_minutes / 30) * 30;
+    END IF;
+  END IF;
+
+  RETURN round(v_minutes / 60 * v_price_per_hour, 2);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_session_charge_policy(p_session_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_session public.sessions%ROWTYPE;
+  v_student public.students%ROWTYPE;
+  v_owner_id UUID;
+  v_policy RECORD;
+  v_window_hours INTEGER;
+  v_percent NUMERIC;
+  v_label TEXT;
+  v_session_price NUMERIC;
+  v_entry_id UUID;
+BEGIN
+  SELECT * INTO v_session FROM public.sessions WHERE id = p_session_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session % not found', p_session_id;
+  END IF;
+
+  SELECT * INTO v_student FROM public.students WHERE id = v_session.student_id;
+
+  v_owner_id := COALESCE(v_session.created_by, auth.uid());
+  IF v_owner_id IS NOT NULL THEN
+    SELECT * INTO v_policy FROM public.get_owner_billing_settings(v_owner_id);
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Billing settings of teacher % are not available', v_owner_id;
+    END IF;
+  ELSE
+    SELECT NULL::INTEGER AS late_cancel_window_hours,
+           NULL::NUMERIC AS late_cancel_charge_percent,
+           NULL::NUMERIC AS no_show_charge_percent
+    INTO v_policy;
+  END IF;
+
+  IF v_session.status = 'NO_SHOW' THEN
+    v_percent := COALESCE(v_student.no_show_charge_percent, v_policy.no_show_charge_percent, 0);
+    v_label := 'no-show';
+  ELSIF v_session.status = 'CANCELED' THEN
+    v_window_hours := COALESCE(v_student.late_cancel_window_hours, v_policy.late_cancel_window_hours, 24);
+    IF COALESCE(v_session.canceled_at, now())
+       < v_session.scheduled_start_at - make_interval(hours => v_window_hours) THEN
+      RETURN NULL;
+    END IF;
+    v_percent := COALESCE(v_student.late_cancel_charge_percent, v_policy.late_cancel_charge_percent, 0);
+    v_label := 'late cancellation';
+  ELSE
+    RETURN NULL;
+  END IF;
+
+  IF v_percent <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  v_session_price := EXTRACT(EPOCH FROM (v_session.scheduled_end_at - v_session.scheduled_start_at)) / 3600
+    * v_student.price_per_hour;
+
+  -- A session is only ever charged once
+  INSERT INTO public.ledger_entries (student_id, session_id, type, amount, reference, created_by)
+  VALUES (
+    v_session.student_id,
+    p_session_id,
+    'SESSION_CHARGE',
+    -round(v_session_price * v_percent / 100, 2),
+    format('Session %s on %s (%s, %s%%)', p_session_id, to_char(v_session.scheduled_start_at, 'YYYY-MM-DD'), v_label, v_percent),
+    auth.uid()
+  )
+  ON CONFLICT (session_id) WHERE type = 'SESSION_CHARGE' AND session_id IS NOT NULL DO NOTHING
+  RETURNING id INTO v_entry_id;
+
+  RETURN v_entry_id;
+END;
+$$;
@@ -0,0 +1,22 @@
+-- effective_reminder_offsets ran as the caller, and profiles RLS only shows a
+-- user their own row, so sessions created or moved by an assistant or an
+-- organization colleague resolved to '{}' and got no reminders. It now reads
+-- the teacher's default as definer, for callers with access to the session's
+-- teacher (and for the service role).
+CREATE OR REPLACE FUNCTION public.effective_reminder_offsets(p_session_id UUID)
+RETURNS INTEGER[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(s.reminder_offsets, st.reminder_offsets, p.reminder_offsets, '{}')
+  FROM public.sessions s
+  JOIN public.students st ON st.id = s.student_id
+  LEFT JOIN public.profiles p ON p.id = COALESCE(s.created_by, st.owner_id)
+  WHERE s.id = p_session_id
+    AND (auth.uid() IS NULL OR public.can_access_owner(COALESCE(s.created_by, st.owner_id)));
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.effective_reminder_offsets(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.effective_reminder_offsets(UUID) TO authenticated, service_role;
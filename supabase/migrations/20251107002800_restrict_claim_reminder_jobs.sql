@@ -0,0 +1,5 @@
+-- Only the reminder senders (service role) claim jobs; a signed-in user
+-- calling claim_reminder_jobs would lease their reminders away from the
+-- senders until the lease expired.
+REVOKE EXECUTE ON FUNCTION public.claim_reminder_jobs(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_reminder_jobs(INTEGER, INTEGER) TO service_role;
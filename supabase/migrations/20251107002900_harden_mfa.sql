@@ -0,0 +1,108 @@
+-- MFA hardening
+-- Profiles hold Zoom and WhatsApp credentials, so for users with a verified
+-- factor they are only readable and writable once the session has passed the
+-- TOTP challenge. Recovery code guesses are limited per user.
+
+-- True unless the user has a verified factor and the session is still AAL1.
+-- Unlike mfa_requirement_met this ignores the organization's require_mfa, so
+-- members who still have to enroll can read their own profile.
+CREATE OR REPLACE FUNCTION public.mfa_challenge_passed()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(auth.jwt() ->> 'aal', 'aal1') = 'aal2'
+    OR NOT EXISTS (
+      SELECT 1 FROM auth.mfa_factors
+      WHERE user_id = auth.uid()
+        AND status = 'verified'
+    );
+$$;
+
+DROP POLICY IF EXISTS "Users can view own profile" ON public.profiles;
+DROP POLICY IF EXISTS "Users can update own profile" ON public.profiles;
+DROP POLICY IF EXISTS "Admins can view all profiles" ON public.profiles;
+DROP POLICY IF EXISTS "Admins can update all profiles" ON public.profiles;
+
+CREATE POLICY "Users can view own profile"
+  ON public.profiles FOR SELECT
+  TO authenticated
+  USING (auth.uid() = id AND public.mfa_challenge_passed());
+
+CREATE POLICY "Users can update own profile"
+  ON public.profiles FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = id AND public.mfa_challenge_passed());
+
+CREATE POLICY "Admins can view all profiles"
+  ON public.profiles FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin') AND public.mfa_challenge_passed());
+
+CREATE POLICY "Admins can update all profiles"
+  ON public.profiles FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin') AND public.mfa_challenge_passed());
+
+-- Failed recovery code guesses; no policies, only consume_mfa_recovery_code
+-- reads and writes them
+CREATE TABLE IF NOT EXISTS public.mfa_recovery_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  attempted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mfa_recovery_attempts_user
+  ON public.mfa_recovery_attempts (user_id, attempted_at);
+
+ALTER TABLE public.mfa_recovery_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Same as before, but after 5 wrong codes within 15 minutes the user is locked
+-- out until the oldest of them ages out. The lockout is raised as SQLSTATE
+-- PT429, which PostgREST answers with HTTP 429.
+CREATE OR REPLACE FUNCTION public.consume_mfa_recovery_code(p_code TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+  v_failures INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Serializes concurrent guesses by the same user
+  PERFORM pg_advisory_xact_lock(hashtext('mfa_recovery:' || auth.uid()::text));
+
+  SELECT count(*) INTO v_failures
+  FROM public.mfa_recovery_attempts
+  WHERE user_id = auth.uid()
+    AND attempted_at > now() - interval '15 minutes';
+
+  IF v_failures >= 5 THEN
+    RAISE EXCEPTION 'Too many recovery code attempts. Try again in 15 minutes.'
+      USING ERRCODE = 'PT429';
+  END IF;
+
+  UPDATE public.mfa_recovery_codes
+  SET used_at = now()
+  WHERE user_id = auth.uid()
+    AND used_at IS NULL
+    AND code_hash = encode(extensions.digest(lower(trim(p_code)), 'sha256'), 'hex')
+  RETURNING id INTO v_id;
+
+  IF v_id IS NULL THEN
+    INSERT INTO public.mfa_recovery_attempts (user_id) VALUES (auth.uid());
+    RETURN false;
+  END IF;
+
+  DELETE FROM public.mfa_recovery_attempts WHERE user_id = auth.uid();
+  RETURN true;
+END;
+$$;
@@ -0,0 +1,49 @@
+-- Students still without an owner after the per-teacher backfill: on
+-- instances with several teachers, students that no session or ledger entry
+-- points to stayed NULL and were visible to nobody. They now go to whoever
+-- created their series, else to the first admin (or, without admins, the
+-- first user to sign up), and every assignment is logged.
+DO $$
+DECLARE
+  v_fallback_owner UUID;
+  v_student RECORD;
+  v_remaining INTEGER;
+BEGIN
+  UPDATE public.students st
+  SET owner_id = owners.owner_id
+  FROM (
+    SELECT DISTINCT ON (student_id) student_id, created_by AS owner_id
+    FROM public.session_series
+    WHERE created_by IS NOT NULL
+    GROUP BY student_id, created_by
+    ORDER BY student_id, count(*) DESC, created_by
+  ) owners
+  WHERE st.id = owners.student_id
+    AND st.owner_id IS NULL;
+
+  SELECT p.id INTO v_fallback_owner
+  FROM public.profiles p
+  ORDER BY
+    EXISTS (SELECT 1 FROM public.user_roles r WHERE r.user_id = p.id AND r.role = 'admin') DESC,
+    p.created_at,
+    p.id
+  LIMIT 1;
+
+  IF v_fallback_owner IS NOT NULL THEN
+    FOR v_student IN
+      UPDATE public.students
+      SET owner_id = v_fallback_owner
+      WHERE owner_id IS NULL
+      RETURNING id, first_name, last_name
+    LOOP
+      RAISE NOTICE 'Student % (% %) had no owner and was assigned to %',
+        v_student.id, v_student.first_name, v_student.last_name, v_fallback_owner;
+    END LOOP;
+  END IF;
+
+  SELECT count(*) INTO v_remaining FROM public.students WHERE owner_id IS NULL;
+  IF v_remaining > 0 THEN
+    RAISE WARNING '% students have no owner because there are no profiles to assign them to', v_remaining;
+  END IF;
+END;
+$$;
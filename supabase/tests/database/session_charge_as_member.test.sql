@@ -0,0 +1,72 @@
+-- Charges computed by an assistant use the teacher's billing rule, not the
+-- default. Run with `supabase test db`.
+BEGIN;
+SELECT plan(2);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'teacher@example.com'),
+  ('00000000-0000-0000-0000-0000000000a2', 'assistant@example.com'),
+  ('00000000-0000-0000-0000-0000000000a3', 'stranger@example.com');
+
+UPDATE public.profiles
+SET approval_status = 'APPROVED', is_approved = true
+WHERE id IN (
+  '00000000-0000-0000-0000-0000000000a1',
+  '00000000-0000-0000-0000-0000000000a2',
+  '00000000-0000-0000-0000-0000000000a3'
+);
+
+UPDATE public.profiles
+SET billing_rule = 'ACTUAL_ROUND_30'
+WHERE id = '00000000-0000-0000-0000-0000000000a1';
+
+INSERT INTO public.user_roles (user_id, role, owner_id)
+VALUES ('00000000-0000-0000-0000-0000000000a2', 'assistant', '00000000-0000-0000-0000-0000000000a1');
+
+INSERT INTO public.students (id, first_name, last_name, price_per_hour, owner_id)
+VALUES ('00000000-0000-0000-0000-0000000000b1', 'Test', 'Student', 60, '00000000-0000-0000-0000-0000000000a1');
+
+INSERT INTO public.sessions (id, student_id, scheduled_start_at, scheduled_end_at, status, created_by)
+VALUES (
+  '00000000-0000-0000-0000-0000000000c1',
+  '00000000-0000-0000-0000-0000000000b1',
+  '2030-01-01 10:00+00',
+  '2030-01-01 11:00+00',
+  'COMPLETED',
+  '00000000-0000-0000-0000-0000000000a1'
+);
+
+SET LOCAL ROLE authenticated;
+SELECT set_config(
+  'request.jwt.claims',
+  json_build_object('sub', '00000000-0000-0000-0000-0000000000a2', 'role', 'authenticated')::text,
+  true
+);
+
+-- 10 actual minutes round up to 30 under ACTUAL_ROUND_30; the SCHEDULED
+-- fallback would charge the full hour
+SELECT is(
+  public.calculate_session_charge(
+    '00000000-0000-0000-0000-0000000000c1',
+    '2030-01-01 10:00+00',
+    '2030-01-01 10:10+00'
+  ),
+  30.00::NUMERIC,
+  'assistant gets the teacher''s rounding rule'
+);
+
+SELECT set_config(
+  'request.jwt.claims',
+  json_build_object('sub', '00000000-0000-0000-0000-0000000000a3', 'role', 'authenticated')::text,
+  true
+);
+
+SELECT is_empty(
+  $$ SELECT * FROM public.get_owner_billing_settings('00000000-0000-0000-0000-0000000000a1') $$,
+  'other teachers can''t read the teacher''s billing settings'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;